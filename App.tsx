@@ -1,135 +1,180 @@
-
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { Brain, Activity } from 'lucide-react';
 import { 
-  SimulationState, 
   SimulationPhase, 
-  OptimizationStep, 
+  Dataset,
+  SimulationConfig,
+  SimulationTimeline,
+  AnalysisSettings,
+  ChatMessage,
+  InspectorSelection,
+  Locale,
+  ManualEdit,
+  PathView,
+  StabilityResult,
 } from './types';
 import { 
-  NUM_FEATURES, 
-  MAX_LAMBDA, 
-  LAMBDA_STEP, 
-  EPOCHS_PER_LAMBDA,
-  M_CONSTANT 
+  DEFAULT_CONFIG,
+  DEFAULT_DATASET_SPEC
 } from './constants';
-import { 
-  initializeWeights, 
-  performGradientStep, 
-  performProximalStep 
-} from './services/simulationLogic';
-import { analyzeLassoNetState } from './services/geminiService';
+import { generateSyntheticDataset, outputNames as datasetOutputNames } from './services/dataset';
+import { analyzeState, askTutor, loadAnalysisSettings, saveAnalysisSettings } from './services/analysis';
+import { createSimulation, step, editSimulation, manualEdits } from './services/simulationEngine';
+import { eventMessage, describeStep } from './services/eventLog';
+import { appendSnapshot, replaceSnapshot, seekSnapshot, buildTimelineMarkers, findPathPointSnapshot } from './services/history';
+import { selectLambda } from './services/modelSelection';
+import { exportSession, importSession, canShare, encodeShareHash, decodeShareHash, LoadedSession } from './services/session';
+import { downloadBlob, recordPathVideo } from './components/graphExport';
+import { createI18n, errorText, loadLocale, saveLocale } from './services/i18n';
+import { I18nContext } from './components/I18nContext';
 
 import { NetworkGraph } from './components/NetworkGraph';
 import { Controls } from './components/Controls';
 import { MathPanel } from './components/MathPanel';
-
-const INITIAL_STATE: SimulationState = {
-  phase: SimulationPhase.INIT,
-  step: OptimizationStep.GRADIENT,
-  lambda: 0,
-  epoch: 0,
-  features: [],
-  logs: ["Sẵn sàng."],
-  detailedLog: "Nhấn 'Bắt đầu' hoặc 'Bước tiếp' để chạy mô phỏng.",
-  calculationDetails: null
-};
+import { DatasetPanel } from './components/DatasetPanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import { PathChart } from './components/PathChart';
+import { ComparisonPanel } from './components/ComparisonPanel';
+import { LossChart } from './components/LossChart';
+import { ReportPanel } from './components/ReportPanel';
+import { SessionMenu } from './components/SessionMenu';
+import { AnalysisPanel } from './components/AnalysisPanel';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
 
 const App: React.FC = () => {
-  const [state, setState] = useState<SimulationState>(INITIAL_STATE);
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  const i18n = useMemo(() => createI18n(locale), [locale]);
+  const { t, num } = i18n;
+  const [dataset, setDataset] = useState<Dataset>(() => generateSyntheticDataset(DEFAULT_DATASET_SPEC));
+  const [timeline, setTimeline] = useState<SimulationTimeline>(() => ({
+    history: [createSimulation(DEFAULT_CONFIG, dataset)],
+    index: 0
+  }));
+  const state = timeline.history[timeline.index];
   const [isPlaying, setIsPlaying] = useState(false);
   const [speed, setSpeed] = useState(1000); 
-  const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
+  const [chat, setChat] = useState<ChatMessage[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>(loadAnalysisSettings);
+  const [highlightedFeature, setHighlightedFeature] = useState<number | null>(null);
+  const [inspected, setInspected] = useState<InspectorSelection>({ featureId: 1, hiddenIndex: 0 });
+  const [pathView, setPathView] = useState<PathView>(PathView.PATH);
+  const [stability, setStability] = useState<StabilityResult | null>(null);
 
   const bottomRef = useRef<HTMLDivElement>(null);
 
+  const [sessionError, setSessionError] = useState<unknown>(null);
+  const [recordProgress, setRecordProgress] = useState<number | null>(null);
+
   useEffect(() => {
-    resetSimulation();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+    saveLocale(locale);
+    document.documentElement.lang = locale;
+  }, [locale]);
 
   useEffect(() => {
     if (isPlaying) {
       bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
     }
-  }, [state.logs, isPlaying]);
-
-  const resetSimulation = () => {
-    setState({
-      ...INITIAL_STATE,
-      features: initializeWeights(),
-      logs: ["Đã khởi tạo 3 đặc trưng."],
-      detailedLog: "Khởi tạo: Gán trọng số ngẫu nhiên cho mạng.",
-      calculationDetails: null
-    });
+  }, [state.events, isPlaying]);
+
+  // Pass a config to apply new settings; without one the current config is kept
+  const resetSimulation = (newConfig?: SimulationConfig, newDataset: Dataset = dataset) => {
+    setTimeline(({ history, index }) => ({
+      history: [createSimulation(newConfig ?? history[index].config, newDataset)],
+      index: 0
+    }));
+    setIsPlaying(false);
+    setChat([]);
+  };
+
+  const handleDatasetChange = (newDataset: Dataset) => {
+    setDataset(newDataset);
+    resetSimulation(undefined, newDataset);
+  };
+
+  const applySession = (session: LoadedSession) => {
+    setDataset(session.dataset);
+    setTimeline(session.timeline);
+    setChat(session.chat);
+    setIsPlaying(false);
+    setSessionError(null);
+  };
+
+  // Open a shared link (#s=...) once on load
+  useEffect(() => {
+    try {
+      const shared = decodeShareHash(window.location.hash);
+      if (shared) applySession(shared);
+    } catch (err) {
+      setSessionError(err);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fileTimestamp = () => new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+  const handleSaveSession = () => {
+    const blob = new Blob([exportSession(timeline, chat)], { type: 'application/json' });
+    downloadBlob(blob, `lassonet-session-${fileTimestamp()}.json`);
+  };
+
+  const handleLoadSession = (text: string) => {
+    try {
+      applySession(importSession(text));
+    } catch (err) {
+      setSessionError(err);
+    }
+  };
+
+  const handleShare = async () => {
+    const url = `${window.location.origin}${window.location.pathname}${encodeShareHash(state)}`;
+    window.history.replaceState(null, '', url);
+    await navigator.clipboard.writeText(url);
+  };
+
+  // Records the current run from its first snapshot, with the manual edits made on the way;
+  // the visible timeline is left untouched
+  const handleRecord = async () => {
     setIsPlaying(false);
-    setAiAnalysis(null);
+    setRecordProgress(0);
+    try {
+      const video = await recordPathVideo(timeline.history[0], {
+        i18n,
+        edits: manualEdits(state),
+        onProgress: (done, total) => setRecordProgress(done / total)
+      });
+      downloadBlob(video, `lassonet-path-${fileTimestamp()}.webm`);
+    } catch (err) {
+      setSessionError(err);
+    } finally {
+      setRecordProgress(null);
+    }
   };
 
   const advanceSimulation = useCallback(() => {
-    setState(prev => {
-      let next = { ...prev };
-      let stepLog = "";
-      let calcDetails = prev.calculationDetails;
-
-      if (prev.phase === SimulationPhase.INIT) {
-        next.phase = SimulationPhase.PRETRAIN;
-        next.logs = [...prev.logs, ">>> Pretraining (Lambda = 0)"];
-        next.detailedLog = "Giai đoạn Pretrain: Chỉ chạy Gradient Descent thông thường để mạng học ổn định trước khi làm thưa.";
-        return next;
-      }
-
-      if (prev.step === OptimizationStep.GRADIENT) {
-        const result = performGradientStep(prev.features);
-        next.features = result.features;
-        calcDetails = result.details;
-        next.step = OptimizationStep.PROXIMAL;
-        stepLog = "Bước 1: Gradient Descent (Cập nhật trọng số)";
-        next.detailedLog = `Gradient Descent: Di chuyển θ và W theo hướng đạo hàm để giảm lỗi dự đoán.`;
-      } else {
-        const result = performProximalStep(prev.features, prev.lambda);
-        next.features = result.features;
-        calcDetails = result.details;
-        next.step = OptimizationStep.GRADIENT;
-        next.epoch += 1;
-        
-        stepLog = `Bước 2: Proximal (λ=${prev.lambda.toFixed(2)})`;
-        next.detailedLog = `Proximal Step: Áp dụng Soft-Thresholding để làm thưa θ và Ràng buộc Phân cấp (Clamping) lên W.`;
-
-        const activePrev = prev.features.filter(f => f.isActive).length;
-        const activeNext = next.features.filter(f => f.isActive).length;
-        if (activeNext < activePrev) {
-          next.logs = [...next.logs, `⚠️ Đặc trưng bị loại bỏ tại λ=${prev.lambda.toFixed(2)}`];
-        }
-      }
-
-      if (prev.phase === SimulationPhase.PRETRAIN) {
-        if (next.epoch >= 5) { 
-          next.phase = SimulationPhase.PATH_LOOP;
-          next.epoch = 0;
-          next.lambda = LAMBDA_STEP; 
-          next.logs = [...next.logs, `>>> Bắt đầu Path (λ=${next.lambda})`];
-        }
-      } else if (prev.phase === SimulationPhase.PATH_LOOP) {
-        if (next.epoch >= EPOCHS_PER_LAMBDA) {
-          next.epoch = 0;
-          next.lambda = parseFloat((prev.lambda + LAMBDA_STEP).toFixed(2));
-          
-          if (next.lambda > MAX_LAMBDA) {
-            next.phase = SimulationPhase.FINISHED;
-            next.logs = [...next.logs, ">>> Hoàn tất mô phỏng"];
-            setIsPlaying(false);
-          } else {
-            next.logs = [...next.logs, `Tăng λ lên ${next.lambda}`];
-          }
-        }
-      }
-
-      return { ...next, detailedLog: stepLog, calculationDetails: calcDetails };
-    });
+    setTimeline(timeline => appendSnapshot(timeline, step(timeline.history[timeline.index]).state));
   }, []);
 
+  // Edits from the graph become snapshots of their own, so they can be stepped back over
+  const handleEdit = useCallback((edit: ManualEdit) => {
+    setTimeline(timeline => appendSnapshot(timeline, editSimulation(timeline.history[timeline.index], edit).state));
+  }, []);
+
+  const stepBack = () => {
+    setIsPlaying(false);
+    setTimeline(t => seekSnapshot(t, t.index - 1));
+  };
+
+  const seek = (index: number) => {
+    setIsPlaying(false);
+    setTimeline(t => seekSnapshot(t, index));
+  };
+
+  // The machine stops itself at FINISHED; reflect that in the play button
+  useEffect(() => {
+    if (state.phase === SimulationPhase.FINISHED) setIsPlaying(false);
+  }, [state.phase]);
+
   useEffect(() => {
     let interval: ReturnType<typeof setInterval>;
     if (isPlaying && state.phase !== SimulationPhase.FINISHED) {
@@ -140,107 +185,236 @@ const App: React.FC = () => {
 
   const handleAiAnalysis = async () => {
     setIsAnalyzing(true);
-    const result = await analyzeLassoNetState(state);
-    setAiAnalysis(result);
+    const result = await analyzeState(state, analysisSettings, i18n);
+    setChat(messages => [...messages, { role: 'assistant', stepIndex: state.stepIndex, ...result }]);
+    setIsAnalyzing(false);
+  };
+
+  const handleTutorQuestion = async (text: string) => {
+    const messages: ChatMessage[] = [...chat, { role: 'user', text, stepIndex: state.stepIndex }];
+    setChat(messages);
+    setIsAnalyzing(true);
+    const result = await askTutor(messages, timeline, analysisSettings, i18n);
+    setChat([...messages, { role: 'assistant', stepIndex: state.stepIndex, ...result }]);
     setIsAnalyzing(false);
   };
 
+  // Answers cite engine steps; find the matching snapshot on the current branch
+  const jumpToStep = (stepIndex: number) => {
+    const index = timeline.history.findIndex(s => s.stepIndex === stepIndex);
+    if (index !== -1) seek(index);
+  };
+
+  const handleInspect = useCallback((change: Partial<InspectorSelection>) => {
+    setInspected(selection => ({ ...selection, ...change }));
+  }, []);
+
+  const handleAnalysisSettingsChange = (settings: AnalysisSettings) => {
+    setAnalysisSettings(settings);
+    saveAnalysisSettings(settings);
+  };
+
   const activeCount = state.features.filter(f => f.isActive).length;
+  // Highlights follow the most recent answer that came with valid structured verdicts
+  const aiVerdicts = useMemo(
+    () => [...chat].reverse().find(m => m.structured)?.structured ?? null,
+    [chat]
+  );
+  // The dataset or hidden layer may have shrunk since the selection was made
+  const inspectorSelection = useMemo<InspectorSelection>(() => ({
+    featureId: Math.min(inspected.featureId, state.features.length),
+    hiddenIndex: Math.min(inspected.hiddenIndex, state.config.hiddenSize - 1)
+  }), [inspected, state.features.length, state.config.hiddenSize]);
+  // Stability results belong to one config and dataset
+  useEffect(() => {
+    setStability(null);
+  }, [state.config, state.dataset]);
+
+  const timelineMarkers = useMemo(() => buildTimelineMarkers(timeline.history), [timeline.history]);
+  const lambdaSelection = useMemo(() => selectLambda(state.path), [state.path]);
+  const outputNames = useMemo(() => datasetOutputNames(state.dataset), [state.dataset]);
   
   return (
-    <div className="min-h-screen bg-slate-950 text-slate-200 p-4 font-sans flex flex-col h-screen overflow-hidden">
+    <I18nContext.Provider value={i18n}>
+      <div className="min-h-screen bg-slate-950 text-slate-200 p-4 font-sans flex flex-col h-screen overflow-hidden">
       
-      {/* Header */}
-      <header className="border-b border-slate-800 pb-2 flex-shrink-0 flex justify-between items-end">
-        <div>
-          <h1 className="text-xl font-bold text-white flex items-center gap-2">
-            <Brain className="text-emerald-400" size={24} />
-            Mô phỏng LassoNet
-          </h1>
-        </div>
-        <div className="text-xs text-slate-500 font-mono">
-          Thuật toán 2: Tối ưu hóa Prox-Linear
-        </div>
-      </header>
+        {/* Header */}
+        <header className="border-b border-slate-800 pb-2 flex-shrink-0 flex justify-between items-end">
+          <div>
+            <h1 className="text-xl font-bold text-white flex items-center gap-2">
+              <Brain className="text-emerald-400" size={24} />
+              {t('app.title')}
+            </h1>
+          </div>
+          <div className="flex items-end gap-4">
+            {sessionError && <span className="text-xs text-red-400">{errorText(sessionError, i18n)}</span>}
+            <SessionMenu
+              canShare={canShare(state)}
+              onSave={handleSaveSession}
+              onLoad={handleLoadSession}
+              onShare={handleShare}
+            />
+            <LanguageSwitcher locale={locale} onChange={setLocale} />
+            <div className="text-xs text-slate-500 font-mono">
+              {t('app.subtitle')}
+            </div>
+          </div>
+        </header>
 
-      {/* Main Content - Fixed Layout */}
-      <div className="flex-1 flex gap-4 overflow-hidden pt-4">
+        {/* Main Content - Fixed Layout */}
+        <div className="flex-1 flex gap-4 overflow-hidden pt-4">
         
-        {/* Left: Visualization & Controls */}
-        <div className="flex-1 flex flex-col gap-4 min-w-0">
+          {/* Left: Visualization & Controls */}
+          <div className="flex-1 flex flex-col gap-4 min-w-0">
           
-          {/* Controls Row */}
-          <div className="flex-shrink-0">
-            <Controls 
-              phase={state.phase} 
-              isPlaying={isPlaying} 
-              onTogglePlay={() => setIsPlaying(!isPlaying)} 
-              onStep={advanceSimulation}
-              onReset={resetSimulation}
-              speed={speed}
-              setSpeed={setSpeed}
-            />
-          </div>
+            {/* Controls Row */}
+            <div className="flex-shrink-0 space-y-2">
+              <Controls 
+                phase={state.phase} 
+                isPlaying={isPlaying} 
+                onTogglePlay={() => setIsPlaying(!isPlaying)} 
+                onStep={advanceSimulation}
+                onReset={() => resetSimulation()}
+                speed={speed}
+                setSpeed={setSpeed}
+                proximalMode={state.config.proximalMode}
+                onProximalModeChange={(mode) => setTimeline(t => replaceSnapshot(t, { ...state, config: { ...state.config, proximalMode: mode } }))}
+                pathView={pathView}
+                onPathViewChange={setPathView}
+                historyIndex={timeline.index}
+                historyLength={timeline.history.length}
+                markers={timelineMarkers}
+                onStepBack={stepBack}
+                onSeek={seek}
+              />
+              <SettingsPanel config={state.config} featureNames={state.dataset.featureNames} onApply={resetSimulation} />
+            </div>
 
-          {/* Graph */}
-          <div className="flex-1 min-h-0">
-            <NetworkGraph features={state.features} stepName={state.step} />
-          </div>
+            {/* Graph */}
+            <div className="flex-1 min-h-0">
+              <NetworkGraph
+                features={state.features}
+                featureNames={state.dataset.featureNames}
+                hiddenSize={state.config.hiddenSize}
+                mConstant={state.config.mConstant}
+                output={state.output}
+                details={state.calculationDetails}
+                outputNames={outputNames}
+                stepName={state.step}
+                highlightedFeature={highlightedFeature}
+                onHighlight={setHighlightedFeature}
+                selection={inspectorSelection}
+                onSelect={handleInspect}
+                aiVerdicts={aiVerdicts}
+                onRecord={handleRecord}
+                recordProgress={recordProgress}
+                onEdit={handleEdit}
+              />
+            </div>
 
-          {/* Bottom Log */}
-          <div className="h-32 flex-shrink-0 flex gap-4">
-             {/* Explanation Box */}
-             <div className="flex-1 bg-slate-900 p-4 rounded-lg border border-slate-800 overflow-y-auto">
-                <div className="flex items-center gap-2 mb-1 uppercase tracking-wider text-[10px] font-bold text-slate-500">
-                  <Activity size={12} /> Trạng thái hệ thống
-                </div>
-                <p className="text-slate-300 text-sm leading-relaxed">
-                  {state.detailedLog}
-                </p>
-                <div className="mt-2 grid grid-cols-3 gap-2 text-xs text-slate-400 font-mono">
-                  <div>Epoch: <span className="text-white">{state.epoch}</span></div>
-                  <div>Lambda: <span className="text-emerald-400">{state.lambda.toFixed(2)}</span></div>
-                  <div>Hoạt động: <span className="text-blue-400">{activeCount}</span></div>
+            {/* Regularization Path, the baselines side by side, or the elimination report */}
+            <div className={`${pathView === PathView.REPORT ? 'h-56' : 'h-40'} flex-shrink-0`}>
+              {pathView === PathView.COMPARISON ? (
+                <ComparisonPanel
+                  config={state.config}
+                  dataset={state.dataset}
+                  currentLambda={state.lambda}
+                  highlightedFeature={highlightedFeature}
+                  onHighlight={setHighlightedFeature}
+                />
+              ) : pathView === PathView.REPORT ? (
+                <ReportPanel
+                  state={state}
+                  stability={stability}
+                  onStabilityChange={setStability}
+                  highlightedFeature={highlightedFeature}
+                  onHighlight={setHighlightedFeature}
+                />
+              ) : (
+                <div className="h-full flex gap-2">
+                  <div className="flex-[2] min-w-0">
+                    <PathChart
+                      path={state.path}
+                      featureNames={state.dataset.featureNames}
+                      maxLambda={state.config.maxLambda}
+                      highlightedFeature={highlightedFeature}
+                      onHighlight={setHighlightedFeature}
+                    />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <LossChart
+                      path={state.path}
+                      maxLambda={state.config.maxLambda}
+                      currentLambda={state.lambda}
+                      selection={lambdaSelection}
+                      onJump={(pointIndex: number) => seek(findPathPointSnapshot(timeline.history, pointIndex))}
+                      canJump={(pointIndex: number) => findPathPointSnapshot(timeline.history, pointIndex) !== -1}
+                    />
+                  </div>
                 </div>
-             </div>
+              )}
+            </div>
 
-             {/* Simple Log */}
-             <div className="w-64 bg-black rounded-lg p-2 font-mono text-[10px] overflow-y-auto border border-slate-800">
-                {state.logs.map((log, i) => (
-                  <div key={i} className="mb-1 text-emerald-500/90 border-b border-slate-900/50 pb-1">
-                    <span className="text-slate-600 mr-2">{i+1}</span>{log}
+            {/* Bottom Log */}
+            <div className="h-32 flex-shrink-0 flex gap-4">
+               {/* Explanation Box */}
+               <div className="flex-1 bg-slate-900 p-4 rounded-lg border border-slate-800 overflow-y-auto">
+                  <div className="flex items-center gap-2 mb-1 uppercase tracking-wider text-[10px] font-bold text-slate-500">
+                    <Activity size={12} /> {t('app.status')}
                   </div>
-                ))}
-                <div ref={bottomRef} />
-             </div>
+                  <p className="text-slate-300 text-sm leading-relaxed">
+                    {i18n.message(describeStep(state))}
+                  </p>
+                  <div className="mt-2 grid grid-cols-5 gap-2 text-xs text-slate-400 font-mono">
+                    <div>{t('app.epoch')}: <span className="text-white">{state.epoch}</span></div>
+                    <div>{t('app.lambda')}: <span className="text-emerald-400">{num(state.lambda, 2)}</span></div>
+                    <div>{t('app.loss')}: <span className="text-red-400">{num(state.loss, 4)}</span></div>
+                    <div>{t('app.validationLoss')}: <span className="text-amber-400">{state.evaluation.validationLoss === null ? '—' : num(state.evaluation.validationLoss, 4)}</span></div>
+                    <div>{t('app.active')}: <span className="text-blue-400">{activeCount}</span></div>
+                  </div>
+               </div>
+
+               {/* Simple Log */}
+               <div className="w-64 bg-black rounded-lg p-2 font-mono text-[10px] overflow-y-auto border border-slate-800">
+                  {state.events.map((event, i) => (
+                    <div key={i} className="mb-1 text-emerald-500/90 border-b border-slate-900/50 pb-1">
+                      <span className="text-slate-600 mr-2">{i+1}</span>{i18n.message(eventMessage(event, state.dataset.featureNames))}
+                    </div>
+                  ))}
+                  <div ref={bottomRef} />
+               </div>
+            </div>
           </div>
-        </div>
 
-        {/* Right: Math Inspector */}
-        <div className="w-96 flex-shrink-0 flex flex-col gap-4">
-          <MathPanel details={state.calculationDetails} />
+          {/* Right: Math Inspector */}
+          <div className="w-96 flex-shrink-0 flex flex-col gap-4">
+            <DatasetPanel dataset={dataset} onDatasetChange={handleDatasetChange} />
+            <MathPanel
+              details={state.calculationDetails}
+              featureNames={state.dataset.featureNames}
+              hiddenSize={state.config.hiddenSize}
+              mConstant={state.config.mConstant}
+              outputNames={outputNames}
+              aiVerdicts={aiVerdicts}
+              selection={inspectorSelection}
+              onSelect={handleInspect}
+            />
           
-          <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex-shrink-0">
-            <div className="flex justify-between items-center mb-2">
-              <h3 className="font-bold text-indigo-300 text-xs flex items-center gap-2">
-                Phân tích AI (Gemini)
-              </h3>
-              <button 
-                onClick={handleAiAnalysis}
-                disabled={isAnalyzing}
-                className="text-[10px] uppercase font-bold bg-indigo-600 hover:bg-indigo-500 text-white px-2 py-1 rounded"
-              >
-                {isAnalyzing ? '...' : 'Hỏi AI'}
-              </button>
-            </div>
-            <div className="text-xs text-slate-400 min-h-[60px] max-h-[100px] overflow-y-auto">
-               {aiAnalysis || "Nhấn 'Hỏi AI' để phân tích trạng thái mạng."}
-            </div>
+            <AnalysisPanel
+              settings={analysisSettings}
+              onSettingsChange={handleAnalysisSettingsChange}
+              messages={chat}
+              isAnalyzing={isAnalyzing}
+              onAnalyze={handleAiAnalysis}
+              onSend={handleTutorQuestion}
+              onClear={() => setChat([])}
+              onStepLink={jumpToStep}
+            />
           </div>
-        </div>
 
+        </div>
       </div>
-    </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,307 @@
+// Headless LassoNet path runner: writes the per-step trace as JSON lines or CSV.
+//
+//   npm run path -- --hier-prox --schedule geometric --format csv --out path.csv
+//   npm run path -- --data iris.csv --target petal_width --summary summary.json
+//
+// The trace goes to --out (or stdout); the elimination summary goes to stderr
+// and, with --summary, to a JSON file.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  Dataset,
+  InnerLoop,
+  LambdaSchedule,
+  Locale,
+  OptimizerType,
+  PenaltyType,
+  ProximalMode,
+  SignalType,
+  SimulationConfig,
+  TraceRow
+} from '../types';
+import { DEFAULT_CONFIG, DEFAULT_DATASET_SPEC } from '../constants';
+import { validateConfig } from '../services/simulationConfig';
+import { createI18n } from '../services/i18n';
+import { generateSyntheticDataset, validateDatasetSpec, parseCsv, numericColumns, buildCsvDataset } from '../services/dataset';
+import { createSimulation, step, isFinished } from '../services/simulationEngine';
+import { traceRow, stepTypeOf, traceToCsv, traceToJsonLines, eliminationOrder } from '../services/pathTrace';
+import { selectLambda } from '../services/modelSelection';
+
+const USAGE = `Usage: npm run path -- [options]
+
+Model
+  --hidden <n>             Units of the first hidden layer (default ${DEFAULT_CONFIG.hiddenSize})
+  --deep-layers <4,3,...>  Widths of further hidden layers, trained without the hierarchy bound
+  --m <value>              Hierarchy coefficient M (default ${DEFAULT_CONFIG.mConstant})
+  --lr <value>             Learning rate (default ${DEFAULT_CONFIG.learningRate})
+  --hier-prox              Use Hier-Prox instead of threshold-then-clamp
+  --optimizer <o>          sgd | momentum | adam | line-search (default sgd)
+  --momentum <value>       Heavy-ball μ (default ${DEFAULT_CONFIG.momentum})
+  --beta1 <value>          Adam β₁ (default ${DEFAULT_CONFIG.adamBeta1})
+  --beta2 <value>          Adam β₂ (default ${DEFAULT_CONFIG.adamBeta2})
+  --line-search-shrink <v> Backtracking β (default ${DEFAULT_CONFIG.lineSearchShrink})
+  --penalty <p>            l1 | mcp | scad, on θ with threshold-then-clamp (default l1)
+  --gamma <value>          γ of MCP or a of SCAD (default ${DEFAULT_CONFIG.penaltyGamma})
+  --adaptive               Adaptive lasso weights ω = 1/|θ| from the pretrained model
+  --unpenalized <1,2,...>  Feature numbers that are never penalized
+  --validation <f>         Fraction of rows held out for λ selection, 0 to disable (default ${DEFAULT_CONFIG.validationFraction})
+  --seed <n>               Seed for initial weights and synthetic data (default ${DEFAULT_CONFIG.seed})
+
+λ schedule
+  --schedule <s>           linear | geometric (default linear)
+  --lambda-step <value>    Linear step (default ${DEFAULT_CONFIG.lambdaStep})
+  --lambda-start <value>   Geometric start (default ${DEFAULT_CONFIG.lambdaStart})
+  --lambda-growth <value>  Geometric ε in λ ← (1+ε)λ (default ${DEFAULT_CONFIG.lambdaGrowth})
+  --max-lambda <value>     Upper bound on λ (default ${DEFAULT_CONFIG.maxLambda})
+  --pretrain <n>           Epochs at λ = 0 (default ${DEFAULT_CONFIG.pretrainEpochs})
+  --inner-loop <s>         fixed | convergence (default fixed)
+  --epochs-per-lambda <n>  Epochs per λ in fixed mode (default ${DEFAULT_CONFIG.epochsPerLambda})
+  --tolerance <value>      Convergence tolerance (default ${DEFAULT_CONFIG.tolerance})
+  --patience <n>           Stalled epochs before moving on (default ${DEFAULT_CONFIG.patience})
+  --max-epochs <n>         Epoch cap per λ in convergence mode (default ${DEFAULT_CONFIG.maxEpochsPerLambda})
+
+Data
+  --features <n>           Synthetic columns in total (default ${DEFAULT_DATASET_SPEC.numSignal + DEFAULT_DATASET_SPEC.numNoise})
+  --signal <n>             Synthetic signal columns, the rest are noise (default ${DEFAULT_DATASET_SPEC.numSignal})
+  --signal-type <s>        linear | mixed | nonlinear | interaction (default mixed)
+  --samples <n>            Synthetic samples (default ${DEFAULT_DATASET_SPEC.numSamples})
+  --classes <n>            Cut the synthetic target into n classes, 0 for regression (default ${DEFAULT_DATASET_SPEC.numClasses})
+  --data <file.csv>        Use a CSV file instead of synthetic data
+  --target <column>        CSV target column (default: last numeric column)
+  --columns <a,b,...>      CSV feature columns (default: all other numeric columns)
+  --no-standardize         Keep CSV columns in their original scale
+  --classify               Treat the CSV target as class labels
+
+Output
+  --format <f>             jsonl | csv (default jsonl)
+  --out <file>             Trace file (default stdout)
+  --summary <file>         Also write the elimination summary as JSON
+  --help                   Show this message
+`;
+
+const fail = (message: string): never => {
+  process.stderr.write(`${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const OPTIONS = {
+  'hidden': { type: 'string' },
+  'deep-layers': { type: 'string' },
+  'm': { type: 'string' },
+  'lr': { type: 'string' },
+  'hier-prox': { type: 'boolean', default: false },
+  'optimizer': { type: 'string', default: 'sgd' },
+  'momentum': { type: 'string' },
+  'beta1': { type: 'string' },
+  'beta2': { type: 'string' },
+  'line-search-shrink': { type: 'string' },
+  'penalty': { type: 'string', default: 'l1' },
+  'gamma': { type: 'string' },
+  'adaptive': { type: 'boolean', default: false },
+  'unpenalized': { type: 'string' },
+  'validation': { type: 'string' },
+  'seed': { type: 'string' },
+  'schedule': { type: 'string', default: 'linear' },
+  'lambda-step': { type: 'string' },
+  'lambda-start': { type: 'string' },
+  'lambda-growth': { type: 'string' },
+  'max-lambda': { type: 'string' },
+  'pretrain': { type: 'string' },
+  'inner-loop': { type: 'string', default: 'fixed' },
+  'epochs-per-lambda': { type: 'string' },
+  'tolerance': { type: 'string' },
+  'patience': { type: 'string' },
+  'max-epochs': { type: 'string' },
+  'features': { type: 'string' },
+  'signal': { type: 'string' },
+  'signal-type': { type: 'string', default: 'mixed' },
+  'samples': { type: 'string' },
+  'classes': { type: 'string' },
+  'data': { type: 'string' },
+  'target': { type: 'string' },
+  'columns': { type: 'string' },
+  'no-standardize': { type: 'boolean', default: false },
+  'classify': { type: 'boolean', default: false },
+  'format': { type: 'string', default: 'jsonl' },
+  'out': { type: 'string' },
+  'summary': { type: 'string' },
+  'help': { type: 'boolean', default: false }
+} as const;
+
+const parseOptions = () => {
+  try {
+    return parseArgs({ options: OPTIONS }).values;
+  } catch (error) {
+    // Unknown flags and missing values
+    return fail((error as Error).message);
+  }
+};
+
+const args = parseOptions();
+
+if (args.help) {
+  process.stdout.write(USAGE);
+  process.exit(0);
+}
+
+const num = (name: keyof typeof args, fallback: number): number => {
+  const raw = args[name];
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : fail(`--${name} expects a number, got "${raw}".`);
+};
+
+const count = (name: keyof typeof args, fallback: number): number => {
+  const value = num(name, fallback);
+  return Number.isInteger(value) ? value : fail(`--${name} expects an integer, got "${args[name]}".`);
+};
+
+const pick = <T>(name: keyof typeof args, choices: Record<string, T>): T => {
+  const raw = String(args[name]).toLowerCase();
+  return raw in choices ? choices[raw] : fail(`--${name} must be one of: ${Object.keys(choices).join(', ')}.`);
+};
+
+// --- Config ---
+
+const config: SimulationConfig = {
+  ...DEFAULT_CONFIG,
+  hiddenSize: num('hidden', DEFAULT_CONFIG.hiddenSize),
+  deepLayers: args['deep-layers'] !== undefined ? args['deep-layers'].split(',').map(width => Number(width.trim())) : [],
+  mConstant: num('m', DEFAULT_CONFIG.mConstant),
+  learningRate: num('lr', DEFAULT_CONFIG.learningRate),
+  pretrainEpochs: num('pretrain', DEFAULT_CONFIG.pretrainEpochs),
+  maxLambda: num('max-lambda', DEFAULT_CONFIG.maxLambda),
+  lambdaStep: num('lambda-step', DEFAULT_CONFIG.lambdaStep),
+  epochsPerLambda: num('epochs-per-lambda', DEFAULT_CONFIG.epochsPerLambda),
+  lambdaSchedule: pick('schedule', { linear: LambdaSchedule.LINEAR, geometric: LambdaSchedule.GEOMETRIC }),
+  lambdaStart: num('lambda-start', DEFAULT_CONFIG.lambdaStart),
+  lambdaGrowth: num('lambda-growth', DEFAULT_CONFIG.lambdaGrowth),
+  innerLoop: pick('inner-loop', { fixed: InnerLoop.FIXED_EPOCHS, convergence: InnerLoop.CONVERGENCE }),
+  tolerance: num('tolerance', DEFAULT_CONFIG.tolerance),
+  patience: num('patience', DEFAULT_CONFIG.patience),
+  maxEpochsPerLambda: num('max-epochs', DEFAULT_CONFIG.maxEpochsPerLambda),
+  proximalMode: args['hier-prox'] ? ProximalMode.HIER_PROX : ProximalMode.THRESHOLD_CLAMP,
+  optimizer: pick('optimizer', {
+    sgd: OptimizerType.SGD,
+    momentum: OptimizerType.MOMENTUM,
+    adam: OptimizerType.ADAM,
+    'line-search': OptimizerType.LINE_SEARCH
+  }),
+  momentum: num('momentum', DEFAULT_CONFIG.momentum),
+  adamBeta1: num('beta1', DEFAULT_CONFIG.adamBeta1),
+  adamBeta2: num('beta2', DEFAULT_CONFIG.adamBeta2),
+  lineSearchShrink: num('line-search-shrink', DEFAULT_CONFIG.lineSearchShrink),
+  penalty: pick('penalty', { l1: PenaltyType.L1, mcp: PenaltyType.MCP, scad: PenaltyType.SCAD }),
+  penaltyGamma: num('gamma', DEFAULT_CONFIG.penaltyGamma),
+  adaptiveWeights: args.adaptive,
+  unpenalizedFeatures: args.unpenalized !== undefined ? args.unpenalized.split(',').map(id => Number(id.trim())) : [],
+  validationFraction: num('validation', DEFAULT_CONFIG.validationFraction),
+  seed: num('seed', DEFAULT_CONFIG.seed)
+};
+
+const english = createI18n(Locale.EN);
+const configErrors = validateConfig(config);
+if (configErrors.length > 0) fail(configErrors.map(english.message).join('\n'));
+
+// --- Dataset ---
+
+const loadCsvDataset = (file: string): Dataset => {
+  const csv = parseCsv(readFileSync(file, 'utf8'));
+  const numeric = numericColumns(csv);
+  const columnIndex = (name: string) => {
+    const index = csv.headers.indexOf(name);
+    return index !== -1 ? index : fail(`Column "${name}" not found in ${file}.`);
+  };
+
+  const target = args.target !== undefined ? columnIndex(args.target) : numeric[numeric.length - 1];
+  if (target === undefined) fail(`${file} has no numeric column to use as target.`);
+  const features = args.columns !== undefined
+    ? args.columns.split(',').map(c => columnIndex(c.trim()))
+    : numeric.filter(c => c !== target);
+
+  return buildCsvDataset(csv, features, target, {
+    standardize: !args['no-standardize'],
+    name: file,
+    classify: args.classify
+  });
+};
+
+const loadDataset = (): Dataset => {
+  if (args.data !== undefined) {
+    try {
+      return loadCsvDataset(args.data);
+    } catch (error) {
+      return fail(`Could not load ${args.data}: ${(error as Error).message}`);
+    }
+  }
+  const numSignal = count('signal', DEFAULT_DATASET_SPEC.numSignal);
+  const total = count('features', Math.max(numSignal, DEFAULT_DATASET_SPEC.numSignal + DEFAULT_DATASET_SPEC.numNoise));
+  if (total < numSignal) fail('--features must be at least --signal.');
+
+  const spec = {
+    ...DEFAULT_DATASET_SPEC,
+    signal: pick('signal-type', {
+      linear: SignalType.LINEAR,
+      mixed: SignalType.MIXED,
+      nonlinear: SignalType.NONLINEAR,
+      interaction: SignalType.INTERACTION
+    }),
+    numSignal,
+    numNoise: total - numSignal,
+    numSamples: count('samples', DEFAULT_DATASET_SPEC.numSamples),
+    numClasses: count('classes', DEFAULT_DATASET_SPEC.numClasses),
+    seed: config.seed
+  };
+  const specErrors = validateDatasetSpec(spec);
+  if (specErrors.length > 0) fail(specErrors.map(english.message).join('\n'));
+  return generateSyntheticDataset(spec);
+};
+
+// --- Run ---
+
+const dataset = loadDataset();
+let state = createSimulation(config, dataset);
+const rows: TraceRow[] = [traceRow(0, state, 'INIT', 0)];
+
+for (let i = 1; !isFinished(state); i++) {
+  const prev = state;
+  const result = step(prev);
+  state = result.state;
+  const stepType = stepTypeOf(result.events);
+  if (stepType) rows.push(traceRow(i, state, stepType, prev.lambda));
+}
+
+const format = pick('format', { jsonl: 'jsonl', csv: 'csv' });
+const trace = format === 'csv' ? traceToCsv(rows) : traceToJsonLines(rows);
+if (args.out !== undefined) {
+  writeFileSync(args.out, trace);
+} else {
+  process.stdout.write(trace);
+}
+
+// --- Summary ---
+
+const eliminated = eliminationOrder(state.events, dataset.featureNames);
+const survivors = state.features
+  .filter(f => f.isActive)
+  .map(f => dataset.featureNames[f.id - 1] ?? `X${f.id}`);
+const selection = selectLambda(state.path);
+const selectedLambda = selection && {
+  min: state.path[selection.minIndex].lambda,
+  oneSe: state.path[selection.oneSeIndex].lambda
+};
+
+process.stderr.write(
+  `Dataset "${dataset.name}": ${dataset.X.length} samples, ${dataset.featureNames.length} features, ${rows.length} trace rows.\n` +
+  `Elimination order:\n` +
+  (eliminated.length > 0
+    ? eliminated.map(e => `  ${e.order}. X${e.featureId} (${e.name}) at λ=${+e.lambda.toFixed(4)}\n`).join('')
+    : '  (none)\n') +
+  `Never eliminated: ${survivors.length > 0 ? survivors.join(', ') : '(none)'}\n` +
+  (selectedLambda ? `Selected λ: min validation loss at ${+selectedLambda.min.toFixed(4)}, 1-SE rule at ${+selectedLambda.oneSe.toFixed(4)}\n` : '')
+);
+
+if (args.summary !== undefined) {
+  writeFileSync(args.summary, JSON.stringify({ config, dataset: dataset.name, eliminated, survivors, selectedLambda }, null, 2) + '\n');
+}
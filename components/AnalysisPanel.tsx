@@ -0,0 +1,199 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Settings, Send, Trash2 } from 'lucide-react';
+import { AnalysisProviderId, AnalysisSettings, ChatMessage } from '../types';
+import { splitStepLinks, stepLink } from '../services/historySummary';
+import { useI18n } from './I18nContext';
+
+interface AnalysisPanelProps {
+  settings: AnalysisSettings;
+  onSettingsChange: (settings: AnalysisSettings) => void;
+  messages: ChatMessage[];
+  isAnalyzing: boolean;
+  onAnalyze: () => void;
+  onSend: (text: string) => void;
+  onClear: () => void;
+  onStepLink: (stepIndex: number) => void;
+}
+
+// Renders [bước N] / [step N] references as buttons that jump the timeline to that step
+const MessageText: React.FC<{ text: string; onStepLink: (stepIndex: number) => void }> = ({ text, onStepLink }) => {
+  const i18n = useI18n();
+  return (
+    <>
+      {splitStepLinks(text).map((part, i) => typeof part === 'number' ? (
+        <button
+          key={i}
+          onClick={() => onStepLink(part)}
+          className="text-emerald-400 hover:text-emerald-300 underline font-mono"
+        >
+          {stepLink(part, i18n)}
+        </button>
+      ) : (
+        <span key={i}>{part}</span>
+      ))}
+    </>
+  );
+};
+
+export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
+  settings,
+  onSettingsChange,
+  messages,
+  isAnalyzing,
+  onAnalyze,
+  onSend,
+  onClear,
+  onStepLink
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [showSettings, setShowSettings] = useState(false);
+  const [draft, setDraft] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const hasSettings = settings.provider !== AnalysisProviderId.RULE_BASED;
+  const inputClass = "bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 font-mono";
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages, isAnalyzing]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || isAnalyzing) return;
+    onSend(text);
+    setDraft('');
+  };
+
+  return (
+    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex-shrink-0">
+      <div className="flex justify-between items-center mb-2 gap-2">
+        <h3 className="font-bold text-indigo-300 text-xs flex items-center gap-2 flex-shrink-0">
+          {t('ai.title')}
+        </h3>
+        <div className="flex items-center gap-1">
+          <select
+            value={settings.provider}
+            onChange={(e) => onSettingsChange({ ...settings, provider: e.target.value as AnalysisProviderId })}
+            className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-300"
+          >
+            {Object.values(AnalysisProviderId).map(id => (
+              <option key={id} value={id}>{t(`ai.provider.${id}`)}</option>
+            ))}
+          </select>
+          {hasSettings && (
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              className="p-1 rounded hover:bg-slate-700 text-slate-400"
+              title={t('ai.providerSettings')}
+            >
+              <Settings size={12} />
+            </button>
+          )}
+          <button
+            onClick={onClear}
+            disabled={messages.length === 0}
+            className="p-1 rounded hover:bg-slate-700 text-slate-400 disabled:opacity-40"
+            title={t('ai.clear')}
+          >
+            <Trash2 size={12} />
+          </button>
+          <button
+            onClick={onAnalyze}
+            disabled={isAnalyzing}
+            className="text-[10px] uppercase font-bold bg-indigo-600 hover:bg-indigo-500 text-white px-2 py-1 rounded"
+            title={t('ai.askHint')}
+          >
+            {isAnalyzing ? '...' : t('ai.ask')}
+          </button>
+        </div>
+      </div>
+
+      {showSettings && hasSettings && (
+        <div className="grid grid-cols-2 gap-2 mb-2 text-[10px] text-slate-400">
+          {settings.provider === AnalysisProviderId.GEMINI ? (
+            <label className="col-span-2 flex flex-col gap-1">
+              {t('ai.geminiModel')}
+              <input
+                value={settings.geminiModel}
+                onChange={(e) => onSettingsChange({ ...settings, geminiModel: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+          ) : (
+            <>
+              <label className="col-span-2 flex flex-col gap-1">
+                {t('ai.baseUrl')}
+                <input
+                  value={settings.localBaseUrl}
+                  onChange={(e) => onSettingsChange({ ...settings, localBaseUrl: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                {t('ai.model')}
+                <input
+                  value={settings.localModel}
+                  onChange={(e) => onSettingsChange({ ...settings, localModel: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                {t('ai.apiKey')}
+                <input
+                  type="password"
+                  value={settings.localApiKey}
+                  onChange={(e) => onSettingsChange({ ...settings, localApiKey: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="text-xs text-slate-400 min-h-[60px] max-h-[220px] overflow-y-auto space-y-2">
+        {messages.length === 0 && (
+          <div className="italic text-slate-500">
+            {t('ai.empty')}
+          </div>
+        )}
+        {messages.map((message, i) => (
+          <div
+            key={i}
+            className={message.role === 'user'
+              ? 'ml-6 bg-slate-700/60 rounded px-2 py-1 text-slate-200'
+              : 'mr-2'}
+          >
+            {message.fallbackReason && (
+              <div className="text-[10px] text-amber-400 mb-0.5">
+                {t('ai.fallback', { reason: message.fallbackReason })}
+              </div>
+            )}
+            <MessageText text={message.text} onStepLink={onStepLink} />
+            <span className="ml-1 text-[9px] text-slate-600 font-mono">{stepLink(message.stepIndex, i18n)}</span>
+          </div>
+        ))}
+        {isAnalyzing && <div className="text-slate-500">...</div>}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={handleSubmit} className="mt-2 flex gap-1">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={t('ai.placeholder')}
+          className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+        />
+        <button
+          type="submit"
+          disabled={isAnalyzing || draft.trim() === ''}
+          className="px-2 rounded bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 text-white"
+          title={t('ai.send')}
+        >
+          <Send size={12} />
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { ComparisonMethod, ComparisonRun, Dataset, SimulationConfig } from '../types';
+import { COMPARISON_CHART_WIDTH, COMPARISON_CHART_HEIGHT, featureColor } from '../constants';
+import { runAllComparisons } from '../services/comparison';
+import { errorText } from '../services/i18n';
+import { PathChart } from './PathChart';
+import { useI18n } from './I18nContext';
+
+interface ComparisonPanelProps {
+  config: SimulationConfig;
+  dataset: Dataset;
+  currentLambda: number;
+  highlightedFeature: number | null;
+  onHighlight: (featureId: number | null) => void;
+}
+
+export const ComparisonPanel: React.FC<ComparisonPanelProps> = ({
+  config,
+  dataset,
+  currentLambda,
+  highlightedFeature,
+  onHighlight
+}) => {
+  const i18n = useI18n();
+  const { t, num } = i18n;
+  // Every method runs to the end of its path up front; the charts then follow the main run's λ
+  const [runs, setRuns]: [ComparisonRun[], (runs: ComparisonRun[]) => void] = useState([]);
+  const [progress, setProgress] = useState<{ done: number, total: number } | null>(null);
+  const [error, setError] = useState<unknown>(null);
+
+  useEffect(() => {
+    // A newer config supersedes a run still in progress
+    let cancelled = false;
+    setProgress({ done: 0, total: Object.values(ComparisonMethod).length });
+    setError(null);
+    runAllComparisons(config, dataset, (done, total) => {
+      if (!cancelled) setProgress({ done, total });
+    })
+      .then(result => {
+        if (!cancelled) setRuns(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err);
+      })
+      .finally(() => {
+        if (!cancelled) setProgress(null);
+      });
+    return () => { cancelled = true; };
+  }, [config, dataset]);
+
+  if (progress || error) {
+    return (
+      <div className="h-full flex items-center justify-center bg-slate-900 rounded-lg border border-slate-700 text-xs">
+        {error
+          ? <span className="text-red-400">{errorText(error, i18n)}</span>
+          : <span className="text-slate-400 animate-pulse">{t('comparison.running', { done: progress!.done, total: progress!.total })}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex gap-2">
+      <div className="flex-1 min-w-0 grid grid-cols-3 gap-2">
+        {runs.map(run => (
+          <PathChart
+            key={run.method}
+            path={run.path}
+            featureNames={dataset.featureNames}
+            maxLambda={config.maxLambda}
+            highlightedFeature={highlightedFeature}
+            onHighlight={onHighlight}
+            title={t(`comparison.method.${run.method}`)}
+            currentLambda={currentLambda}
+            width={COMPARISON_CHART_WIDTH}
+            height={COMPARISON_CHART_HEIGHT}
+          />
+        ))}
+      </div>
+
+      <div className="w-64 flex-shrink-0 bg-slate-900 rounded-lg border border-slate-700 p-2 overflow-y-auto text-[10px]">
+        <div className="text-slate-400 font-bold mb-1">{t('comparison.dropTable')}</div>
+        <table className="w-full font-mono">
+          <thead>
+            <tr className="text-slate-500">
+              <th className="text-left font-normal">{t('comparison.feature')}</th>
+              {runs.map(run => (
+                <th key={run.method} className="text-right font-normal">{t(`comparison.method.${run.method}`)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {dataset.featureNames.map((name, i) => (
+              <tr
+                key={i}
+                onMouseEnter={() => onHighlight(i + 1)}
+                onMouseLeave={() => onHighlight(null)}
+                className={highlightedFeature === i + 1 ? 'bg-slate-800' : ''}
+              >
+                <td className="truncate max-w-[5rem]" style={{ color: featureColor(i + 1) }}>X{i + 1} {name}</td>
+                {runs.map(run => {
+                  const lambda = run.eliminatedAt[i];
+                  // Drops the main run has already passed are shown in red
+                  const passed = lambda !== null && lambda <= currentLambda;
+                  return (
+                    <td key={run.method} className={`text-right ${lambda === null ? 'text-slate-500' : passed ? 'text-red-400' : 'text-slate-200'}`}>
+                      {lambda === null ? t('comparison.kept') : num(lambda, 3)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="mt-2 text-slate-500 italic">{t('comparison.hint')}</div>
+      </div>
+    </div>
+  );
+};
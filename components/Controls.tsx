@@ -1,7 +1,9 @@
 
 import React from 'react';
-import { Play, Pause, RotateCcw, SkipForward, FastForward } from 'lucide-react';
-import { SimulationPhase } from '../types';
+import { Play, Pause, RotateCcw, SkipForward, FastForward, StepBack, Columns3, ListOrdered } from 'lucide-react';
+import { SimulationPhase, ProximalMode, PathView, TimelineMarker } from '../types';
+import { Timeline } from './Timeline';
+import { useI18n } from './I18nContext';
 
 interface ControlsProps {
   phase: SimulationPhase;
@@ -11,6 +13,15 @@ interface ControlsProps {
   onReset: () => void;
   speed: number;
   setSpeed: (s: number) => void;
+  proximalMode: ProximalMode;
+  onProximalModeChange: (mode: ProximalMode) => void;
+  pathView: PathView;
+  onPathViewChange: (view: PathView) => void;
+  historyIndex: number;
+  historyLength: number;
+  markers: TimelineMarker[];
+  onStepBack: () => void;
+  onSeek: (index: number) => void;
 }
 
 export const Controls: React.FC<ControlsProps> = ({
@@ -20,8 +31,18 @@ export const Controls: React.FC<ControlsProps> = ({
   onStep,
   onReset,
   speed,
-  setSpeed
+  setSpeed,
+  proximalMode,
+  onProximalModeChange,
+  pathView,
+  onPathViewChange,
+  historyIndex,
+  historyLength,
+  markers,
+  onStepBack,
+  onSeek
 }) => {
+  const { t } = useI18n();
   const isFinished = phase === SimulationPhase.FINISHED;
 
   return (
@@ -35,7 +56,15 @@ export const Controls: React.FC<ControlsProps> = ({
         } ${isFinished ? 'opacity-50 cursor-not-allowed' : ''}`}
         disabled={isFinished}
       >
-        {isPlaying ? <><Pause size={18} /> Tạm dừng</> : <><Play size={18} /> {phase === SimulationPhase.INIT ? 'Bắt đầu' : 'Chạy tiếp'}</>}
+        {isPlaying ? <><Pause size={18} /> {t('controls.pause')}</> : <><Play size={18} /> {t(phase === SimulationPhase.INIT ? 'controls.start' : 'controls.resume')}</>}
+      </button>
+
+      <button
+        onClick={onStepBack}
+        disabled={isPlaying || historyIndex === 0}
+        className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-md transition-colors"
+      >
+        <StepBack size={18} /> {t('controls.stepBack')}
       </button>
 
       <button
@@ -43,18 +72,47 @@ export const Controls: React.FC<ControlsProps> = ({
         disabled={isPlaying || isFinished}
         className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-md transition-colors"
       >
-        <SkipForward size={18} /> Bước tiếp
+        <SkipForward size={18} /> {t('controls.step')}
       </button>
 
       <button
         onClick={onReset}
         className="flex items-center gap-2 px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white rounded-md transition-colors"
       >
-        <RotateCcw size={18} /> Đặt lại
+        <RotateCcw size={18} /> {t('controls.reset')}
       </button>
 
+      <label className="flex items-center gap-2 text-slate-400 text-sm">
+        {t('controls.proximal')}
+        <select
+          value={proximalMode}
+          onChange={(e) => onProximalModeChange(e.target.value as ProximalMode)}
+          className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-200 text-sm"
+        >
+          {Object.values(ProximalMode).map(mode => (
+            <option key={mode} value={mode}>{t(`proximal.${mode}`)}</option>
+          ))}
+        </select>
+      </label>
+
+      {[
+        { view: PathView.COMPARISON, icon: <Columns3 size={16} />, label: t('controls.compare') },
+        { view: PathView.REPORT, icon: <ListOrdered size={16} />, label: t('controls.report') }
+      ].map(({ view, icon, label }) => (
+        <button
+          key={view}
+          // Each toggle switches back to the plain path chart when pressed again
+          onClick={() => onPathViewChange(pathView === view ? PathView.PATH : view)}
+          className={`flex items-center gap-2 px-3 py-1 rounded-md text-sm transition-colors ${
+            pathView === view ? 'bg-sky-600 hover:bg-sky-500 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-200'
+          }`}
+        >
+          {icon} {label}
+        </button>
+      ))}
+
       <div className="flex items-center gap-2 ml-auto border-l border-slate-600 pl-4">
-        <span className="text-slate-400 text-sm flex items-center gap-1"><FastForward size={16} /> Tốc độ</span>
+        <span className="text-slate-400 text-sm flex items-center gap-1"><FastForward size={16} /> {t('controls.speed')}</span>
         <input
           type="range"
           min="200"
@@ -66,6 +124,8 @@ export const Controls: React.FC<ControlsProps> = ({
           className="w-32 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-50"
         />
       </div>
+
+      <Timeline index={historyIndex} length={historyLength} markers={markers} onSeek={onSeek} />
     </div>
   );
 };
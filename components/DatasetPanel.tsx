@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { Database, ChevronDown, ChevronUp, Upload } from 'lucide-react';
+import { Dataset, ParsedCsv, SignalType, SyntheticDatasetSpec } from '../types';
+import { DEFAULT_DATASET_SPEC } from '../constants';
+import { generateSyntheticDataset, validateDatasetSpec, parseCsv, numericColumns, buildCsvDataset, DATASET_SPEC_BOUNDS } from '../services/dataset';
+import { errorText } from '../services/i18n';
+import { useI18n } from './I18nContext';
+
+interface DatasetPanelProps {
+  dataset: Dataset;
+  onDatasetChange: (dataset: Dataset) => void;
+}
+
+const NUMBER_FIELDS: { key: keyof typeof DATASET_SPEC_BOUNDS, step: number }[] = [
+  { key: 'numSignal', step: 1 },
+  { key: 'numDuplicates', step: 1 },
+  { key: 'numNoise', step: 1 },
+  { key: 'numSamples', step: 10 },
+  { key: 'noise', step: 0.05 },
+  { key: 'numClasses', step: 1 },
+  { key: 'seed', step: 1 }
+];
+
+export const DatasetPanel: React.FC<DatasetPanelProps> = ({ dataset, onDatasetChange }) => {
+  const i18n = useI18n();
+  const { t, message } = i18n;
+  const [isOpen, setIsOpen] = useState(false);
+  const [source, setSource] = useState<'synthetic' | 'csv'>('synthetic');
+  const [spec, setSpec] = useState<SyntheticDatasetSpec>(DEFAULT_DATASET_SPEC);
+  const specErrors = validateDatasetSpec(spec);
+
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [csvName, setCsvName] = useState('');
+  const [featureColumns, setFeatureColumns] = useState<number[]>([]);
+  const [targetColumn, setTargetColumn] = useState(-1);
+  const [standardizeColumns, setStandardizeColumns] = useState(true);
+  const [classify, setClassify] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  const candidateColumns = csv ? numericColumns(csv) : [];
+  // Class labels may be text, so any column can be the target when classifying
+  const targetColumns = csv && classify ? csv.headers.map((_, c) => c) : candidateColumns;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const parsed = parseCsv(await file.text());
+      const numeric = numericColumns(parsed);
+      setCsv(parsed);
+      setCsvName(file.name);
+      // Default: last numeric column is the target, the others are features
+      setTargetColumn(numeric[numeric.length - 1] ?? -1);
+      setFeatureColumns(numeric.slice(0, -1));
+      setError(null);
+    } catch (err) {
+      setCsv(null);
+      setError(err);
+    }
+  };
+
+  const toggleFeatureColumn = (c: number) => {
+    setFeatureColumns(cols => cols.includes(c) ? cols.filter(x => x !== c) : [...cols, c].sort((a, b) => a - b));
+  };
+
+  const applySynthetic = () => {
+    if (specErrors.length > 0) return;
+    setError(null);
+    onDatasetChange(generateSyntheticDataset(spec));
+  };
+
+  const applyCsv = () => {
+    if (!csv) return;
+    try {
+      onDatasetChange(buildCsvDataset(csv, featureColumns, targetColumn, {
+        standardize: standardizeColumns,
+        name: csvName,
+        classify
+      }));
+      setError(null);
+    } catch (err) {
+      setError(err);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg border border-slate-700 p-3 flex-shrink-0 text-xs">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-slate-300"
+      >
+        <span className="flex items-center gap-2 font-bold text-sky-300">
+          <Database size={14} /> {t('dataset.title')}
+        </span>
+        <span className="flex items-center gap-2 text-slate-500 font-mono truncate">
+          {dataset.classes
+            ? t('dataset.summaryClasses', { name: dataset.name, samples: dataset.X.length, features: dataset.featureNames.length, classes: dataset.classes.length })
+            : t('dataset.summary', { name: dataset.name, samples: dataset.X.length, features: dataset.featureNames.length })}
+          {isOpen ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3">
+          <div className="flex gap-1">
+            {(['synthetic', 'csv'] as const).map(s => (
+              <button
+                key={s}
+                onClick={() => setSource(s)}
+                className={`flex-1 py-1 rounded ${source === s ? 'bg-sky-700 text-white' : 'bg-slate-900 text-slate-400 hover:text-white'}`}
+              >
+                {t(s === 'synthetic' ? 'dataset.synthetic' : 'dataset.csv')}
+              </button>
+            ))}
+          </div>
+
+          {source === 'synthetic' && (
+            <div className="space-y-2">
+              <select
+                value={spec.signal}
+                onChange={(e) => setSpec({ ...spec, signal: e.target.value as SignalType })}
+                className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200"
+              >
+                {Object.values(SignalType).map(signal => (
+                  <option key={signal} value={signal}>{t(`dataset.signal.${signal}`)}</option>
+                ))}
+              </select>
+              <div className="grid grid-cols-3 gap-2">
+                {NUMBER_FIELDS.map(field => (
+                  <label key={field.key} className="flex flex-col gap-1 text-slate-400">
+                    {t(`dataset.field.${field.key}`)}
+                    <input
+                      type="number"
+                      min={DATASET_SPEC_BOUNDS[field.key].min}
+                      max={DATASET_SPEC_BOUNDS[field.key].max}
+                      step={field.step}
+                      value={spec[field.key] as number}
+                      onChange={(e) => setSpec({ ...spec, [field.key]: Number(e.target.value) })}
+                      className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 font-mono"
+                    />
+                  </label>
+                ))}
+              </div>
+              {specErrors.length > 0 && (
+                <ul className="text-red-400 space-y-0.5">
+                  {specErrors.map((err, i) => <li key={i}>• {message(err)}</li>)}
+                </ul>
+              )}
+              <button
+                onClick={applySynthetic}
+                disabled={specErrors.length > 0}
+                className="w-full py-1 rounded bg-sky-600 hover:bg-sky-500 text-white font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {t('dataset.generate')}
+              </button>
+            </div>
+          )}
+
+          {source === 'csv' && (
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 cursor-pointer bg-slate-900 border border-dashed border-slate-600 rounded px-2 py-2 text-slate-400 hover:text-white">
+                <Upload size={14} /> {csvName || t('dataset.chooseFile')}
+                <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+              </label>
+
+              {csv && (
+                <>
+                  <div className="text-slate-500">{t('dataset.featureColumns', { rows: csv.rows.length })}</div>
+                  <div className="max-h-24 overflow-y-auto grid grid-cols-2 gap-1 bg-slate-900 rounded p-2">
+                    {candidateColumns.filter(c => c !== targetColumn).map(c => (
+                      <label key={c} className="flex items-center gap-1 text-slate-300 truncate">
+                        <input
+                          type="checkbox"
+                          checked={featureColumns.includes(c)}
+                          onChange={() => toggleFeatureColumn(c)}
+                          className="accent-sky-500"
+                        />
+                        {csv.headers[c]}
+                      </label>
+                    ))}
+                  </div>
+                  <label className="flex items-center justify-between gap-2 text-slate-400">
+                    {t('dataset.target')}
+                    <select
+                      value={targetColumn}
+                      onChange={(e) => {
+                        const c = Number(e.target.value);
+                        setTargetColumn(c);
+                        setFeatureColumns(cols => cols.filter(x => x !== c));
+                      }}
+                      className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200"
+                    >
+                      {targetColumns.map(c => (
+                        <option key={c} value={c}>{csv.headers[c]}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 text-slate-400">
+                    <input
+                      type="checkbox"
+                      checked={classify}
+                      onChange={(e) => setClassify(e.target.checked)}
+                      className="accent-sky-500"
+                    />
+                    {t('dataset.classify')}
+                  </label>
+                  <label className="flex items-center gap-2 text-slate-400">
+                    <input
+                      type="checkbox"
+                      checked={standardizeColumns}
+                      onChange={(e) => setStandardizeColumns(e.target.checked)}
+                      className="accent-sky-500"
+                    />
+                    {t('dataset.standardize')}
+                  </label>
+                  <button
+                    onClick={applyCsv}
+                    className="w-full py-1 rounded bg-sky-600 hover:bg-sky-500 text-white font-semibold"
+                  >
+                    {t('dataset.useCsv')}
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
+          {error && <div className="text-red-400">{errorText(error, i18n)}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,7 @@
+import React, { useContext } from 'react';
+import { DEFAULT_LOCALE } from '../constants';
+import { I18n, createI18n } from '../services/i18n';
+
+export const I18nContext = React.createContext<I18n>(createI18n(DEFAULT_LOCALE));
+
+export const useI18n = (): I18n => useContext(I18nContext);
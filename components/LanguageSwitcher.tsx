@@ -0,0 +1,34 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { Locale } from '../types';
+import { useI18n } from './I18nContext';
+
+interface LanguageSwitcherProps {
+  locale: Locale;
+  onChange: (locale: Locale) => void;
+}
+
+// Each language is named in itself so it can be found whatever the current locale
+const LOCALE_NAMES: Record<Locale, string> = {
+  [Locale.VI]: 'Tiếng Việt',
+  [Locale.EN]: 'English'
+};
+
+export const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ locale, onChange }) => {
+  const { t } = useI18n();
+
+  return (
+    <label className="flex items-center gap-1 text-xs text-slate-400" title={t('app.language')}>
+      <Languages size={14} />
+      <select
+        value={locale}
+        onChange={(e) => onChange(e.target.value as Locale)}
+        className="bg-slate-800 border border-slate-700 rounded px-1 py-1 text-slate-300"
+      >
+        {Object.values(Locale).map(l => (
+          <option key={l} value={l}>{LOCALE_NAMES[l]}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import * as d3 from 'd3';
+import { LambdaSelection, PathPoint } from '../types';
+import { LOSS_CHART_WIDTH, LOSS_CHART_HEIGHT, COLOR_ACTIVE } from '../constants';
+import { useI18n } from './I18nContext';
+
+interface LossChartProps {
+  path: PathPoint[];
+  maxLambda: number;
+  currentLambda: number;
+  selection: LambdaSelection | null;
+  onJump: (pointIndex: number) => void;
+  // False when the snapshot that recorded the point has been trimmed from the history
+  canJump: (pointIndex: number) => boolean;
+}
+
+const MARGIN = { top: 16, right: 36, bottom: 24, left: 44 };
+const COLOR_TRAIN = "#38bdf8";      // Sky-400
+const COLOR_VALIDATION = "#f59e0b"; // Amber-500
+const COLOR_MIN = "#10b981";        // Emerald-500
+const COLOR_ONE_SE = "#a855f7";     // Purple-500
+
+export const LossChart: React.FC<LossChartProps> = ({ path, maxLambda, currentLambda, selection, onJump, canJump }) => {
+  const { t, num } = useI18n();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const points = useMemo(() => path.filter(p => p.evaluation), [path]);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+
+    const innerWidth = LOSS_CHART_WIDTH - MARGIN.left - MARGIN.right;
+    const innerHeight = LOSS_CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+    const g = svg.append("g").attr("transform", `translate(${MARGIN.left},${MARGIN.top})`);
+
+    if (points.length === 0) {
+      g.append("text")
+        .text(t('lossChart.empty'))
+        .attr("x", innerWidth / 2)
+        .attr("y", innerHeight / 2)
+        .attr("text-anchor", "middle")
+        .attr("fill", "#475569")
+        .attr("font-size", "12px")
+        .attr("font-style", "italic");
+      return;
+    }
+
+    // --- Scales ---
+    const losses = points.flatMap(p => {
+      const e = p.evaluation!;
+      return e.validationLoss === null ? [e.trainLoss] : [e.trainLoss, e.validationLoss + (e.validationSe ?? 0)];
+    });
+    const numFeatures = points[0].features.length;
+    const x = d3.scaleLinear()
+      .domain([0, Math.max(maxLambda, ...points.map(p => p.lambda))])
+      .range([0, innerWidth]);
+    const y = d3.scaleLinear()
+      .domain([0, Math.max(1e-3, d3.max(losses) ?? 1)])
+      .nice()
+      .range([innerHeight, 0]);
+    const yActive = d3.scaleLinear()
+      .domain([0, numFeatures])
+      .range([innerHeight, 0]);
+
+    // --- Axes ---
+    g.append("g")
+      .attr("transform", `translate(0,${innerHeight})`)
+      .call(d3.axisBottom(x).ticks(5).tickFormat(v => num(+v)))
+      .call(axis => axis.selectAll("text").attr("fill", "#64748b"))
+      .call(axis => axis.selectAll("line,path").attr("stroke", "#334155"));
+
+    g.append("g")
+      .call(d3.axisLeft(y).ticks(4).tickFormat(v => num(+v)))
+      .call(axis => axis.selectAll("text").attr("fill", "#64748b"))
+      .call(axis => axis.selectAll("line,path").attr("stroke", "#334155"));
+
+    g.append("g")
+      .attr("transform", `translate(${innerWidth},0)`)
+      .call(d3.axisRight(yActive).ticks(Math.min(numFeatures, 4)).tickFormat(d3.format("d")))
+      .call(axis => axis.selectAll("text").attr("fill", "#64748b"))
+      .call(axis => axis.selectAll("line,path").attr("stroke", "#334155"));
+
+    // --- Active features (right axis) ---
+    const activeLine = d3.line<PathPoint>()
+      .x(p => x(p.lambda))
+      .y(p => yActive(p.features.filter(f => f.isActive).length))
+      .curve(d3.curveStepAfter);
+    g.append("path")
+      .attr("d", activeLine(points))
+      .attr("fill", "none")
+      .attr("stroke", "#64748b")
+      .attr("stroke-width", 1.5);
+
+    // --- Validation loss with a ±1 SE band ---
+    const validated = points.filter(p => p.evaluation!.validationLoss !== null);
+    if (validated.length > 0) {
+      const band = d3.area<PathPoint>()
+        .x(p => x(p.lambda))
+        .y0(p => y(p.evaluation!.validationLoss! - (p.evaluation!.validationSe ?? 0)))
+        .y1(p => y(p.evaluation!.validationLoss! + (p.evaluation!.validationSe ?? 0)));
+      g.append("path")
+        .attr("d", band(validated))
+        .attr("fill", COLOR_VALIDATION)
+        .attr("fill-opacity", 0.15);
+
+      const validationLine = d3.line<PathPoint>()
+        .x(p => x(p.lambda))
+        .y(p => y(p.evaluation!.validationLoss!));
+      g.append("path")
+        .attr("d", validationLine(validated))
+        .attr("fill", "none")
+        .attr("stroke", COLOR_VALIDATION)
+        .attr("stroke-width", 2)
+        .attr("stroke-dasharray", "4,3");
+    }
+
+    // --- Training loss ---
+    const trainLine = d3.line<PathPoint>()
+      .x(p => x(p.lambda))
+      .y(p => y(p.evaluation!.trainLoss));
+    g.append("path")
+      .attr("d", trainLine(points))
+      .attr("fill", "none")
+      .attr("stroke", COLOR_TRAIN)
+      .attr("stroke-width", 2);
+
+    // --- Current λ and the selected models ---
+    g.append("line")
+      .attr("x1", x(currentLambda))
+      .attr("x2", x(currentLambda))
+      .attr("y1", 0)
+      .attr("y2", innerHeight)
+      .attr("stroke", COLOR_ACTIVE)
+      .attr("stroke-opacity", 0.5);
+
+    if (selection) {
+      const markers = [
+        { index: selection.oneSeIndex, color: COLOR_ONE_SE, label: t('lossChart.oneSe'), dy: -4 },
+        { index: selection.minIndex, color: COLOR_MIN, label: t('lossChart.min'), dy: 8 }
+      ];
+      markers.forEach(marker => {
+        const lambda = path[marker.index].lambda;
+        g.append("line")
+          .attr("x1", x(lambda))
+          .attr("x2", x(lambda))
+          .attr("y1", 0)
+          .attr("y2", innerHeight)
+          .attr("stroke", marker.color)
+          .attr("stroke-dasharray", "3,2");
+        g.append("text")
+          .text(marker.label)
+          .attr("x", x(lambda) + 3)
+          .attr("y", marker.dy)
+          .attr("fill", marker.color)
+          .attr("font-size", "10px");
+      });
+    }
+  }, [path, points, maxLambda, currentLambda, selection, t, num]);
+
+  const jumpButton = (index: number, label: 'lossChart.jumpMin' | 'lossChart.jumpOneSe', color: string) => (
+    <button
+      onClick={() => onJump(index)}
+      disabled={!canJump(index)}
+      title={canJump(index) ? undefined : t('lossChart.trimmed')}
+      className="px-1.5 py-0.5 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+      style={{ color }}
+    >
+      {t(label, { lambda: num(path[index].lambda, 3) })}
+    </button>
+  );
+
+  return (
+    <div className="relative h-full bg-slate-900 rounded-lg border border-slate-700 overflow-hidden">
+      <div className="absolute top-1 left-2 right-2 flex items-center justify-between gap-2 text-[10px] text-slate-500 z-10">
+        <span className="truncate">{t('lossChart.title')}</span>
+        {selection ? (
+          <span className="flex gap-1 flex-shrink-0">
+            {jumpButton(selection.minIndex, 'lossChart.jumpMin', COLOR_MIN)}
+            {jumpButton(selection.oneSeIndex, 'lossChart.jumpOneSe', COLOR_ONE_SE)}
+          </span>
+        ) : points.length > 0 && (
+          <span className="italic">{t('lossChart.noValidation')}</span>
+        )}
+      </div>
+      <svg
+        ref={svgRef}
+        width={LOSS_CHART_WIDTH}
+        height={LOSS_CHART_HEIGHT}
+        className="w-full h-full block"
+        viewBox={`0 0 ${LOSS_CHART_WIDTH} ${LOSS_CHART_HEIGHT}`}
+      />
+    </div>
+  );
+};
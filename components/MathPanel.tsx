@@ -1,115 +1,458 @@
 
 import React from 'react';
-import { OptimizationStep, StepCalculationDetails } from '../types';
-import { M_CONSTANT } from '../constants';
+import { FeatureVerdict, InspectorSelection, OptimizationStep, OptimizerType, PenaltyType, ProximalMode, StepCalculationDetails, StructuredAnalysis } from '../types';
+import { VERDICT_COLORS } from '../constants';
+import { thresholdCurve } from '../services/penalty';
+import { useI18n } from './I18nContext';
 
 interface MathPanelProps {
   details: StepCalculationDetails | null;
+  featureNames: string[];
+  hiddenSize: number;
+  mConstant: number;
+  // Names of the outputs that own one θ each; a single name for regression
+  outputNames: string[];
+  aiVerdicts: StructuredAnalysis | null;
+  selection: InspectorSelection;
+  onSelect: (change: Partial<InspectorSelection>) => void;
 }
 
-export const MathPanel: React.FC<MathPanelProps> = ({ details }) => {
-  if (!details) return <div className="h-full flex items-center justify-center text-slate-500 italic">Bắt đầu mô phỏng để xem công thức.</div>;
+// Update rule shown in the gradient header; plain SGD keeps the localized θ_new = θ_old - η·∇L
+const OPTIMIZER_FORMULAS: Record<OptimizerType, string> = {
+  [OptimizerType.SGD]: 'θ ← θ - η·∇L',
+  [OptimizerType.MOMENTUM]: 'v ← μ·v - η·∇L,  θ ← θ + v',
+  [OptimizerType.ADAM]: 'θ ← θ - α·m̂ / (√v̂ + ε)',
+  [OptimizerType.LINE_SEARCH]: 'θ ← θ - t·∇L,  t = η·βᵏ'
+};
+
+interface ThresholdPlotProps {
+  penalty: PenaltyType;
+  lambda: number;
+  eta: number;
+  gamma: number;
+  inputTheta: number;
+  outputTheta: number;
+}
+
+const PLOT_WIDTH = 240;
+const PLOT_HEIGHT = 120;
+
+// θ ↦ prox(θ) with the identity for reference; the dead zone |θ| ≤ ωλη is shaded red
+const ThresholdPlot: React.FC<ThresholdPlotProps> = ({ penalty, lambda, eta, gamma, inputTheta, outputTheta }) => {
+  // Wide enough to show where the nonconvex penalties rejoin the identity
+  const flatFrom = penalty === PenaltyType.L1 ? 2 * eta * lambda : gamma * lambda;
+  const range = Math.max(1.3 * Math.abs(inputTheta), 1.2 * flatFrom, 0.1);
+  const px = (x: number) => ((x + range) / (2 * range)) * PLOT_WIDTH;
+  const py = (y: number) => PLOT_HEIGHT / 2 - (y / range) * (PLOT_HEIGHT / 2);
+  const curve = thresholdCurve(penalty, lambda, eta, gamma, range).map(p => `${px(p.x)},${py(p.y)}`).join(' ');
+  const deadZone = eta * lambda;
+
+  return (
+    <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full h-28 bg-slate-800 mt-2 rounded border border-slate-600">
+      <rect x={px(-deadZone)} y={0} width={px(deadZone) - px(-deadZone)} height={PLOT_HEIGHT} fill="#ef4444" fillOpacity={0.2} />
+      <line x1={0} x2={PLOT_WIDTH} y1={py(0)} y2={py(0)} stroke="#475569" />
+      <line x1={px(0)} x2={px(0)} y1={0} y2={PLOT_HEIGHT} stroke="#475569" />
+      <line x1={px(-range)} x2={px(range)} y1={py(-range)} y2={py(range)} stroke="#64748b" strokeDasharray="3,3" />
+      <polyline points={curve} fill="none" stroke="#f59e0b" strokeWidth={2} />
+      <line x1={px(inputTheta)} x2={px(inputTheta)} y1={py(0)} y2={py(outputTheta)} stroke="#3b82f6" strokeDasharray="2,2" />
+      <circle cx={px(inputTheta)} cy={py(outputTheta)} r={4} fill="#3b82f6" />
+    </svg>
+  );
+};
 
+export const MathPanel: React.FC<MathPanelProps> = ({
+  details,
+  featureNames,
+  hiddenSize,
+  mConstant,
+  outputNames,
+  aiVerdicts,
+  selection,
+  onSelect
+}) => {
+  const { t, num } = useI18n();
+  if (!details) return <div className="h-full flex items-center justify-center text-slate-500 italic">{t('math.empty')}</div>;
+
+  const fmt = (value: number | undefined, digits: number) => value === undefined ? '' : num(value, digits);
+
+  const { featureId, hiddenIndex: j } = selection;
+  const feature = details.features.find(f => f.featureId === featureId);
   const isGradient = details.stepType === OptimizationStep.GRADIENT;
+  const isHierProx = details.proximalMode === ProximalMode.HIER_PROX;
+  const isGroupLasso = details.proximalMode === ProximalMode.GROUP_LASSO;
+  // Steps saved before the penalty options had no η here; λη alone still gives the L1 curve
+  const penalty: PenaltyType = details.penalty ?? PenaltyType.L1;
+  const nominalEta = details.learningRate ?? 1;
+  // The threshold uses the step this θ actually took, which differs from η for Adam and line search
+  const eta = feature?.stepSize ?? nominalEta;
+  const weight = feature?.penaltyWeight ?? 1;
+  const featureLambda = ((details.lambda ?? 0) / nominalEta) * weight;
+  const featureThreshold = featureLambda * eta;
+  const optimizer: OptimizerType = details.optimizer ?? OptimizerType.SGD;
+  const verdict: FeatureVerdict | undefined = aiVerdicts?.features.find(v => v.featureId === featureId)?.verdict;
+  const selectClass = "bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-300";
+  // Outline the constraint sections when the AI says the constraint is binding
+  const constraintRing = aiVerdicts?.constraintActive ? 'ring-1 ring-amber-500/70 rounded p-1 -m-1' : '';
+  // With several outputs θ is a vector and the scalar fields hold its norm
+  const thetaBefore = isGradient ? feature?.oldThetas : feature?.inputThetas;
+  const thetaAfter = isGradient ? feature?.newThetas : feature?.thresholdedThetas;
+  const isVector = thetaBefore !== undefined;
+  const thetaLabel = (sub?: string) => isVector
+    ? <>‖θ{sub && <sub>{sub}</sub>}‖₂</>
+    : <>θ{sub && <sub>{sub}</sub>}</>;
 
   return (
     <div className="bg-slate-800 rounded-lg border border-slate-700 p-4 h-full flex flex-col">
-      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4 border-b border-slate-700 pb-2">
-        Chi tiết tính toán (Đặc trưng X{details.featureId})
-      </h3>
+      <div className="mb-4 border-b border-slate-700 pb-2 flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider">
+          {t('math.title')}
+        </h3>
+        <div className="flex items-center gap-1" title={t('math.selectHint')}>
+          <select
+            value={featureId}
+            onChange={(e) => onSelect({ featureId: Number(e.target.value) })}
+            className={selectClass}
+            aria-label={t('math.feature')}
+          >
+            {featureNames.map((name, i) => (
+              <option key={i} value={i + 1}>X{i + 1} ({name})</option>
+            ))}
+          </select>
+          <select
+            value={j}
+            onChange={(e) => onSelect({ hiddenIndex: Number(e.target.value) })}
+            className={selectClass}
+            aria-label={t('math.weight')}
+          >
+            {Array.from({ length: hiddenSize }, (_, unit) => (
+              <option key={unit} value={unit}>W[{unit + 1}] · {t('math.unit', { unit: unit + 1 })}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {aiVerdicts && (
+        <div className="mb-3 flex flex-wrap items-center gap-x-3 gap-y-1 text-[10px] text-slate-400">
+          <span>{t('math.ai', { step: aiVerdicts.stepIndex })}</span>
+          {verdict && (
+            <span className="font-bold" style={{ color: VERDICT_COLORS[verdict] }}>
+              X{featureId} {t(`verdict.${verdict}`)}
+            </span>
+          )}
+          <span>
+            {t('math.aiConstraint')} <span className={aiVerdicts.constraintActive ? 'text-amber-400' : 'text-slate-300'}>
+              {t(aiVerdicts.constraintActive ? 'math.aiConstraintActive' : 'math.aiConstraintInactive')}
+            </span>
+          </span>
+          {aiVerdicts.nextElimination !== null && (
+            <span>{t('math.aiNext')} <span className="text-red-400">X{aiVerdicts.nextElimination}</span></span>
+          )}
+        </div>
+      )}
 
       <div className="flex-1 overflow-y-auto space-y-6">
-        
+
+        {!feature && <div className="text-xs text-slate-500 italic">{t('math.noDetails')}</div>}
+
         {/* --- GRADIENT DESCENT VIEW --- */}
-        {isGradient && (
+        {feature && isGradient && (
           <div className="space-y-4 animate-in fade-in slide-in-from-left-4 duration-300">
             <div className="bg-blue-900/20 p-3 rounded border-l-4 border-blue-500">
-              <div className="text-xs font-bold text-blue-400 mb-1">Bước 1: Cập nhật Gradient</div>
+              <div className="text-xs font-bold text-blue-400 mb-1">{t('math.gradientTitle')}</div>
               <div className="font-mono text-sm text-slate-200">
-                θ<sub>mới</sub> = θ<sub>cũ</sub> - η · ∇L
+                {optimizer === OptimizerType.SGD
+                  ? <>θ<sub>{t('math.new')}</sub> = θ<sub>{t('math.old')}</sub> - η · ∇L</>
+                  : OPTIMIZER_FORMULAS[optimizer]}
               </div>
             </div>
 
             <div className="grid grid-cols-1 gap-2 font-mono text-sm">
               <div className="flex justify-between items-center bg-slate-900 p-2 rounded">
-                 <span className="text-slate-400">θ<sub>cũ</sub></span>
-                 <span>{details.oldVal?.toFixed(4)}</span>
+                 <span className="text-slate-400">{thetaLabel(t('math.old'))}</span>
+                 <span>{fmt(feature.oldVal, 4)}</span>
               </div>
               <div className="flex justify-between items-center bg-slate-900 p-2 rounded">
-                 <span className="text-slate-400">Đạo hàm (Gradient ∇L)</span>
-                 <span className="text-red-400">{details.grad?.toFixed(4)}</span>
+                 <span className="text-slate-400">{t('math.gradient')}</span>
+                 <span className="text-red-400">{fmt(feature.grad, 4)}</span>
               </div>
               <div className="flex justify-between items-center bg-slate-900 p-2 rounded">
-                 <span className="text-slate-400">Hệ số học (Learning Rate η)</span>
+                 <span className="text-slate-400">{t('math.learningRate')}</span>
                  <span className="text-yellow-400">{details.learningRate}</span>
               </div>
               <div className="border-t border-slate-600 my-2"></div>
               <div className="flex justify-between items-center bg-slate-700 p-2 rounded font-bold">
-                 <span className="text-white">θ<sub>mới</sub></span>
-                 <span className="text-emerald-400">{details.newVal?.toFixed(4)}</span>
+                 <span className="text-white">{thetaLabel(t('math.new'))}</span>
+                 <span className="text-emerald-400">{fmt(feature.newVal, 4)}</span>
+              </div>
+            </div>
+            {!feature.wasActive && (
+              <div className="text-xs text-slate-500 italic">{t('math.inactive', { id: featureId })}</div>
+            )}
+
+            <div>
+              <div className="text-xs font-bold text-purple-400 mb-2">{t('math.weightGradient', { unit: j + 1, id: featureId })}</div>
+              <div className="grid grid-cols-3 gap-2 font-mono text-xs bg-slate-900 p-2 rounded">
+                <div className="flex flex-col">
+                  <span className="text-slate-500">W<sub>{t('math.old')}</sub></span>
+                  <span>{fmt(feature.oldW?.[j], 4)}</span>
+                </div>
+                <div className="flex flex-col">
+                  <span className="text-slate-500">∇<sub>W</sub>L</span>
+                  <span className="text-red-400">{fmt(feature.gradW?.[j], 4)}</span>
+                </div>
+                <div className="flex flex-col">
+                  <span className="text-slate-500">W<sub>{t('math.new')}</sub></span>
+                  <span className="text-emerald-400 font-bold">{fmt(feature.newW?.[j], 4)}</span>
+                </div>
+              </div>
+            </div>
+
+            {optimizer !== OptimizerType.SGD && (
+              <div>
+                <div className="text-xs font-bold text-sky-400 mb-2">{t('math.optimizerState', { optimizer: t(`optimizer.${optimizer}`) })}</div>
+                <table className="w-full font-mono text-[11px] bg-slate-900 rounded">
+                  <thead>
+                    <tr className="text-slate-500">
+                      <th className="px-2 py-1"></th>
+                      <th className="text-right px-2 py-1 font-normal">θ</th>
+                      <th className="text-right px-2 py-1 font-normal">W[{j + 1}]</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-slate-300">
+                    <tr>
+                      <td className="px-2 py-0.5 text-slate-400">{t('math.stepSize')}</td>
+                      <td className="text-right px-2 py-0.5 text-yellow-400">{fmt(feature.thetaOptimizer?.stepSize, 4)}</td>
+                      <td className="text-right px-2 py-0.5 text-yellow-400">{fmt(feature.wOptimizer?.[j]?.stepSize, 4)}</td>
+                    </tr>
+                    {optimizer === OptimizerType.MOMENTUM && (
+                      <tr>
+                        <td className="px-2 py-0.5 text-slate-400">{t('math.velocity')}</td>
+                        <td className="text-right px-2 py-0.5">{fmt(feature.thetaOptimizer?.velocity, 4)}</td>
+                        <td className="text-right px-2 py-0.5">{fmt(feature.wOptimizer?.[j]?.velocity, 4)}</td>
+                      </tr>
+                    )}
+                    {optimizer === OptimizerType.ADAM && (
+                      <>
+                        <tr>
+                          <td className="px-2 py-0.5 text-slate-400">m</td>
+                          <td className="text-right px-2 py-0.5">{fmt(feature.thetaOptimizer?.firstMoment, 4)}</td>
+                          <td className="text-right px-2 py-0.5">{fmt(feature.wOptimizer?.[j]?.firstMoment, 4)}</td>
+                        </tr>
+                        <tr>
+                          <td className="px-2 py-0.5 text-slate-400">v</td>
+                          <td className="text-right px-2 py-0.5">{fmt(feature.thetaOptimizer?.secondMoment, 6)}</td>
+                          <td className="text-right px-2 py-0.5">{fmt(feature.wOptimizer?.[j]?.secondMoment, 6)}</td>
+                        </tr>
+                      </>
+                    )}
+                  </tbody>
+                </table>
+                {details.lineSearch && (
+                  <div className="text-[10px] text-slate-400 mt-1">
+                    {t('math.lineSearch', { step: details.lineSearch.acceptedStep, backtracks: details.lineSearch.backtracks })}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* --- HIER-PROX VIEW --- */}
+        {feature && !isGradient && isHierProx && (
+          <div className="space-y-6 animate-in fade-in slide-in-from-right-4 duration-300">
+
+            {/* 1. SORT |W| */}
+            <div>
+              <div className="text-xs font-bold text-purple-400 mb-2">{t('math.sortW')}</div>
+              <div className="bg-slate-900 p-3 rounded font-mono text-xs space-y-2">
+                <div className="flex justify-between">
+                  <span className="text-slate-400">{t('math.inputTheta')}</span>
+                  <span className="text-white">{fmt(feature.inputTheta, 4)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-400">{t('math.threshold')}</span>
+                  <span className="text-red-400">{num(featureThreshold, 4)}</span>
+                </div>
+                <div className="flex flex-wrap gap-1 pt-1">
+                  {feature.sortedW?.map((v, i) => (
+                    <span
+                      key={i}
+                      className={`px-1.5 py-0.5 rounded ${i < (feature.chosenIndex ?? 0) ? 'bg-amber-900/50 text-amber-300' : 'bg-slate-800 text-slate-300'}`}
+                    >
+                      {num(v, 3)}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {/* 2. CANDIDATE LEVELS */}
+            <div className={constraintRing}>
+              <div className="text-xs font-bold text-amber-400 mb-2">{t('math.findLevel')}</div>
+              <div className="text-xs text-slate-400 mb-1 font-mono">
+                w<sub>m</sub> = M/(1+m·M²) · S<sub>λ</sub>(|θ| + M·Σ<sub>i≤m</sub>|W|<sub>(i)</sub>)
+              </div>
+              <div className="bg-slate-900 p-2 rounded font-mono text-xs">
+                {feature.candidateLevels?.map((level, m) => (
+                  <div
+                    key={m}
+                    className={`flex justify-between px-1 py-0.5 rounded ${m === feature.chosenIndex ? 'bg-emerald-900/40 text-emerald-300 font-bold' : 'text-slate-400'}`}
+                  >
+                    <span>m = {m}</span>
+                    <span>w<sub>m</sub> = {num(level, 4)}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="text-center text-[10px] text-slate-500 italic mt-1">
+                {t('math.levelRule')} |W|<sub>(m+1)</sub> ≤ w<sub>m</sub> ≤ |W|<sub>(m)</sub>
+              </div>
+            </div>
+
+            {/* 3. JOINT SHRINKAGE */}
+            <div>
+              <div className="text-xs font-bold text-emerald-400 mb-2">{t('math.jointShrink')}</div>
+              <div className="bg-slate-900 p-3 rounded font-mono text-xs space-y-2">
+                <div className="flex justify-between">
+                  <span className="text-slate-400">{t('math.shrinkLevel')} w<sub>m̃</sub>:</span>
+                  <span className="text-amber-400">{fmt(feature.shrinkage, 4)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-400">
+                    {isVector ? <>‖θ‖₂ = w<sub>m̃</sub>/M:</> : <>θ = sign(θ)·w<sub>m̃</sub>/M:</>}
+                  </span>
+                  <span className="text-emerald-400 font-bold">{fmt(feature.thresholdedTheta, 4)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-400">W[{j + 1}]: {fmt(feature.inputW?.[j], 4)} →</span>
+                  <span className="text-white font-bold">{fmt(feature.clampedW?.[j], 4)}</span>
+                </div>
               </div>
             </div>
-            <div className="text-xs text-slate-500 mt-2 italic">
-              * Công thức tương tự cũng được áp dụng cho các trọng số W để giảm thiểu hàm lỗi.
+          </div>
+        )}
+
+        {/* --- GROUP LASSO VIEW --- */}
+        {feature && !isGradient && isGroupLasso && (
+          <div className="space-y-6 animate-in fade-in slide-in-from-right-4 duration-300">
+
+            {/* 1. GROUP NORM */}
+            <div>
+              <div className="text-xs font-bold text-purple-400 mb-2">{t('math.groupNorm')}</div>
+              <div className="bg-slate-900 p-3 rounded font-mono text-xs space-y-2">
+                <div className="flex justify-between">
+                  <span className="text-slate-400">{t('math.inputTheta')}</span>
+                  <span className="text-white">{fmt(feature.inputTheta, 4)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-400">{t('math.groupNormValue')}</span>
+                  <span className="text-white">{fmt(feature.groupNorm, 4)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-400">{t('math.threshold')}</span>
+                  <span className="text-red-400">{num(featureThreshold, 4)}</span>
+                </div>
+              </div>
+            </div>
+
+            {/* 2. SHRINK THE GROUP */}
+            <div>
+              <div className="text-xs font-bold text-emerald-400 mb-2">{t('math.groupShrink')}</div>
+              <div className="text-xs text-slate-400 mb-1 font-mono">
+                (θ, W) ← max(0, 1 - λη/‖(θ, W)‖₂) · (θ, W)
+              </div>
+              <div className="bg-slate-900 p-3 rounded font-mono text-xs space-y-2">
+                <div className="flex justify-between">
+                  <span className="text-slate-400">{t('math.groupScale')}</span>
+                  <span className="text-amber-400">{fmt(feature.groupScale, 4)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-400">{t('math.resultTheta')}</span>
+                  <span className="text-emerald-400 font-bold">{fmt(feature.thresholdedTheta, 4)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-400">W[{j + 1}]: {fmt(feature.inputW?.[j], 4)} →</span>
+                  <span className="text-white font-bold">{fmt(feature.clampedW?.[j], 4)}</span>
+                </div>
+              </div>
+              <div className="text-center text-[10px] text-slate-500 italic mt-1">{t('math.groupHint')}</div>
             </div>
           </div>
         )}
 
         {/* --- PROXIMAL STEP VIEW --- */}
-        {!isGradient && (
+        {feature && !isGradient && !isHierProx && !isGroupLasso && (
           <div className="space-y-6 animate-in fade-in slide-in-from-right-4 duration-300">
             
             {/* 1. SPARSITY (SOFT THRESHOLD) */}
             <div>
-              <div className="text-xs font-bold text-purple-400 mb-2">2.1. Làm thưa: Soft Thresholding</div>
+              <div className="text-xs font-bold text-purple-400 mb-2">{t('math.softThreshold', { penalty: t(`penalty.${penalty}`) })}</div>
+              {isVector && (
+                <div className="text-xs text-slate-400 mb-1 font-mono">
+                  {penalty === PenaltyType.L1
+                    ? 'θ ← max(0, 1 - ωλt/‖θ‖₂) · θ'
+                    : 'θ ← θ · ‖θ̃‖₂/‖θ‖₂,  ‖θ̃‖₂ = prox(‖θ‖₂)'}
+                </div>
+              )}
               <div className="bg-slate-900 p-3 rounded font-mono text-xs space-y-2">
                 <div className="flex justify-between">
-                  <span className="text-slate-400">Đầu vào θ:</span>
-                  <span className="text-white">{details.inputTheta?.toFixed(4)}</span>
+                  <span className="text-slate-400">{isVector ? t('math.inputThetaNorm') : t('math.inputTheta')}</span>
+                  <span className="text-white">{fmt(feature.inputTheta, 4)}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-slate-400">Ngưỡng phạt (λη):</span>
-                  <span className="text-red-400">{details.lambda?.toFixed(4)}</span>
+                  <span className="text-slate-400">{t('math.threshold')}</span>
+                  <span className="text-red-400">{num(featureThreshold, 4)}</span>
                 </div>
                 
-                {/* Visual Bar for Thresholding */}
-                <div className="relative h-8 bg-slate-800 mt-2 rounded overflow-hidden border border-slate-600">
-                   <div className="absolute top-0 bottom-0 w-[2px] bg-white left-1/2 z-10"></div>
-                   {/* Threshold Zone */}
-                   <div 
-                     className="absolute top-0 bottom-0 bg-red-500/20 left-1/2 transform -translate-x-1/2" 
-                     style={{ width: `${(details.lambda || 0) * 100}%` /* Approximate scale */ }}
-                   ></div>
-                   {/* Value Dot */}
-                   <div 
-                     className="absolute top-1/2 w-3 h-3 rounded-full bg-blue-500 transform -translate-x-1/2 -translate-y-1/2 transition-all duration-500"
-                     style={{ left: `calc(50% + ${(details.inputTheta || 0) * 20}px)` }}
-                   ></div>
-                   <div className="absolute bottom-0 right-1 text-[8px] text-slate-500">0</div>
-                </div>
-                <div className="text-center text-[10px] text-slate-500 italic">Nếu điểm xanh rơi vào vùng đỏ, θ sẽ về 0</div>
+                {weight !== 1 && (
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">{t('math.penaltyWeight')}</span>
+                    <span className="text-sky-300">{num(weight, 3)}</span>
+                  </div>
+                )}
+                {eta !== nominalEta && (
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">{t('math.stepSize')}</span>
+                    <span className="text-yellow-400">{num(eta, 4)}</span>
+                  </div>
+                )}
 
+                <ThresholdPlot
+                  penalty={penalty}
+                  lambda={featureLambda}
+                  eta={eta}
+                  gamma={details.penaltyGamma ?? 0}
+                  inputTheta={feature.inputTheta ?? 0}
+                  outputTheta={feature.thresholdedTheta ?? 0}
+                />
+                <div className="text-center text-[10px] text-slate-500 italic">{t('math.thresholdHint')}</div>
+
+                {isVector && (
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">{t('math.thetaScale')}</span>
+                    <span className="text-amber-400">{fmt(feature.thetaScale, 4)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between border-t border-slate-700 pt-2">
-                  <span className="text-purple-300 font-bold">Kết quả θ:</span>
-                  <span className="text-emerald-400 font-bold">{details.thresholdedTheta?.toFixed(4)}</span>
+                  <span className="text-purple-300 font-bold">{isVector ? t('math.resultThetaNorm') : t('math.resultTheta')}</span>
+                  <span className="text-emerald-400 font-bold">{fmt(feature.thresholdedTheta, 4)}</span>
                 </div>
               </div>
             </div>
 
             {/* 2. HIERARCHY (CLAMPING) */}
-            <div>
-              <div className="text-xs font-bold text-amber-400 mb-2">2.2. Ràng buộc phân cấp</div>
-              <div className="text-xs text-slate-400 mb-1 font-mono">|W| ≤ M · |θ<sub>mới</sub>|</div>
+            <div className={constraintRing}>
+              <div className="text-xs font-bold text-amber-400 mb-2">{t('math.hierarchy')}</div>
+              <div className="text-xs text-slate-400 mb-1 font-mono">|W| ≤ M · |θ<sub>{t('math.new')}</sub>|</div>
               
               <div className="bg-slate-900 p-3 rounded font-mono text-xs space-y-2">
                  <div className="flex justify-between">
-                    <span className="text-slate-400">W hiện tại:</span>
-                    <span className="text-white">{details.inputW?.toFixed(4)}</span>
+                    <span className="text-slate-400">{t('math.currentW')}</span>
+                    <span className="text-white">{fmt(feature.inputW?.[j], 4)}</span>
                  </div>
                  <div className="flex justify-between">
-                    <span className="text-slate-400">Giới hạn (M·|θ|):</span>
+                    <span className="text-slate-400">{t('math.limit')}</span>
                     <span className="text-amber-400">
-                      {M_CONSTANT} * {Math.abs(details.thresholdedTheta || 0).toFixed(3)} = {details.limit?.toFixed(4)}
+                      {num(mConstant)} * {num(Math.abs(feature.thresholdedTheta || 0), 3)} = {fmt(feature.limit, 4)}
                     </span>
                  </div>
 
@@ -118,25 +461,115 @@ export const MathPanel: React.FC<MathPanelProps> = ({ details }) => {
                     {/* The Allowed Box */}
                     <div 
                       className="h-full bg-emerald-900/30 border-x-2 border-amber-500 transition-all duration-500"
-                      style={{ width: `${Math.min(100, (details.limit || 0) * 60)}%` }} 
+                      style={{ width: `${Math.min(100, (feature.limit || 0) * 60)}%` }} 
                     ></div>
                     {/* The Weight Value */}
                     <div 
                        className="absolute h-2 w-2 bg-purple-500 rounded-full transition-all duration-500"
-                       style={{ left: `calc(50% + ${(details.inputW || 0) * 30}%)` }}
+                       style={{ left: `calc(50% + ${(feature.inputW?.[j] ?? 0) * 30}%)` }}
                     ></div>
                  </div>
-                 <div className="text-center text-[10px] text-slate-500 italic">Điểm tím (W) bắt buộc nằm trong khung vàng</div>
+                 <div className="text-center text-[10px] text-slate-500 italic">{t('math.clampHint')}</div>
 
                  <div className="flex justify-between border-t border-slate-700 pt-2">
-                    <span className="text-amber-300 font-bold">W sau kẹp:</span>
-                    <span className="text-white font-bold">{details.clampedW?.toFixed(4)}</span>
+                    <span className="text-amber-300 font-bold">{t('math.clampedW')}</span>
+                    <span className="text-white font-bold">{fmt(feature.clampedW?.[j], 4)}</span>
                  </div>
               </div>
             </div>
 
           </div>
         )}
+
+        {/* --- θ VECTOR (one entry per output) --- */}
+        {feature && isVector && (
+          <div>
+            <div className="text-xs font-bold text-slate-400 mb-2">{t('math.thetaVector', { id: featureId })}</div>
+            <table className="w-full font-mono text-[11px] bg-slate-900 rounded">
+              <thead>
+                <tr className="text-slate-500">
+                  <th className="text-left px-2 py-1 font-normal">{t('math.output')}</th>
+                  {isGradient ? (
+                    <>
+                      <th className="text-right px-2 py-1 font-normal">θ<sub>{t('math.old')}</sub></th>
+                      <th className="text-right px-2 py-1 font-normal">∇<sub>θ</sub>L</th>
+                      <th className="text-right px-2 py-1 font-normal">θ<sub>{t('math.new')}</sub></th>
+                    </>
+                  ) : (
+                    <>
+                      <th className="text-right px-2 py-1 font-normal">θ ({t('math.before')})</th>
+                      <th className="text-right px-2 py-1 font-normal">θ ({t('math.after')})</th>
+                    </>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="text-slate-300">
+                {thetaBefore.map((value, c) => (
+                  <tr key={c}>
+                    <td className="px-2 py-0.5 text-slate-500 truncate max-w-[6rem]">{outputNames[c] ?? c + 1}</td>
+                    <td className="text-right px-2 py-0.5">{num(value, 4)}</td>
+                    {isGradient && <td className="text-right px-2 py-0.5 text-red-400">{fmt(feature.gradThetas?.[c], 4)}</td>}
+                    <td className="text-right px-2 py-0.5 text-emerald-400">{fmt(thetaAfter?.[c], 4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* --- FULL W VECTOR --- */}
+        {feature && (
+          <div>
+            <div className="text-xs font-bold text-slate-400 mb-2">{t('math.vector', { id: featureId })}</div>
+            <table className="w-full font-mono text-[11px] bg-slate-900 rounded">
+              <thead>
+                <tr className="text-slate-500">
+                  <th className="text-left px-2 py-1 font-normal">j</th>
+                  {isGradient ? (
+                    <>
+                      <th className="text-right px-2 py-1 font-normal">W<sub>{t('math.old')}</sub></th>
+                      <th className="text-right px-2 py-1 font-normal">∇<sub>W</sub>L</th>
+                      <th className="text-right px-2 py-1 font-normal">W<sub>{t('math.new')}</sub></th>
+                    </>
+                  ) : (
+                    <>
+                      <th className="text-right px-2 py-1 font-normal">W ({t('math.before')})</th>
+                      <th className="text-right px-2 py-1 font-normal">W ({t('math.after')})</th>
+                      <th className="px-2 py-1"></th>
+                    </>
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {Array.from({ length: hiddenSize }, (_, unit) => {
+                  const clamped = !isGradient && feature.clampedMask?.[unit];
+                  return (
+                    <tr
+                      key={unit}
+                      onClick={() => onSelect({ hiddenIndex: unit })}
+                      className={`cursor-pointer ${unit === j ? 'bg-slate-700/60' : 'hover:bg-slate-800'} ${clamped ? 'text-amber-300' : 'text-slate-300'}`}
+                    >
+                      <td className="px-2 py-0.5 text-slate-500">{unit + 1}</td>
+                      {isGradient ? (
+                        <>
+                          <td className="text-right px-2 py-0.5">{fmt(feature.oldW?.[unit], 4)}</td>
+                          <td className="text-right px-2 py-0.5 text-red-400">{fmt(feature.gradW?.[unit], 4)}</td>
+                          <td className="text-right px-2 py-0.5">{fmt(feature.newW?.[unit], 4)}</td>
+                        </>
+                      ) : (
+                        <>
+                          <td className="text-right px-2 py-0.5">{fmt(feature.inputW?.[unit], 4)}</td>
+                          <td className="text-right px-2 py-0.5">{fmt(feature.clampedW?.[unit], 4)}</td>
+                          <td className="px-2 py-0.5 text-[9px]">{clamped ? t('math.clampedMark') : ''}</td>
+                        </>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
       </div>
     </div>
   );
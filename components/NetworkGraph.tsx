@@ -1,232 +1,311 @@
-
-import React, { useEffect, useRef } from 'react';
-import * as d3 from 'd3';
-import { WeightData } from '../types';
-import { SVG_WIDTH, SVG_HEIGHT, NODE_RADIUS, COLOR_ACTIVE, COLOR_INACTIVE, COLOR_THETA, COLOR_WEIGHT, COLOR_CLAMPED, M_CONSTANT } from '../constants';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Image as ImageIcon, FileImage, Video, X, Pin, PinOff, Trash2 } from 'lucide-react';
+import { InspectorSelection, ManualEdit, ManualEditType, OutputLayer, StepCalculationDetails, StructuredAnalysis, WeightData } from '../types';
+import { SVG_WIDTH, SVG_HEIGHT, NETWORK_TRANSITION_MS } from '../constants';
+import { drawNetwork } from './networkRenderer';
+import { CanvasNetworkRenderer, createCanvasRenderer } from './networkCanvas';
+import { EdgeInfo, NetworkDrawOptions, SceneThetaLabel, draggedTheta, prefersCanvas, thetaLabelText } from './networkScene';
+import { exportSvg, exportPng, exportNetworkSvg, exportNetworkPng, canRecord } from './graphExport';
+import { I18n, errorText } from '../services/i18n';
+import { useI18n } from './I18nContext';
 
 interface NetworkGraphProps {
   features: WeightData[];
+  featureNames: string[];
+  hiddenSize: number;
+  mConstant: number;
+  output: OutputLayer;
+  details: StepCalculationDetails | null;
+  outputNames: string[];
   stepName: string;
+  highlightedFeature: number | null;
+  onHighlight: (featureId: number | null) => void;
+  selection: InspectorSelection;
+  onSelect: (change: Partial<InspectorSelection>) => void;
+  aiVerdicts: StructuredAnalysis | null;
+  onRecord: () => void;
+  // Fraction of frames encoded while a recording is running, null otherwise
+  recordProgress: number | null;
+  // Pin, remove or set θ by hand
+  onEdit: (edit: ManualEdit) => void;
+}
+
+// Box next to the pointer or a node, in viewBox coordinates
+interface Popup {
+  x: number;
+  y: number;
 }
 
-export const NetworkGraph: React.FC<NetworkGraphProps> = ({ features, stepName }) => {
+const edgeTooltip = (info: EdgeInfo, { t, num, message }: I18n): string[] => [
+  message(info.title),
+  t('graph.tooltipValue', { value: num(info.value, 4) }),
+  t('graph.tooltipGradient', { gradient: num(info.gradient, 4) }),
+  ...(info.limit === null
+    ? [t('graph.tooltipNoLimit')]
+    : [t('graph.tooltipLimit', { limit: num(info.limit, 4) }), t(info.clamped ? 'graph.tooltipClamped' : 'graph.tooltipFree')])
+];
+
+const popupStyle = ({ x, y }: Popup) => ({ left: `${(x / SVG_WIDTH) * 100}%`, top: `${(y / SVG_HEIGHT) * 100}%` });
+
+export const NetworkGraph: React.FC<NetworkGraphProps> = ({
+  features,
+  featureNames,
+  hiddenSize,
+  mConstant,
+  output,
+  details,
+  outputNames,
+  stepName,
+  highlightedFeature,
+  onHighlight,
+  selection,
+  onSelect,
+  aiVerdicts,
+  onRecord,
+  recordProgress,
+  onEdit
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
   const svgRef = useRef<SVGSVGElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<CanvasNetworkRenderer | null>(null);
+  const [exportError, setExportError] = useState<unknown>(null);
+  const [menu, setMenu] = useState<(Popup & { featureId: number }) | null>(null);
+  const [tooltip, setTooltip] = useState<(Popup & { lines: string[] }) | null>(null);
+  // θ label being dragged on the canvas; the SVG renderer drags its labels itself
+  const dragRef = useRef<{ label: SceneThetaLabel, startY: number, value: number } | null>(null);
+  const suppressClickRef = useRef(false);
+  const useCanvas = prefersCanvas({ features, hiddenSize, output });
+  const canvasScale = Math.min(2, window.devicePixelRatio || 1);
+
+  const handleFeatureMenu = useCallback((featureId: number, x: number, y: number) => setMenu({ featureId, x, y }), []);
+  const handleEditTheta = useCallback(
+    (featureId: number, value: number) => onEdit({ type: ManualEditType.SET_THETA, featureId, value }),
+    [onEdit]
+  );
+  const handleEdgeHover = useCallback((info: EdgeInfo | null, x: number, y: number) => {
+    setTooltip(info ? { x, y, lines: edgeTooltip(info, i18n) } : null);
+  }, [i18n]);
+
+  const options = useMemo<NetworkDrawOptions>(() => ({
+    features,
+    featureNames,
+    hiddenSize,
+    mConstant,
+    output,
+    details,
+    i18n,
+    outputNames,
+    highlightedFeature,
+    onHighlight,
+    selection,
+    onSelect,
+    verdicts: aiVerdicts,
+    transitionMs: NETWORK_TRANSITION_MS,
+    onFeatureMenu: handleFeatureMenu,
+    onEditTheta: handleEditTheta,
+    onEdgeHover: handleEdgeHover
+  }), [features, featureNames, hiddenSize, mConstant, output, details, outputNames, i18n, highlightedFeature, onHighlight, selection, onSelect, aiVerdicts, handleFeatureMenu, handleEditTheta, handleEdgeHover]);
+
+  const handleSvg = () => {
+    if (useCanvas) exportNetworkSvg(options);
+    else if (svgRef.current) exportSvg(svgRef.current);
+  };
+
+  const handlePng = async () => {
+    try {
+      if (useCanvas) await exportNetworkPng(options);
+      else if (svgRef.current) await exportPng(svgRef.current);
+      setExportError(null);
+    } catch (err) {
+      setExportError(err);
+    }
+  };
 
   useEffect(() => {
-    if (!svgRef.current) return;
-
-    const svg = d3.select(svgRef.current);
-    svg.selectAll("*").remove();
-
-    // --- Definitions ---
-    const defs = svg.append("defs");
-    
-    // Arrow marker
-    defs.append("marker")
-      .attr("id", "arrowhead")
-      .attr("viewBox", "0 -5 10 10")
-      .attr("refX", 25)
-      .attr("refY", 0)
-      .attr("markerWidth", 6)
-      .attr("markerHeight", 6)
-      .attr("orient", "auto")
-      .append("path")
-      .attr("d", "M0,-5L10,0L0,5")
-      .attr("fill", "#94a3b8");
-
-    const width = SVG_WIDTH;
-    const height = SVG_HEIGHT;
-    const layerSpacing = width / 3;
-
-    // --- Node Positions ---
-    const inputNodes = features.map((f, i) => ({
-      id: `input-${f.id}`,
-      x: 80,
-      y: (height / (features.length + 1)) * (i + 1),
-      ...f
-    }));
-
-    const hiddenNodes = Array.from({ length: 5 }).map((_, i) => ({
-      id: `hidden-${i}`,
-      x: 80 + layerSpacing,
-      y: (height / 6) * (i + 1),
-    }));
-
-    const outputNode = {
-      id: 'output',
-      x: width - 80,
-      y: height / 2
+    if (useCanvas) {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      if (rendererRef.current?.canvas !== canvas) {
+        rendererRef.current?.dispose();
+        rendererRef.current = createCanvasRenderer(canvas);
+      }
+      rendererRef.current.draw(options);
+    } else if (svgRef.current) {
+      drawNetwork(svgRef.current, options);
+    }
+  }, [options, useCanvas, stepName]);
+
+  // Stop a running tween when the canvas goes away
+  useEffect(() => {
+    if (useCanvas) return;
+    rendererRef.current?.dispose();
+    rendererRef.current = null;
+  }, [useCanvas]);
+  useEffect(() => () => rendererRef.current?.dispose(), []);
+
+  // The canvas has no elements to attach handlers to, so pointer events are hit-tested
+  const scenePoint = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const box = event.currentTarget.getBoundingClientRect();
+    return {
+      x: (event.clientX - box.left) * SVG_WIDTH / box.width,
+      y: (event.clientY - box.top) * SVG_HEIGHT / box.height
     };
+  };
+
+  const hitAt = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = scenePoint(event);
+    return rendererRef.current?.hitTest(x, y) ?? null;
+  };
+
+  const handleCanvasDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const hit = hitAt(event);
+    if (hit?.kind !== 'theta') return;
+    dragRef.current = { label: hit.label, startY: scenePoint(event).y, value: hit.label.value };
+  };
+
+  const handleCanvasMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = scenePoint(event);
+    const drag = dragRef.current;
+    if (drag) {
+      drag.value = draggedTheta(drag.label, point.y - drag.startY);
+      setTooltip({ x: drag.label.x, y: drag.label.y, lines: [thetaLabelText(drag.value, drag.label.isNorm, i18n)] });
+      return;
+    }
+    const hit = rendererRef.current?.hitTest(point.x, point.y) ?? null;
+    const featureId = hit?.kind === 'input' ? hit.featureId : null;
+    event.currentTarget.style.cursor = hit?.kind === 'theta' ? 'ns-resize' : hit ? 'pointer' : 'default';
+    if (featureId !== highlightedFeature) onHighlight(featureId);
+    if (hit?.kind === 'edge') handleEdgeHover(hit.info, point.x, point.y);
+    else if (tooltip) setTooltip(null);
+  };
+
+  const handleCanvasUp = () => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    setTooltip(null);
+    if (drag.value !== drag.label.value) {
+      suppressClickRef.current = true;
+      handleEditTheta(drag.label.featureId, drag.value);
+    }
+  };
+
+  const handleCanvasLeave = () => {
+    dragRef.current = null;
+    setTooltip(null);
+    if (highlightedFeature !== null) onHighlight(null);
+  };
+
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    // The click that ends a drag is not a click on what lies under it
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    const hit = hitAt(event);
+    if (hit?.kind === 'input') {
+      onSelect({ featureId: hit.featureId });
+      handleFeatureMenu(hit.featureId, hit.x, hit.y);
+    } else if (hit?.kind === 'hidden') {
+      onSelect({ hiddenIndex: hit.hiddenIndex });
+    } else if (hit?.kind === 'edge' && hit.selection) {
+      onSelect(hit.selection);
+    }
+  };
+
+  const menuFeature = menu && features.find(f => f.id === menu.featureId);
+  const applyMenuEdit = (edit: ManualEdit) => {
+    onEdit(edit);
+    setMenu(null);
+  };
 
-    const g = svg.append("g");
-
-    // --- 1. Skip Connections (Theta) ---
-    const thetaLinks = inputNodes.map(node => {
-      const cpX = (node.x + outputNode.x) / 2;
-      // Arch away from center to avoid crossing hidden layer messily
-      const cpY = node.y < height/2 ? node.y - 100 : node.y + 100;
-      
-      return {
-        source: node,
-        target: outputNode,
-        control: { x: cpX, y: cpY },
-        weight: node.theta,
-        active: node.isActive
-      };
-    });
-
-    // Draw Arcs
-    g.append("g").selectAll("path")
-      .data(thetaLinks)
-      .enter()
-      .append("path")
-      .attr("d", d => `M${d.source.x},${d.source.y} Q${d.control.x},${d.control.y} ${d.target.x},${d.target.y}`)
-      .attr("fill", "none")
-      .attr("stroke", COLOR_THETA)
-      .attr("stroke-width", d => Math.max(1, Math.abs(d.weight) * 8))
-      .attr("stroke-opacity", d => d.active ? 0.6 : 0.1)
-      .attr("stroke-dasharray", d => d.active ? "none" : "5,5");
-
-    // Theta Labels (Background Box)
-    const thetaLabels = g.append("g").selectAll("g")
-      .data(thetaLinks)
-      .enter()
-      .append("g")
-      .attr("transform", d => `translate(${d.control.x}, ${d.control.y})`);
-
-    thetaLabels.append("rect")
-      .attr("x", -25)
-      .attr("y", -10)
-      .attr("width", 50)
-      .attr("height", 20)
-      .attr("rx", 4)
-      .attr("fill", "#0f172a")
-      .attr("stroke", COLOR_THETA)
-      .attr("stroke-width", 1)
-      .attr("opacity", 0.8);
-
-    thetaLabels.append("text")
-      .text(d => d.weight.toFixed(3))
-      .attr("dy", 4)
-      .attr("text-anchor", "middle")
-      .attr("fill", COLOR_THETA)
-      .attr("font-size", "11px")
-      .attr("font-family", "monospace")
-      .attr("font-weight", "bold");
-
-    // --- 2. Hidden Connections (W) ---
-    features.forEach((f, i) => {
-      const source = inputNodes[i];
-      const wGroup = g.append("g");
-
-      f.w.forEach((wVal, j) => {
-        const target = hiddenNodes[j];
-        const isActive = f.isActive;
-        const limit = M_CONSTANT * Math.abs(f.theta);
-        const isMaxed = Math.abs(Math.abs(wVal) - limit) < 0.01 && isActive;
-
-        // Line
-        wGroup.append("line")
-          .attr("x1", source.x)
-          .attr("y1", source.y)
-          .attr("x2", target.x)
-          .attr("y2", target.y)
-          .attr("stroke", isMaxed ? COLOR_CLAMPED : COLOR_WEIGHT)
-          .attr("stroke-width", Math.max(0.5, Math.abs(wVal) * 4))
-          .attr("stroke-opacity", isActive ? 0.4 : 0.05);
-
-        // Weight Labels (Only show for first feature or significantly large ones to avoid clutter)
-        if (isActive && Math.abs(wVal) > 0.1 && (i === 0 || j === 2)) {
-             const midX = (source.x + target.x) / 2;
-             const midY = (source.y + target.y) / 2;
-             
-             wGroup.append("text")
-                .attr("x", midX)
-                .attr("y", midY)
-                .text(wVal.toFixed(2))
-                .attr("fill", isMaxed ? COLOR_CLAMPED : "#a855f7")
-                .attr("font-size", "9px")
-                .attr("opacity", 0.8);
-        }
-      });
-    });
-
-    // --- 3. Hidden to Output ---
-    hiddenNodes.forEach(h => {
-      g.append("line")
-        .attr("x1", h.x)
-        .attr("y1", h.y)
-        .attr("x2", outputNode.x)
-        .attr("y2", outputNode.y)
-        .attr("stroke", "#94a3b8")
-        .attr("stroke-width", 1)
-        .attr("marker-end", "url(#arrowhead)")
-        .attr("stroke-opacity", 0.2);
-    });
-
-    // --- 4. Nodes ---
-    
-    // Input Nodes
-    const inputs = g.selectAll(".input-node")
-      .data(inputNodes)
-      .enter()
-      .append("g")
-      .attr("transform", d => `translate(${d.x},${d.y})`);
-
-    inputs.append("circle")
-      .attr("r", NODE_RADIUS)
-      .attr("fill", d => d.isActive ? COLOR_ACTIVE : COLOR_INACTIVE)
-      .attr("stroke", "#fff")
-      .attr("stroke-width", 2);
-
-    inputs.append("text")
-      .text(d => `X${d.id}`)
-      .attr("dy", 5)
-      .attr("text-anchor", "middle")
-      .attr("fill", "white")
-      .style("font-weight", "bold");
-      
-    // Hidden Nodes
-    const hiddens = g.selectAll(".hidden-node")
-      .data(hiddenNodes)
-      .enter()
-      .append("g")
-      .attr("transform", d => `translate(${d.x},${d.y})`);
-
-    hiddens.append("circle")
-      .attr("r", 10)
-      .attr("fill", "#334155")
-      .attr("stroke", "#94a3b8");
-
-    // Output Node
-    const output = g.append("g")
-      .attr("transform", `translate(${outputNode.x},${outputNode.y})`);
-
-    output.append("circle")
-      .attr("r", 25)
-      .attr("fill", "#f59e0b")
-      .attr("stroke", "#fff")
-      .attr("stroke-width", 2);
-      
-    output.append("text")
-      .text("Y")
-      .attr("dy", 5)
-      .attr("text-anchor", "middle")
-      .attr("fill", "white")
-      .attr("font-weight", "bold");
-
-  }, [features, stepName]);
+  const buttonClass = "flex items-center gap-1 px-2 py-0.5 rounded bg-slate-800/80 hover:bg-slate-700 text-slate-300 text-[10px] border border-slate-700 disabled:opacity-50 disabled:cursor-not-allowed";
 
   return (
     <div className="relative bg-slate-900 rounded-lg shadow-xl overflow-hidden border border-slate-700">
-      <div className="absolute top-2 left-2 text-xs text-slate-500 z-10">Mô phỏng Trọng số</div>
-      <svg 
-        ref={svgRef} 
-        width={SVG_WIDTH} 
-        height={SVG_HEIGHT} 
-        className="w-full h-auto block"
-        viewBox={`0 0 ${SVG_WIDTH} ${SVG_HEIGHT}`}
-      />
+      <div className="absolute top-2 left-2 text-xs text-slate-500 z-10">{t('graph.title')}</div>
+      <div className="absolute top-2 right-2 z-10 flex items-center gap-1">
+        {exportError && <span className="text-[10px] text-red-400 mr-1">{errorText(exportError, i18n)}</span>}
+        <button
+          onClick={handleSvg}
+          className={buttonClass}
+          title={t('graph.exportSvgHint')}
+        >
+          <FileImage size={12} /> SVG
+        </button>
+        <button onClick={handlePng} className={buttonClass} title={t('graph.exportPngHint')}>
+          <ImageIcon size={12} /> PNG
+        </button>
+        <button
+          onClick={onRecord}
+          disabled={recordProgress !== null || !canRecord()}
+          className={buttonClass}
+          title={t(canRecord() ? 'graph.recordHint' : 'graph.recordUnsupported')}
+        >
+          <Video size={12} />
+          {recordProgress !== null ? t('graph.recording', { percent: Math.round(recordProgress * 100) }) : t('graph.record')}
+        </button>
+      </div>
+      {useCanvas ? (
+        <canvas
+          ref={canvasRef}
+          width={SVG_WIDTH * canvasScale}
+          height={SVG_HEIGHT * canvasScale}
+          className="w-full h-auto block"
+          onMouseDown={handleCanvasDown}
+          onMouseMove={handleCanvasMove}
+          onMouseUp={handleCanvasUp}
+          onMouseLeave={handleCanvasLeave}
+          onClick={handleCanvasClick}
+        />
+      ) : (
+        <svg 
+          ref={svgRef} 
+          width={SVG_WIDTH} 
+          height={SVG_HEIGHT} 
+          className="w-full h-auto block"
+          viewBox={`0 0 ${SVG_WIDTH} ${SVG_HEIGHT}`}
+          onMouseLeave={() => setTooltip(null)}
+        />
+      )}
+      {tooltip && (
+        <div
+          className="absolute z-10 pointer-events-none -translate-y-full -mt-2 ml-2 px-2 py-1 rounded bg-slate-950/90 border border-slate-700 text-[10px] font-mono text-slate-300 whitespace-nowrap"
+          style={popupStyle(tooltip)}
+        >
+          {tooltip.lines.map((text, i) => <div key={i} className={i === 0 ? 'text-slate-100 font-bold' : ''}>{text}</div>)}
+        </div>
+      )}
+      {menuFeature && (
+        <div
+          className="absolute z-20 -translate-y-1/2 ml-4 p-2 rounded bg-slate-950/95 border border-slate-600 text-[11px] text-slate-300 shadow-lg space-y-1"
+          style={popupStyle(menu)}
+        >
+          <div className="flex items-center justify-between gap-3">
+            <span className="font-bold text-slate-100">X{menuFeature.id} {featureNames[menuFeature.id - 1]}</span>
+            <button onClick={() => setMenu(null)} className="text-slate-500 hover:text-slate-200" title={t('graph.close')}>
+              <X size={12} />
+            </button>
+          </div>
+          <div className="text-slate-500 font-mono">{t('graph.penaltyWeight', { weight: i18n.num(menuFeature.penaltyWeight, 2) })}</div>
+          <button
+            onClick={() => applyMenuEdit({ type: ManualEditType.PIN_FEATURE, featureId: menuFeature.id, pinned: menuFeature.penaltyWeight !== 0 })}
+            className={`${buttonClass} w-full`}
+          >
+            {menuFeature.penaltyWeight === 0 ? <PinOff size={12} /> : <Pin size={12} />}
+            {t(menuFeature.penaltyWeight === 0 ? 'graph.unpin' : 'graph.pin')}
+          </button>
+          <button
+            onClick={() => applyMenuEdit({ type: ManualEditType.REMOVE_FEATURE, featureId: menuFeature.id })}
+            disabled={!menuFeature.isActive}
+            className={`${buttonClass} w-full`}
+          >
+            <Trash2 size={12} /> {t('graph.remove')}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,184 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { PathPoint } from '../types';
+import { PATH_CHART_WIDTH, PATH_CHART_HEIGHT, featureColor } from '../constants';
+import { useI18n } from './I18nContext';
+
+interface PathChartProps {
+  path: PathPoint[];
+  featureNames: string[];
+  maxLambda: number;
+  highlightedFeature: number | null;
+  onHighlight: (featureId: number | null) => void;
+  title?: string;
+  currentLambda?: number; // Draws a cursor, e.g. to sync comparison charts with the main run
+  width?: number;
+  height?: number;
+}
+
+const MARGIN = { top: 12, right: 90, bottom: 24, left: 44 };
+
+export const PathChart: React.FC<PathChartProps> = ({
+  path,
+  featureNames,
+  maxLambda,
+  highlightedFeature,
+  onHighlight,
+  title,
+  currentLambda,
+  width = PATH_CHART_WIDTH,
+  height = PATH_CHART_HEIGHT
+}) => {
+  const { t, num } = useI18n();
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+
+    const innerWidth = width - MARGIN.left - MARGIN.right;
+    const innerHeight = height - MARGIN.top - MARGIN.bottom;
+    const g = svg.append("g").attr("transform", `translate(${MARGIN.left},${MARGIN.top})`);
+
+    // --- Scales ---
+    const values = path.flatMap(p => p.features.flatMap(f => [f.theta, f.maxW]));
+    const x = d3.scaleLinear()
+      .domain([0, Math.max(maxLambda, ...path.map(p => p.lambda))])
+      .range([0, innerWidth]);
+    const y = d3.scaleLinear()
+      .domain([Math.min(0, d3.min(values) ?? 0), Math.max(0.1, d3.max(values) ?? 1)])
+      .nice()
+      .range([innerHeight, 0]);
+
+    // --- Axes ---
+    g.append("g")
+      .attr("transform", `translate(0,${innerHeight})`)
+      .call(d3.axisBottom(x).ticks(Math.max(2, Math.round(innerWidth / 77))).tickFormat(v => num(+v)))
+      .call(axis => axis.selectAll("text").attr("fill", "#64748b"))
+      .call(axis => axis.selectAll("line,path").attr("stroke", "#334155"));
+
+    g.append("g")
+      .call(d3.axisLeft(y).ticks(4).tickFormat(v => num(+v)))
+      .call(axis => axis.selectAll("text").attr("fill", "#64748b"))
+      .call(axis => axis.selectAll("line,path").attr("stroke", "#334155"));
+
+    g.append("text")
+      .text("λ")
+      .attr("x", innerWidth + 8)
+      .attr("y", innerHeight + 4)
+      .attr("fill", "#94a3b8")
+      .attr("font-size", "11px");
+
+    g.append("line")
+      .attr("x1", 0)
+      .attr("x2", innerWidth)
+      .attr("y1", y(0))
+      .attr("y2", y(0))
+      .attr("stroke", "#475569")
+      .attr("stroke-dasharray", "2,3");
+
+    if (currentLambda !== undefined) {
+      g.append("line")
+        .attr("x1", x(currentLambda))
+        .attr("x2", x(currentLambda))
+        .attr("y1", 0)
+        .attr("y2", innerHeight)
+        .attr("stroke", "#34d399")
+        .attr("stroke-opacity", 0.6);
+    }
+
+    if (path.length === 0) {
+      g.append("text")
+        .text(t('pathChart.empty'))
+        .attr("x", innerWidth / 2)
+        .attr("y", innerHeight / 2)
+        .attr("text-anchor", "middle")
+        .attr("fill", "#475569")
+        .attr("font-size", "12px")
+        .attr("font-style", "italic");
+      return;
+    }
+
+    // --- One series per feature ---
+    const featureIds = path[0].features.map(f => f.id);
+    const opacity = (id: number) => highlightedFeature === null || highlightedFeature === id ? 1 : 0.15;
+
+    featureIds.forEach((id, i) => {
+      const series = path.map(p => ({ lambda: p.lambda, ...p.features[i] }));
+      const color = featureColor(id);
+      const group = g.append("g").attr("opacity", opacity(id));
+
+      const thetaLine = d3.line<typeof series[number]>()
+        .x(d => x(d.lambda))
+        .y(d => y(d.theta));
+      const wLine = d3.line<typeof series[number]>()
+        .x(d => x(d.lambda))
+        .y(d => y(d.maxW));
+
+      group.append("path")
+        .attr("d", wLine(series))
+        .attr("fill", "none")
+        .attr("stroke", color)
+        .attr("stroke-width", 1)
+        .attr("stroke-dasharray", "4,3")
+        .attr("stroke-opacity", 0.6);
+
+      group.append("path")
+        .attr("d", thetaLine(series))
+        .attr("fill", "none")
+        .attr("stroke", color)
+        .attr("stroke-width", highlightedFeature === id ? 3 : 2);
+
+      // Elimination marker: first point where the feature is inactive
+      const dropIndex = series.findIndex(p => !p.isActive);
+      if (dropIndex !== -1) {
+        group.append("text")
+          .text("✕")
+          .attr("x", x(series[dropIndex].lambda))
+          .attr("y", y(0))
+          .attr("dy", 4)
+          .attr("text-anchor", "middle")
+          .attr("fill", color)
+          .attr("font-size", "12px")
+          .attr("font-weight", "bold");
+      }
+
+      // Label at the end of the line
+      const last = series[series.length - 1];
+      group.append("text")
+        .text(featureNames[i] ?? `X${id}`)
+        .attr("x", x(last.lambda) + 6)
+        .attr("y", y(last.theta))
+        .attr("dy", 4)
+        .attr("fill", color)
+        .attr("font-size", "10px");
+
+      // Wide transparent hit area so thin lines are easy to hover
+      g.append("path")
+        .attr("d", thetaLine(series))
+        .attr("fill", "none")
+        .attr("stroke", "transparent")
+        .attr("stroke-width", 12)
+        .style("cursor", "pointer")
+        .on("mouseenter", () => onHighlight(id))
+        .on("mouseleave", () => onHighlight(null));
+    });
+  }, [path, featureNames, maxLambda, highlightedFeature, onHighlight, currentLambda, width, height, t, num]);
+
+  return (
+    <div className="relative h-full bg-slate-900 rounded-lg border border-slate-700 overflow-hidden">
+      <div className="absolute top-1 left-2 text-[10px] text-slate-500 z-10">
+        {title ?? t('pathChart.title')}
+      </div>
+      <svg
+        ref={svgRef}
+        width={width}
+        height={height}
+        className="w-full h-full block"
+        viewBox={`0 0 ${width} ${height}`}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useMemo, useState } from 'react';
+import { FileText, FileSpreadsheet, Shuffle } from 'lucide-react';
+import { FeatureReportRow, SimulationState, StabilityResampling, StabilityResult } from '../types';
+import { DEFAULT_STABILITY_RUNS, MAX_STABILITY_RUNS, COLOR_THETA, featureColor } from '../constants';
+import { buildFeatureReport, stabilityScore, reportToCsv, reportToMarkdown, runStabilitySelection } from '../services/featureReport';
+import { downloadBlob } from './graphExport';
+import { errorText } from '../services/i18n';
+import { useI18n } from './I18nContext';
+
+interface ReportPanelProps {
+  state: SimulationState;
+  stability: StabilityResult | null;
+  onStabilityChange: (result: StabilityResult | null) => void;
+  highlightedFeature: number | null;
+  onHighlight: (featureId: number | null) => void;
+}
+
+const HEATMAP_WIDTH = 320;
+const HEATMAP_ROW = 14;
+
+export const ReportPanel: React.FC<ReportPanelProps> = ({
+  state,
+  stability,
+  onStabilityChange,
+  highlightedFeature,
+  onHighlight
+}) => {
+  const i18n = useI18n();
+  const { t, num } = i18n;
+  const rows: FeatureReportRow[] = useMemo(() => buildFeatureReport(state), [state]);
+  const [resampling, setResampling] = useState<StabilityResampling>(StabilityResampling.SEEDS);
+  const [runs, setRuns] = useState(DEFAULT_STABILITY_RUNS);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<unknown>(null);
+
+  const handleRun = async () => {
+    setProgress(0);
+    setError(null);
+    try {
+      onStabilityChange(await runStabilitySelection(state.config, state.dataset, { resampling, runs, onProgress: setProgress }));
+    } catch (err) {
+      setError(err);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleExport = (format: 'csv' | 'md') => {
+    const text = format === 'csv' ? reportToCsv(rows, stability) : reportToMarkdown(rows, stability, state, i18n);
+    const type = format === 'csv' ? 'text/csv' : 'text/markdown';
+    downloadBlob(new Blob([text], { type }), `lassonet-report.${format}`);
+  };
+
+  const columnWidth = stability ? HEATMAP_WIDTH / Math.max(1, stability.lambdas.length) : 0;
+  const buttonClass = "flex items-center gap-1 px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="h-full flex gap-2 text-[10px]">
+      {/* Ranking of the current run */}
+      <div className="flex-1 min-w-0 bg-slate-900 rounded-lg border border-slate-700 p-2 overflow-y-auto">
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-slate-400 font-bold">{t('report.title')}</span>
+          <span className="flex gap-1">
+            <button onClick={() => handleExport('csv')} className={buttonClass}><FileSpreadsheet size={12} /> CSV</button>
+            <button onClick={() => handleExport('md')} className={buttonClass}><FileText size={12} /> Markdown</button>
+          </span>
+        </div>
+        <table className="w-full font-mono">
+          <thead>
+            <tr className="text-slate-500">
+              <th className="text-left font-normal">{t('report.rank')}</th>
+              <th className="text-left font-normal">{t('report.feature')}</th>
+              <th className="text-right font-normal">{t('report.eliminatedAt')}</th>
+              <th className="text-right font-normal">{t('report.peakTheta')}</th>
+              {stability && <th className="text-right font-normal">{t('report.stabilityScore')}</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr
+                key={row.featureId}
+                onMouseEnter={() => onHighlight(row.featureId)}
+                onMouseLeave={() => onHighlight(null)}
+                className={highlightedFeature === row.featureId ? 'bg-slate-800' : ''}
+              >
+                <td className="text-slate-400">{row.rank}</td>
+                <td className="truncate max-w-[8rem]" style={{ color: featureColor(row.featureId) }}>X{row.featureId} {row.name}</td>
+                <td className={`text-right ${row.eliminatedAt === null ? 'text-slate-500' : 'text-red-400'}`}>
+                  {row.eliminatedAt === null ? t('report.survived') : num(row.eliminatedAt, 3)}
+                </td>
+                <td className="text-right text-slate-200">
+                  {t('report.peakValue', { theta: num(row.peakTheta, 3), lambda: num(row.peakLambda, 2) })}
+                </td>
+                {stability && (
+                  <td className="text-right text-emerald-400">{num(stabilityScore(stability, row.featureId - 1), 2)}</td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Selection frequency over resampled runs */}
+      <div className="w-[22rem] flex-shrink-0 bg-slate-900 rounded-lg border border-slate-700 p-2 overflow-y-auto">
+        <div className="flex items-center gap-2 mb-1 text-slate-400">
+          <span className="font-bold">{t('report.stabilityTitle')}</span>
+          <select
+            value={resampling}
+            onChange={(e) => setResampling(e.target.value as StabilityResampling)}
+            disabled={progress !== null}
+            className="bg-slate-800 border border-slate-600 rounded px-1 text-slate-200"
+          >
+            {Object.values(StabilityResampling).map(r => (
+              <option key={r} value={r}>{t(`report.resampling.${r}`)}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={2}
+            max={MAX_STABILITY_RUNS}
+            value={runs}
+            onChange={(e) => setRuns(Math.min(MAX_STABILITY_RUNS, Math.max(2, Math.round(Number(e.target.value)) || 2)))}
+            disabled={progress !== null}
+            className="w-12 bg-slate-800 border border-slate-600 rounded px-1 text-slate-200"
+            title={t('report.runs')}
+          />
+          <button onClick={handleRun} disabled={progress !== null} className={buttonClass}>
+            <Shuffle size={12} /> {progress !== null ? t('report.running', { done: progress, runs }) : t('report.run')}
+          </button>
+        </div>
+
+        {error && <div className="text-red-400 mb-1">{errorText(error, i18n)}</div>}
+        {stability ? (
+          <>
+            <div className="text-slate-500 mb-1">
+              {t('report.stabilityIntro', { runs: stability.runs, resampling: { key: `report.resampling.${stability.resampling as StabilityResampling}` } })}
+            </div>
+            <svg
+              width="100%"
+              viewBox={`0 0 ${HEATMAP_WIDTH + 28} ${rows.length * HEATMAP_ROW + 12}`}
+              className="block"
+            >
+              {rows.map((row, r) => (
+                <g
+                  key={row.featureId}
+                  transform={`translate(0,${r * HEATMAP_ROW})`}
+                  onMouseEnter={() => onHighlight(row.featureId)}
+                  onMouseLeave={() => onHighlight(null)}
+                  opacity={highlightedFeature === null || highlightedFeature === row.featureId ? 1 : 0.4}
+                >
+                  <text x={0} y={HEATMAP_ROW - 4} fontSize={9} fill={featureColor(row.featureId)}>X{row.featureId}</text>
+                  {stability.frequencies.map((frequencies, k) => (
+                    <rect
+                      key={k}
+                      x={28 + k * columnWidth}
+                      y={1}
+                      width={Math.max(columnWidth - 0.5, 0.5)}
+                      height={HEATMAP_ROW - 2}
+                      fill={COLOR_THETA}
+                      fillOpacity={frequencies[row.featureId - 1]}
+                    >
+                      <title>{t('report.cell', { lambda: num(stability.lambdas[k], 3), frequency: num(frequencies[row.featureId - 1], 2) })}</title>
+                    </rect>
+                  ))}
+                </g>
+              ))}
+              <text x={28} y={rows.length * HEATMAP_ROW + 10} fontSize={8} fill="#64748b">λ={num(stability.lambdas[0], 2)}</text>
+              <text x={28 + HEATMAP_WIDTH} y={rows.length * HEATMAP_ROW + 10} fontSize={8} fill="#64748b" textAnchor="end">
+                λ={num(stability.lambdas[stability.lambdas.length - 1], 2)}
+              </text>
+            </svg>
+          </>
+        ) : (
+          <div className="text-slate-500 italic">{t('report.stabilityHint')}</div>
+        )}
+      </div>
+    </div>
+  );
+};
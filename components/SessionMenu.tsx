@@ -0,0 +1,59 @@
+import React, { useRef, useState } from 'react';
+import { Save, FolderOpen, Link } from 'lucide-react';
+import { errorText } from '../services/i18n';
+import { useI18n } from './I18nContext';
+
+interface SessionMenuProps {
+  canShare: boolean;
+  onSave: () => void;
+  onLoad: (text: string) => void;
+  onShare: () => Promise<void>;
+}
+
+export const SessionMenu: React.FC<SessionMenuProps> = ({ canShare, onSave, onLoad, onShare }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    onLoad(await file.text());
+    // Allow loading the same file again
+    e.target.value = '';
+  };
+
+  const handleShare = async () => {
+    try {
+      await onShare();
+      setShareStatus(t('session.copied'));
+    } catch (err) {
+      setShareStatus(errorText(err, i18n));
+    }
+    setTimeout(() => setShareStatus(null), 2500);
+  };
+
+  const buttonClass = "flex items-center gap-1 px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs border border-slate-700 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="flex items-center gap-2">
+      {shareStatus && <span className="text-xs text-emerald-400">{shareStatus}</span>}
+      <button onClick={onSave} className={buttonClass} title={t('session.saveHint')}>
+        <Save size={14} /> {t('session.save')}
+      </button>
+      <button onClick={() => fileRef.current?.click()} className={buttonClass}>
+        <FolderOpen size={14} /> {t('session.open')}
+      </button>
+      <input ref={fileRef} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+      <button
+        onClick={handleShare}
+        disabled={!canShare}
+        className={buttonClass}
+        title={t(canShare ? 'session.shareHint' : 'session.shareDisabled')}
+      >
+        <Link size={14} /> {t('session.share')}
+      </button>
+    </div>
+  );
+};
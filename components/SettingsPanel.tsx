@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import { Settings, ChevronDown, ChevronUp } from 'lucide-react';
+import { SimulationConfig, LambdaSchedule, InnerLoop, OptimizerType, PenaltyType } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+import { validateConfig } from '../services/simulationConfig';
+import { useI18n } from './I18nContext';
+
+interface SettingsPanelProps {
+  config: SimulationConfig;
+  featureNames: string[];
+  onApply: (config: SimulationConfig) => void;
+}
+
+type NumericConfigKey = Exclude<
+  keyof SimulationConfig,
+  'proximalMode' | 'lambdaSchedule' | 'innerLoop' | 'optimizer' | 'penalty' | 'adaptiveWeights' | 'unpenalizedFeatures' | 'deepLayers'
+>;
+
+interface Field {
+  key: NumericConfigKey;
+  step: number;
+  // Only shown when relevant to the selected path strategy
+  visible?: (config: SimulationConfig) => boolean;
+}
+
+const isGeometric = (c: SimulationConfig) => c.lambdaSchedule === LambdaSchedule.GEOMETRIC;
+const isConvergence = (c: SimulationConfig) => c.innerLoop === InnerLoop.CONVERGENCE;
+const isNonconvex = (c: SimulationConfig) => c.penalty !== PenaltyType.L1;
+const usesOptimizer = (type: OptimizerType) => (c: SimulationConfig) => c.optimizer === type;
+
+const FIELDS: Field[] = [
+  { key: 'hiddenSize', step: 1 },
+  { key: 'mConstant', step: 0.1 },
+  { key: 'learningRate', step: 0.01 },
+  { key: 'pretrainEpochs', step: 1 },
+  { key: 'lambdaStep', step: 0.05, visible: c => !isGeometric(c) },
+  { key: 'lambdaStart', step: 0.01, visible: isGeometric },
+  { key: 'lambdaGrowth', step: 0.05, visible: isGeometric },
+  { key: 'maxLambda', step: 0.1 },
+  { key: 'epochsPerLambda', step: 1, visible: c => !isConvergence(c) },
+  { key: 'tolerance', step: 0.0005, visible: isConvergence },
+  { key: 'patience', step: 1, visible: isConvergence },
+  { key: 'maxEpochsPerLambda', step: 1, visible: isConvergence },
+  { key: 'validationFraction', step: 0.05 },
+  { key: 'momentum', step: 0.05, visible: usesOptimizer(OptimizerType.MOMENTUM) },
+  { key: 'adamBeta1', step: 0.01, visible: usesOptimizer(OptimizerType.ADAM) },
+  { key: 'adamBeta2', step: 0.001, visible: usesOptimizer(OptimizerType.ADAM) },
+  { key: 'lineSearchShrink', step: 0.05, visible: usesOptimizer(OptimizerType.LINE_SEARCH) },
+  { key: 'penaltyGamma', step: 0.1, visible: isNonconvex },
+  { key: 'seed', step: 1 }
+];
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, featureNames, onApply }) => {
+  const { t, message } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<SimulationConfig>(config);
+  // Edited as text so a trailing comma survives until the next width is typed
+  const [deepLayersText, setDeepLayersText] = useState(config.deepLayers.join(','));
+
+  // Keep the draft in sync when the running config changes elsewhere
+  useEffect(() => {
+    setDraft(config);
+    setDeepLayersText(config.deepLayers.join(','));
+  }, [config]);
+
+  const handleDeepLayers = (text: string) => {
+    setDeepLayersText(text);
+    setDraft({ ...draft, deepLayers: text.split(',').map(w => w.trim()).filter(w => w !== '').map(Number) });
+  };
+
+  const errors = validateConfig(draft);
+
+  const toggleUnpenalized = (id: number) => {
+    const ids = draft.unpenalizedFeatures;
+    setDraft({
+      ...draft,
+      unpenalizedFeatures: ids.includes(id) ? ids.filter(x => x !== id) : [...ids, id].sort((a, b) => a - b)
+    });
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg border border-slate-700 px-4 py-2 text-xs">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-slate-300"
+      >
+        <span className="flex items-center gap-2 font-bold text-slate-300">
+          <Settings size={14} /> {t('settings.title')}
+        </span>
+        <span className="flex items-center gap-2 text-slate-500 font-mono">
+          {t('settings.summary', { m: config.mConstant, lr: config.learningRate, maxLambda: config.maxLambda, hidden: [config.hiddenSize, ...config.deepLayers].join('-') })}
+          {isOpen ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3">
+          <div className="grid grid-cols-4 gap-2">
+            <label className="flex flex-col gap-1 text-slate-400">
+              {t('settings.schedule')}
+              <select
+                value={draft.lambdaSchedule}
+                onChange={(e) => setDraft({ ...draft, lambdaSchedule: e.target.value as LambdaSchedule })}
+                className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200"
+              >
+                {Object.values(LambdaSchedule).map(schedule => (
+                  <option key={schedule} value={schedule}>{t(`settings.schedule.${schedule}`)}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-slate-400">
+              {t('settings.innerLoop')}
+              <select
+                value={draft.innerLoop}
+                onChange={(e) => setDraft({ ...draft, innerLoop: e.target.value as InnerLoop })}
+                className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200"
+              >
+                {Object.values(InnerLoop).map(loop => (
+                  <option key={loop} value={loop}>{t(`settings.innerLoop.${loop}`)}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-slate-400">
+              {t('settings.optimizer')}
+              <select
+                value={draft.optimizer}
+                onChange={(e) => setDraft({ ...draft, optimizer: e.target.value as OptimizerType })}
+                className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200"
+              >
+                {Object.values(OptimizerType).map(optimizer => (
+                  <option key={optimizer} value={optimizer}>{t(`optimizer.${optimizer}`)}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-slate-400">
+              {t('settings.penalty')}
+              <select
+                value={draft.penalty}
+                onChange={(e) => setDraft({ ...draft, penalty: e.target.value as PenaltyType })}
+                className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200"
+              >
+                {Object.values(PenaltyType).map(penalty => (
+                  <option key={penalty} value={penalty}>{t(`penalty.${penalty}`)}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {isNonconvex(draft) && <div className="text-slate-500 italic">{t('settings.penaltyNote')}</div>}
+
+          <div className="grid grid-cols-4 gap-2">
+            {FIELDS.filter(field => !field.visible || field.visible(draft)).map(field => (
+              <label key={field.key} className="flex flex-col gap-1 text-slate-400">
+                {t(`settings.field.${field.key}`)}
+                <input
+                  type="number"
+                  step={field.step}
+                  value={draft[field.key]}
+                  onChange={(e) => setDraft({ ...draft, [field.key]: Number(e.target.value) })}
+                  className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 font-mono"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <label className="flex items-center gap-2 text-slate-400">
+              {t('settings.deepLayers')}
+              <input
+                type="text"
+                value={deepLayersText}
+                onChange={(e) => handleDeepLayers(e.target.value)}
+                placeholder="—"
+                className="w-24 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 font-mono"
+              />
+            </label>
+            {draft.deepLayers.length > 0 && <div className="text-slate-500 italic">{t('settings.deepLayersHint')}</div>}
+            <label className="flex items-center gap-2 text-slate-400">
+              <input
+                type="checkbox"
+                checked={draft.adaptiveWeights}
+                onChange={(e) => setDraft({ ...draft, adaptiveWeights: e.target.checked })}
+                className="accent-emerald-500"
+              />
+              {t('settings.adaptiveWeights')}
+            </label>
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-slate-400">
+              {t('settings.unpenalized')}
+              {featureNames.map((name, i) => (
+                <label key={i} className="flex items-center gap-1 text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.unpenalizedFeatures.includes(i + 1)}
+                    onChange={() => toggleUnpenalized(i + 1)}
+                    className="accent-emerald-500"
+                  />
+                  X{i + 1} ({name})
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-red-400 space-y-0.5">
+              {errors.map(err => <li key={err.key}>• {message(err)}</li>)}
+            </ul>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <button
+              onClick={() => {
+                setDraft({ ...DEFAULT_CONFIG, proximalMode: draft.proximalMode });
+                setDeepLayersText(DEFAULT_CONFIG.deepLayers.join(','));
+              }}
+              className="px-3 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200"
+            >
+              {t('settings.defaults')}
+            </button>
+            <button
+              onClick={() => onApply(draft)}
+              disabled={errors.length > 0}
+              className="px-3 py-1 rounded bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-700 disabled:text-slate-500 text-white font-semibold"
+            >
+              {t('settings.apply')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
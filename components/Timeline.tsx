@@ -0,0 +1,44 @@
+import React from 'react';
+import { TimelineMarker } from '../types';
+import { useI18n } from './I18nContext';
+
+interface TimelineProps {
+  index: number;
+  length: number;
+  markers: TimelineMarker[];
+  onSeek: (index: number) => void;
+}
+
+export const Timeline: React.FC<TimelineProps> = ({ index, length, markers, onSeek }) => {
+  const { t, num } = useI18n();
+  const last = Math.max(1, length - 1);
+  const position = (i: number) => `${(i / last) * 100}%`;
+
+  return (
+    <div className="w-full flex items-center gap-3">
+      <div className="relative flex-1 h-6">
+        {/* Ticks for phase changes (tall, amber) and λ increments (short, emerald) */}
+        {markers.map((m: TimelineMarker) => (
+          <div
+            key={m.index}
+            title={m.kind === 'phase' ? t(`phase.${m.phase}`) : `λ=${num(m.lambda)}`}
+            className={`absolute top-0 w-px ${m.kind === 'phase' ? 'h-3 bg-amber-400' : 'h-2 bg-emerald-500/70'}`}
+            style={{ left: position(m.index) }}
+          />
+        ))}
+        <input
+          type="range"
+          min={0}
+          max={length - 1}
+          value={index}
+          onChange={(e) => onSeek(parseInt(e.target.value))}
+          disabled={length < 2}
+          className="absolute bottom-0 left-0 w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-emerald-500 disabled:opacity-50"
+        />
+      </div>
+      <span className="text-xs font-mono text-slate-400 w-24 text-right">
+        {index + 1} / {length}
+      </span>
+    </div>
+  );
+};
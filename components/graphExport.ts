@@ -0,0 +1,209 @@
+import { RecordedEdit, SimulationState } from "../types";
+import { SVG_WIDTH, SVG_HEIGHT } from "../constants";
+import { drawNetwork } from "./networkRenderer";
+import { paintNetwork } from "./networkCanvas";
+import { NetworkDrawOptions, prefersCanvas } from "./networkScene";
+import { replaySteps } from "../services/simulationEngine";
+import { outputNames } from "../services/dataset";
+import { I18n, LocalizedError } from "../services/i18n";
+
+const BACKGROUND = '#0f172a';
+const PNG_SCALE = 2;
+// Longer paths are recorded with every n-th step; at 120 ms a frame this is 3 minutes
+const MAX_VIDEO_FRAMES = 1500;
+
+// Presentation properties copied onto each element so the file renders the same outside the app
+const INLINED_STYLES = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray',
+  'opacity', 'font-family', 'font-size', 'font-weight', 'font-style', 'text-anchor'
+];
+
+export interface RecordOptions {
+  i18n: I18n;
+  edits?: RecordedEdit[]; // Manual edits to make again on the way
+  frameDuration?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export const frameCaption = (state: SimulationState, i18n: I18n): string =>
+  i18n.t('graph.caption', {
+    lambda: i18n.num(state.lambda, 3),
+    epoch: state.epoch,
+    step: state.stepIndex,
+    stepType: { key: `stepType.${state.step}` }
+  });
+
+export const serializeSvg = (source: SVGSVGElement): string => {
+  const clone = source.cloneNode(true) as SVGSVGElement;
+  const sourceNodes = [source, ...Array.from(source.querySelectorAll('*'))];
+  const cloneNodes = [clone, ...Array.from(clone.querySelectorAll('*'))];
+
+  sourceNodes.forEach((node, i) => {
+    const computed = window.getComputedStyle(node);
+    const style = INLINED_STYLES
+      .map(prop => `${prop}:${computed.getPropertyValue(prop)}`)
+      .join(';');
+    cloneNodes[i].setAttribute('style', style);
+  });
+
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(SVG_WIDTH));
+  clone.setAttribute('height', String(SVG_HEIGHT));
+  clone.removeAttribute('class');
+
+  // The page background is not part of the SVG, so add it explicitly
+  const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', BACKGROUND);
+  clone.insertBefore(background, clone.firstChild);
+
+  return new XMLSerializer().serializeToString(clone);
+};
+
+const renderToCanvas = (svgText: string, canvas: HTMLCanvasElement, scale: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svgText], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      const ctx = canvas.getContext('2d')!;
+      ctx.setTransform(scale, 0, 0, scale, 0, 0);
+      ctx.fillStyle = BACKGROUND;
+      ctx.fillRect(0, 0, SVG_WIDTH, SVG_HEIGHT);
+      ctx.drawImage(image, 0, 0, SVG_WIDTH, SVG_HEIGHT);
+      URL.revokeObjectURL(url);
+      resolve();
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new LocalizedError('error.svgToCanvas'));
+    };
+    image.src = url;
+  });
+
+const createCanvas = (scale: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = SVG_WIDTH * scale;
+  canvas.height = SVG_HEIGHT * scale;
+  return canvas;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const exportSvg = (source: SVGSVGElement, filename = 'lassonet-graph.svg') => {
+  downloadBlob(new Blob([serializeSvg(source)], { type: 'image/svg+xml' }), filename);
+};
+
+export const exportPng = async (source: SVGSVGElement, filename = 'lassonet-graph.png') => {
+  const canvas = createCanvas(PNG_SCALE);
+  await renderToCanvas(serializeSvg(source), canvas, PNG_SCALE);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new LocalizedError('error.pngFailed');
+  downloadBlob(blob, filename);
+};
+
+// Computed styles only resolve for attached elements, so the SVG is kept in the DOM off-screen
+const createOffscreenSvg = (): { svg: SVGSVGElement, remove: () => void } => {
+  const host = document.createElement('div');
+  host.style.position = 'fixed';
+  host.style.left = '-10000px';
+  const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  svg.setAttribute('width', String(SVG_WIDTH));
+  svg.setAttribute('height', String(SVG_HEIGHT));
+  svg.setAttribute('viewBox', `0 0 ${SVG_WIDTH} ${SVG_HEIGHT}`);
+  host.appendChild(svg);
+  document.body.appendChild(host);
+  return { svg, remove: () => host.remove() };
+};
+
+// Exports for a graph shown on a canvas: the SVG file is still vector, drawn off-screen
+export const exportNetworkSvg = (options: NetworkDrawOptions, filename?: string) => {
+  const { svg, remove } = createOffscreenSvg();
+  try {
+    drawNetwork(svg, { ...options, transitionMs: 0 });
+    exportSvg(svg, filename);
+  } finally {
+    remove();
+  }
+};
+
+export const exportNetworkPng = async (options: NetworkDrawOptions, filename = 'lassonet-graph.png') => {
+  const canvas = createCanvas(PNG_SCALE);
+  paintNetwork(canvas, options, BACKGROUND);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new LocalizedError('error.pngFailed');
+  downloadBlob(blob, filename);
+};
+
+export const canRecord = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+// Replays the run from `initial` to the end of the path without touching the UI,
+// drawing each step into a hidden SVG (or straight onto the canvas for large networks) and streaming the canvas into a WebM file.
+export const recordPathVideo = async (
+  initial: SimulationState,
+  { i18n, edits = [], frameDuration = 120, onProgress }: RecordOptions
+): Promise<Blob> => {
+  if (!canRecord()) {
+    throw new LocalizedError('error.recordUnsupported');
+  }
+
+  // Walk the path once without keeping it, so progress can be reported against a known total
+  let steps = 0;
+  for (const _ of replaySteps(initial, edits)) steps++;
+  // Every stride-th snapshot plus the last one, so the video ends where the path does
+  const stride = Math.ceil(steps / (MAX_VIDEO_FRAMES - 1));
+  const isFrame = (index: number) => index % stride === 0 || index === steps - 1;
+  const frameCount = Math.floor((steps - 1) / stride) + 1 + ((steps - 1) % stride === 0 ? 0 : 1);
+
+  const { svg, remove } = createOffscreenSvg();
+  const canvas = createCanvas(1);
+  const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9') ? 'video/webm;codecs=vp9' : 'video/webm';
+  const recorder = new MediaRecorder(canvas.captureStream(), { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  try {
+    recorder.start();
+    let index = 0;
+    let done = 0;
+    for (const frame of replaySteps(initial, edits)) {
+      if (!isFrame(index++)) continue;
+      const options: NetworkDrawOptions = {
+        features: frame.features,
+        featureNames: frame.dataset.featureNames,
+        hiddenSize: frame.config.hiddenSize,
+        mConstant: frame.config.mConstant,
+        output: frame.output,
+        details: frame.calculationDetails,
+        i18n,
+        outputNames: outputNames(frame.dataset),
+        caption: frameCaption(frame, i18n)
+      };
+      if (prefersCanvas(options)) {
+        paintNetwork(canvas, options, BACKGROUND);
+      } else {
+        drawNetwork(svg, options);
+        await renderToCanvas(serializeSvg(svg), canvas, 1);
+      }
+      await new Promise(resolve => setTimeout(resolve, frameDuration));
+      onProgress?.(++done, frameCount);
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+    remove();
+  }
+
+  return new Blob(chunks, { type: 'video/webm' });
+};
@@ -0,0 +1,326 @@
+import { easeCubicOut } from 'd3';
+import { COLOR_THETA, COLOR_PINNED } from '../constants';
+import { InspectorSelection } from '../types';
+import { I18n } from '../services/i18n';
+import {
+  EdgeInfo, NetworkDrawOptions, NetworkScene, SceneArc, SceneEdge, SceneThetaLabel, buildNetworkScene, shortName, thetaLabelText
+} from './networkScene';
+
+// What sits under the pointer. Edges that can be inspected carry their math inspector selection.
+export type NetworkHit =
+  | { kind: 'input', featureId: number, x: number, y: number }
+  | { kind: 'hidden', hiddenIndex: number }
+  | { kind: 'theta', label: SceneThetaLabel }
+  | { kind: 'edge', info: EdgeInfo, selection: InspectorSelection | null };
+
+export interface CanvasNetworkRenderer {
+  canvas: HTMLCanvasElement;
+  draw: (options: NetworkDrawOptions) => void;
+  // Point in scene coordinates (the SVG viewBox), tested against what is on screen
+  hitTest: (x: number, y: number) => NetworkHit | null;
+  dispose: () => void;
+}
+
+// --- Tweening ---
+
+// Moves every numeric field of items present in both scenes; new items appear as they are
+const tweenItems = <T extends { key: string }>(from: T[], to: T[], t: number): T[] => {
+  const previous = new Map(from.map(item => [item.key, item]));
+  return to.map(item => {
+    const old = previous.get(item.key);
+    if (!old) return item;
+    const mixed: Record<string, unknown> = { ...item };
+    Object.keys(item).forEach(field => {
+      const a = (old as Record<string, unknown>)[field];
+      const b = (item as Record<string, unknown>)[field];
+      if (typeof a === 'number' && typeof b === 'number') mixed[field] = a + (b - a) * t;
+    });
+    return mixed as T;
+  });
+};
+
+const tweenScene = (from: NetworkScene, to: NetworkScene, t: number): NetworkScene => ({
+  ...to,
+  arcs: tweenItems(from.arcs, to.arcs, t),
+  thetaLabels: tweenItems(from.thetaLabels, to.thetaLabels, t),
+  edges: tweenItems(from.edges, to.edges, t),
+  denseEdges: tweenItems(from.denseEdges, to.denseEdges, t),
+  inputs: tweenItems(from.inputs, to.inputs, t),
+  hidden: tweenItems(from.hidden, to.hidden, t),
+  outputs: tweenItems(from.outputs, to.outputs, t)
+});
+
+// --- Painting ---
+
+const circle = (ctx: CanvasRenderingContext2D, x: number, y: number, r: number) => {
+  ctx.beginPath();
+  ctx.arc(x, y, Math.max(0, r), 0, 2 * Math.PI);
+};
+
+const strokeEdges = (ctx: CanvasRenderingContext2D, edges: SceneEdge[]) => {
+  edges.forEach(d => {
+    ctx.strokeStyle = d.color;
+    ctx.globalAlpha = d.opacity;
+    ctx.lineWidth = d.width;
+    ctx.beginPath();
+    ctx.moveTo(d.x1, d.y1);
+    ctx.lineTo(d.x2, d.y2);
+    ctx.stroke();
+  });
+};
+
+// Same picture as the SVG renderer, in the same order, minus what would not be legible
+// at the sizes that need a canvas (W labels, arrowheads)
+const paintScene = (canvas: HTMLCanvasElement, scene: NetworkScene, i18n: I18n, background?: string) => {
+  const ctx = canvas.getContext('2d')!;
+  const scale = canvas.width / scene.width;
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  ctx.globalAlpha = 1;
+  ctx.setLineDash([]);
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, scene.width, scene.height);
+  } else {
+    ctx.clearRect(0, 0, scene.width, scene.height);
+  }
+  ctx.lineCap = 'butt';
+
+  // --- 1. Skip Connections (Theta) ---
+  scene.arcs.forEach(d => {
+    ctx.beginPath();
+    ctx.moveTo(d.x1, d.y1);
+    ctx.quadraticCurveTo(d.cx, d.cy, d.x2, d.y2);
+    if (d.glow) {
+      ctx.setLineDash([]);
+      ctx.strokeStyle = d.glow;
+      ctx.globalAlpha = 0.3 * d.emphasis;
+      ctx.lineWidth = d.width + 8;
+      ctx.stroke();
+    }
+    ctx.setLineDash(d.dashed ? [5, 5] : []);
+    ctx.strokeStyle = COLOR_THETA;
+    ctx.globalAlpha = d.opacity;
+    ctx.lineWidth = d.width;
+    ctx.stroke();
+  });
+  ctx.setLineDash([]);
+
+  if (scene.showNames) {
+    ctx.font = 'bold 11px monospace';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    scene.thetaLabels.forEach(d => {
+      ctx.globalAlpha = 0.8 * d.opacity;
+      ctx.fillStyle = '#0f172a';
+      ctx.strokeStyle = COLOR_THETA;
+      ctx.lineWidth = 1;
+      ctx.fillRect(d.x - 25, d.y - 10, 50, 20);
+      ctx.strokeRect(d.x - 25, d.y - 10, 50, 20);
+      ctx.globalAlpha = d.opacity;
+      ctx.fillStyle = COLOR_THETA;
+      ctx.fillText(thetaLabelText(d.value, d.isNorm, i18n), d.x, d.y);
+    });
+  }
+
+  // --- 2. Hidden Connections (W), with a halo under the inspected one ---
+  scene.edges.filter(d => d.selected).forEach(d => {
+    ctx.strokeStyle = '#f8fafc';
+    ctx.globalAlpha = 0.35 * d.emphasis;
+    ctx.lineWidth = d.width + 4;
+    ctx.beginPath();
+    ctx.moveTo(d.x1, d.y1);
+    ctx.lineTo(d.x2, d.y2);
+    ctx.stroke();
+  });
+  strokeEdges(ctx, scene.edges);
+
+  // --- 3. Deeper Layers and Output ---
+  strokeEdges(ctx, scene.denseEdges);
+
+  // --- 4. Nodes ---
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  scene.inputs.forEach(d => {
+    ctx.globalAlpha = d.opacity;
+    if (d.ring) {
+      circle(ctx, d.x, d.y, d.r + 5);
+      ctx.strokeStyle = d.ring;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
+    if (d.predicted) {
+      circle(ctx, d.x, d.y, d.r + 10);
+      ctx.setLineDash([4, 3]);
+      ctx.strokeStyle = d.predicted;
+      ctx.lineWidth = 1.5;
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+    circle(ctx, d.x, d.y, d.r);
+    ctx.fillStyle = d.fill;
+    ctx.fill();
+    ctx.strokeStyle = d.stroke;
+    ctx.lineWidth = Math.min(d.strokeWidth, Math.max(0.5, d.r / 2));
+    ctx.stroke();
+    if (d.pinned) {
+      circle(ctx, d.x + d.r * 0.75, d.y - d.r * 0.75, 3);
+      ctx.fillStyle = COLOR_PINNED;
+      ctx.fill();
+    }
+    if (d.r >= 5) {
+      ctx.fillStyle = 'white';
+      ctx.font = `bold ${d.r < 14 ? 9 : 12}px sans-serif`;
+      ctx.fillText(`X${d.id}`, d.x, d.y);
+    }
+    if (scene.showNames) {
+      ctx.fillStyle = '#94a3b8';
+      ctx.font = '10px sans-serif';
+      ctx.textAlign = 'right';
+      ctx.fillText(shortName(d.name, 10), d.x - d.r - 6, d.y);
+      ctx.textAlign = 'center';
+    }
+  });
+
+  ctx.globalAlpha = 1;
+  scene.hidden.forEach(d => {
+    circle(ctx, d.x, d.y, d.r);
+    ctx.fillStyle = '#334155';
+    ctx.fill();
+    ctx.strokeStyle = d.stroke;
+    ctx.lineWidth = d.strokeWidth;
+    ctx.stroke();
+  });
+
+  ctx.font = '9px sans-serif';
+  scene.layerCaptions.forEach(d => {
+    ctx.fillStyle = d.color;
+    ctx.fillText(d.text, d.x, d.y);
+  });
+
+  scene.outputs.forEach(d => {
+    circle(ctx, d.x, d.y, d.r);
+    ctx.fillStyle = '#f59e0b';
+    ctx.fill();
+    ctx.strokeStyle = '#fff';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+    ctx.fillStyle = 'white';
+    ctx.font = `bold ${d.r < 14 ? 9 : 12}px sans-serif`;
+    ctx.fillText(d.label, d.x, d.y);
+    if (d.name) {
+      ctx.fillStyle = '#94a3b8';
+      ctx.font = '10px sans-serif';
+      ctx.textAlign = 'left';
+      ctx.fillText(shortName(d.name, 8), d.x + d.r + 4, d.y);
+      ctx.textAlign = 'center';
+    }
+  });
+
+  // --- 5. Legend and caption ---
+  ctx.textAlign = 'left';
+  if (scene.legend) {
+    const y = scene.height - 14;
+    ctx.font = '10px sans-serif';
+    ctx.fillStyle = '#94a3b8';
+    ctx.fillText(scene.legend.title, 12, y);
+    scene.legend.entries.forEach((entry, i) => {
+      const x = 12 + 90 + i * 100;
+      circle(ctx, x, y, 5);
+      ctx.setLineDash(entry.dashed ? [3, 2] : []);
+      ctx.strokeStyle = entry.color;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.fillStyle = '#94a3b8';
+      ctx.fillText(entry.label, x + 9, y);
+    });
+  }
+  if (scene.caption) {
+    ctx.font = '14px monospace';
+    ctx.fillStyle = '#e2e8f0';
+    ctx.textAlign = 'right';
+    ctx.fillText(scene.caption, scene.width - 12, 20);
+  }
+};
+
+// One frame without animation, e.g. for exports and recordings
+export const paintNetwork = (canvas: HTMLCanvasElement, options: NetworkDrawOptions, background?: string): void =>
+  paintScene(canvas, buildNetworkScene(options), options.i18n, background);
+
+// --- Hit testing ---
+
+const distanceToSegment = (x: number, y: number, d: Pick<SceneEdge, 'x1' | 'y1' | 'x2' | 'y2'>): number => {
+  const dx = d.x2 - d.x1;
+  const dy = d.y2 - d.y1;
+  const length = dx * dx + dy * dy;
+  const t = length > 0 ? Math.max(0, Math.min(1, ((x - d.x1) * dx + (y - d.y1) * dy) / length)) : 0;
+  return Math.hypot(x - (d.x1 + t * dx), y - (d.y1 + t * dy));
+};
+
+// Quadratic arc as a polyline, close enough for pointing at it
+const ARC_SEGMENTS = 16;
+const distanceToArc = (x: number, y: number, d: SceneArc): number => {
+  const at = (t: number) => ({
+    x: (1 - t) ** 2 * d.x1 + 2 * (1 - t) * t * d.cx + t * t * d.x2,
+    y: (1 - t) ** 2 * d.y1 + 2 * (1 - t) * t * d.cy + t * t * d.y2
+  });
+  let best = Infinity;
+  for (let k = 0; k < ARC_SEGMENTS; k++) {
+    const a = at(k / ARC_SEGMENTS);
+    const b = at((k + 1) / ARC_SEGMENTS);
+    best = Math.min(best, distanceToSegment(x, y, { x1: a.x, y1: a.y, x2: b.x, y2: b.y }));
+  }
+  return best;
+};
+
+// Nodes first, then θ labels, then edges, roughly the reverse of the painting order
+const hitScene = (scene: NetworkScene, x: number, y: number): NetworkHit | null => {
+  // Small nodes get a minimum target so they stay clickable
+  const input = scene.inputs.find(d => Math.hypot(x - d.x, y - d.y) <= Math.max(d.r, 4) + 2);
+  if (input) return { kind: 'input', featureId: input.id, x: input.x, y: input.y };
+  const hidden = scene.hidden.find(d => d.layer === 0 && Math.hypot(x - d.x, y - d.y) <= Math.max(d.r, 4) + 2);
+  if (hidden) return { kind: 'hidden', hiddenIndex: hidden.index };
+  const label = scene.showNames ? scene.thetaLabels.find(d => Math.abs(x - d.x) <= 25 && Math.abs(y - d.y) <= 10) : undefined;
+  if (label) return { kind: 'theta', label };
+  const edge = scene.edges.find(d => distanceToSegment(x, y, d) <= 3);
+  if (edge) return { kind: 'edge', info: edge.info, selection: { featureId: edge.featureId!, hiddenIndex: edge.hiddenIndex! } };
+  const dense = scene.denseEdges.find(d => distanceToSegment(x, y, d) <= 3);
+  if (dense) return { kind: 'edge', info: dense.info, selection: null };
+  const arc = scene.arcs.find(d => distanceToArc(x, y, d) <= 3);
+  return arc ? { kind: 'edge', info: arc.info, selection: null } : null;
+};
+
+// Canvas counterpart of drawNetwork for large networks. It keeps the scene on screen so the
+// next draw can tween from it, also from the middle of an unfinished tween.
+export const createCanvasRenderer = (canvas: HTMLCanvasElement): CanvasNetworkRenderer => {
+  let shown: NetworkScene | null = null;
+  let frame = 0;
+
+  const draw = (options: NetworkDrawOptions) => {
+    const target = buildNetworkScene(options);
+    const from = shown;
+    const duration = options.transitionMs ?? 0;
+    cancelAnimationFrame(frame);
+
+    if (!from || duration <= 0) {
+      shown = target;
+      paintScene(canvas, target, options.i18n);
+      return;
+    }
+    const start = performance.now();
+    const tick = (now: number) => {
+      const t = Math.min(1, (now - start) / duration);
+      shown = t < 1 ? tweenScene(from, target, easeCubicOut(t)) : target;
+      paintScene(canvas, shown, options.i18n);
+      if (t < 1) frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+  };
+
+  return {
+    canvas,
+    draw,
+    hitTest: (x, y) => shown && hitScene(shown, x, y),
+    dispose: () => cancelAnimationFrame(frame)
+  };
+};
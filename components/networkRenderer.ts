@@ -0,0 +1,347 @@
+import * as d3 from 'd3';
+import { COLOR_THETA, COLOR_PINNED } from '../constants';
+import {
+  EdgeInfo, NetworkDrawOptions, NetworkScene, SceneArc, SceneEdge, SceneHidden, SceneInput, SceneOutput, SceneText, SceneThetaLabel,
+  buildNetworkScene, draggedTheta, shortName, thetaLabelText
+} from './networkScene';
+
+type AnySelection<E extends d3.BaseType, D> = d3.Selection<E, D, any, any>;
+
+// Layer groups are created once, in drawing order, and reused by every later draw
+const LAYERS = [
+  'glows', 'arcs', 'arc-hits', 'halos', 'weights', 'weight-hits', 'weight-labels',
+  'dense', 'dense-hits', 'theta-labels', 'inputs', 'hidden', 'layer-captions', 'outputs', 'overlay'
+] as const;
+type LayerName = typeof LAYERS[number];
+
+const ensureLayers = (svg: AnySelection<SVGSVGElement, unknown>) => {
+  if (svg.select('g.layer-overlay').empty()) {
+    svg.selectAll("*").remove();
+    // Arrow marker
+    svg.append("defs").append("marker")
+      .attr("id", "arrowhead")
+      .attr("viewBox", "0 -5 10 10")
+      .attr("refX", 25)
+      .attr("refY", 0)
+      .attr("markerWidth", 6)
+      .attr("markerHeight", 6)
+      .attr("orient", "auto")
+      .append("path")
+      .attr("d", "M0,-5L10,0L0,5")
+      .attr("fill", "#94a3b8");
+    LAYERS.forEach(name => svg.append("g").attr("class", `layer-${name}`));
+  }
+  return (name: LayerName) => svg.select<SVGGElement>(`g.layer-${name}`);
+};
+
+const arcPath = (d: SceneArc) => `M${d.x1},${d.y1} Q${d.cx},${d.cy} ${d.x2},${d.y2}`;
+
+const line = <D extends SceneEdge>(s: AnySelection<SVGLineElement, D>) => s
+  .attr("x1", d => d.x1)
+  .attr("y1", d => d.y1)
+  .attr("x2", d => d.x2)
+  .attr("y2", d => d.y2);
+
+// Draws the whole network into an <svg>. Elements are joined by key, so a redraw updates
+// what is already there and, with transitionMs, tweens widths, positions and θ labels.
+// Shared by NetworkGraph and the frame exporter, which renders into a detached element.
+export const drawNetwork = (svgElement: SVGSVGElement, options: NetworkDrawOptions): void => {
+  const scene = buildNetworkScene(options);
+  const { i18n, onHighlight, onSelect, onFeatureMenu, onEditTheta, onEdgeHover } = options;
+  const duration = options.transitionMs ?? 0;
+  const layer = ensureLayers(d3.select(svgElement));
+
+  // A transition takes the same attribute calls as a selection, so the styling below is
+  // written once and either applied directly or tweened
+  const animate = <E extends d3.BaseType, D>(selection: AnySelection<E, D>): AnySelection<E, D> =>
+    duration > 0
+      ? selection.transition().duration(duration).ease(d3.easeCubicOut) as unknown as AnySelection<E, D>
+      : selection;
+
+  // Tooltips follow the pointer, in viewBox coordinates
+  const hoverable = <E extends d3.BaseType, D extends { info: EdgeInfo }>(selection: AnySelection<E, D>) => selection
+    .on("mousemove", (event, d) => {
+      const [x, y] = d3.pointer(event, svgElement);
+      onEdgeHover?.(d.info, x, y);
+    })
+    .on("mouseleave", () => onEdgeHover?.(null, 0, 0));
+
+  // Keyed enter/update/exit: `init` sets what never changes, `style` what does. New elements
+  // get their style at once; existing ones move to it.
+  const join = <E extends d3.BaseType, D extends { key: string }>(
+    name: LayerName,
+    tag: string,
+    data: D[],
+    style: (selection: AnySelection<E, D>) => unknown,
+    init?: (selection: AnySelection<E, D>) => unknown
+  ): AnySelection<E, D> => {
+    const joined = layer(name).selectAll<E, D>(`:scope > ${tag}`)
+      .data(data, d => d.key)
+      .join(
+        enter => {
+          const entered = enter.append(tag) as unknown as AnySelection<E, D>;
+          init?.(entered);
+          style(entered);
+          return entered;
+        },
+        update => update,
+        exit => exit.remove()
+      );
+    style(animate(joined));
+    return joined;
+  };
+
+  // --- 1. Skip Connections (Theta) ---
+
+  // Glow under the arcs the AI flags as shrinking or about to be eliminated
+  join<SVGPathElement, SceneArc>('glows', 'path', scene.arcs.filter(d => d.glow !== null), s => s
+    .attr("d", arcPath)
+    .attr("stroke", d => d.glow!)
+    .attr("stroke-width", d => d.width + 8)
+    .attr("stroke-opacity", d => 0.3 * d.emphasis),
+    s => s.attr("fill", "none").attr("stroke-linecap", "round"));
+
+  join<SVGPathElement, SceneArc>('arcs', 'path', scene.arcs, s => s
+    .attr("d", arcPath)
+    .attr("stroke-width", d => d.width)
+    .attr("stroke-opacity", d => d.opacity)
+    .attr("stroke-dasharray", d => d.dashed ? "5,5" : "none"),
+    s => s.attr("fill", "none").attr("stroke", COLOR_THETA));
+
+  // Wider invisible arcs carry the tooltips
+  join<SVGPathElement, SceneArc>('arc-hits', 'path', onEdgeHover ? scene.arcs : [], s => s.attr("d", arcPath),
+    s => s.attr("fill", "none").attr("stroke", "transparent").attr("stroke-width", 8))
+    .call(hoverable);
+
+  // --- 2. Hidden Connections (W) ---
+
+  // Halo under the W entry shown in the math inspector
+  join<SVGLineElement, SceneEdge>('halos', 'line', scene.edges.filter(d => d.selected), s => line(s)
+    .attr("stroke-width", d => d.width + 4)
+    .attr("stroke-opacity", d => 0.35 * d.emphasis),
+    s => s.attr("stroke", "#f8fafc").attr("stroke-linecap", "round"));
+
+  join<SVGLineElement, SceneEdge>('weights', 'line', scene.edges, s => line(s)
+    .attr("stroke", d => d.color)
+    .attr("stroke-width", d => d.width)
+    .attr("stroke-opacity", d => d.opacity));
+
+  // Wider invisible line so thin edges are easy to click
+  join<SVGLineElement, SceneEdge>('weight-hits', 'line', onSelect || onEdgeHover ? scene.edges : [], line,
+    s => s.attr("stroke", "transparent").attr("stroke-width", 8))
+    .style("cursor", onSelect ? "pointer" : null)
+    .on("click", (_, d) => onSelect?.({ featureId: d.featureId, hiddenIndex: d.hiddenIndex }))
+    .call(hoverable);
+
+  // Weight Labels (Only show for first feature or significantly large ones to avoid clutter)
+  join<SVGTextElement, SceneEdge>('weight-labels', 'text', scene.edges.filter(d => d.label), s => s
+    .attr("x", d => (d.x1 + d.x2) / 2)
+    .attr("y", d => (d.y1 + d.y2) / 2)
+    .attr("fill", d => d.label!.color)
+    .attr("opacity", d => 0.8 * d.emphasis),
+    s => s.attr("font-size", "9px"))
+    .text(d => i18n.num(d.label!.value, 2));
+
+  // --- 3. Deeper Layers and Output ---
+  join<SVGLineElement, SceneEdge>('dense', 'line', scene.denseEdges, s => line(s)
+    .attr("stroke", d => d.color)
+    .attr("stroke-width", d => d.width)
+    .attr("stroke-opacity", d => d.opacity))
+    .attr("marker-end", d => d.arrow ? "url(#arrowhead)" : null);
+
+  join<SVGLineElement, SceneEdge>('dense-hits', 'line', onEdgeHover ? scene.denseEdges : [], line,
+    s => s.attr("stroke", "transparent").attr("stroke-width", 6))
+    .call(hoverable);
+
+  // Theta Labels (Background Box), above the edges so they can be grabbed; the number
+  // counts towards its new value
+  const thetaLabels = join<SVGGElement, SceneThetaLabel>('theta-labels', 'g', scene.showNames ? scene.thetaLabels : [], s => s
+    .attr("transform", d => `translate(${d.x}, ${d.y})`)
+    .attr("opacity", d => d.opacity),
+    s => {
+      s.append("rect")
+        .attr("x", -25)
+        .attr("y", -10)
+        .attr("width", 50)
+        .attr("height", 20)
+        .attr("rx", 4)
+        .attr("fill", "#0f172a")
+        .attr("stroke", COLOR_THETA)
+        .attr("stroke-width", 1)
+        .attr("opacity", 0.8);
+      s.append("text")
+        .attr("dy", 4)
+        .attr("text-anchor", "middle")
+        .attr("fill", COLOR_THETA)
+        .attr("font-size", "11px")
+        .attr("font-family", "monospace")
+        .attr("font-weight", "bold");
+      s.append("title");
+    });
+
+  // Dragging a label up or down previews the new θ in the label and sets it on release
+  thetaLabels
+    .style("cursor", onEditTheta ? "ns-resize" : null)
+    .on(".drag", null);
+  thetaLabels.select("title").text(onEditTheta ? i18n.t('graph.dragTheta') : "");
+  if (onEditTheta) {
+    thetaLabels.call(d3.drag<SVGGElement, SceneThetaLabel>()
+      .on("start", function () {
+        d3.select(this).select("rect").attr("stroke-width", 2);
+      })
+      .on("drag", function (event, d) {
+        d3.select(this).select("text").text(thetaLabelText(draggedTheta(d, event.y - d.y), d.isNorm, i18n));
+      })
+      .on("end", function (event, d) {
+        d3.select(this).select("rect").attr("stroke-width", 1);
+        const value = draggedTheta(d, event.y - d.y);
+        if (value !== d.value) onEditTheta(d.featureId, value);
+        else d3.select(this).select("text").text(thetaLabelText(d.value, d.isNorm, i18n));
+      }));
+  }
+
+  const labelTexts = thetaLabels.select<SVGTextElement>("text");
+  if (duration > 0) {
+    labelTexts.transition().duration(duration).ease(d3.easeCubicOut).tween("text", function (d) {
+      const previous = this.getAttribute("data-value");
+      const value = d3.interpolateNumber(previous === null ? d.value : Number(previous), d.value);
+      this.setAttribute("data-value", String(d.value));
+      return t => { this.textContent = thetaLabelText(value(t), d.isNorm, i18n); };
+    });
+  } else {
+    labelTexts
+      .attr("data-value", d => d.value)
+      .text(d => thetaLabelText(d.value, d.isNorm, i18n));
+  }
+
+  // --- 4. Nodes ---
+
+  // Input Nodes: AI verdict ring, dashed outer ring on the predicted next elimination,
+  // then the node, its number and the column name on the left
+  const inputs = join<SVGGElement, SceneInput>('inputs', 'g', scene.inputs, s => s
+    .attr("transform", d => `translate(${d.x},${d.y})`)
+    .attr("opacity", d => d.opacity),
+    s => {
+      s.append("circle").attr("class", "ring").attr("fill", "none").attr("stroke-width", 2);
+      s.append("circle").attr("class", "predicted").attr("fill", "none").attr("stroke-width", 1.5).attr("stroke-dasharray", "4,3");
+      s.append("circle").attr("class", "node");
+      s.append("circle").attr("class", "pin").attr("r", 3).attr("fill", COLOR_PINNED).attr("stroke", "#0f172a");
+      s.append("text").attr("class", "id").attr("dy", 5).attr("text-anchor", "middle").attr("fill", "white").style("font-weight", "bold");
+      s.append("text").attr("class", "name").attr("dy", 4).attr("text-anchor", "end").attr("fill", "#94a3b8").attr("font-size", "10px");
+    })
+    .style("cursor", "pointer")
+    .on("mouseenter", (_, d) => onHighlight?.(d.id))
+    .on("mouseleave", () => onHighlight?.(null))
+    .on("click", (_, d) => {
+      onSelect?.({ featureId: d.id });
+      onFeatureMenu?.(d.id, d.x, d.y);
+    });
+
+  inputs.select(".ring")
+    .attr("display", d => d.ring ? null : "none")
+    .attr("r", d => d.r + 5)
+    .attr("stroke", d => d.ring);
+  inputs.select(".predicted")
+    .attr("display", d => d.predicted ? null : "none")
+    .attr("r", d => d.r + 10)
+    .attr("stroke", d => d.predicted);
+  animate(inputs.select<SVGCircleElement>(".node"))
+    .attr("r", d => d.r)
+    .attr("fill", d => d.fill)
+    .attr("stroke", d => d.stroke)
+    .attr("stroke-width", d => d.strokeWidth);
+  // Pinned features (ω = 0) get a dot on the upper right
+  inputs.select(".pin")
+    .attr("display", d => d.pinned ? null : "none")
+    .attr("cx", d => d.r * 0.75)
+    .attr("cy", d => -d.r * 0.75);
+  inputs.select(".id")
+    .text(d => `X${d.id}`)
+    .attr("font-size", d => d.r < 14 ? "9px" : null)
+    .attr("display", d => d.r < 5 ? "none" : null);
+  // Column names from the dataset, left of the node
+  inputs.select(".name")
+    .text(d => shortName(d.name, 10))
+    .attr("x", d => -d.r - 6)
+    .attr("display", scene.showNames ? null : "none");
+
+  // Hidden Nodes; only the first layer holds W entries to inspect
+  join<SVGCircleElement, SceneHidden>('hidden', 'circle', scene.hidden, s => s
+    .attr("cx", d => d.x)
+    .attr("cy", d => d.y)
+    .attr("r", d => d.r)
+    .attr("stroke", d => d.stroke)
+    .attr("stroke-width", d => d.strokeWidth),
+    s => s.attr("fill", "#334155"))
+    .style("cursor", d => onSelect && d.layer === 0 ? "pointer" : null)
+    .on("click", (_, d) => {
+      if (d.layer === 0) onSelect?.({ hiddenIndex: d.index });
+    });
+
+  join<SVGTextElement, SceneText>('layer-captions', 'text', scene.layerCaptions, s => s
+    .attr("x", d => d.x)
+    .attr("y", d => d.y),
+    s => s.attr("text-anchor", "middle").attr("font-size", "9px"))
+    .text(d => d.text)
+    .attr("fill", d => d.color);
+
+  // Output Nodes, with the class name right of the node
+  const outputs = join<SVGGElement, SceneOutput>('outputs', 'g', scene.outputs, s => s
+    .attr("transform", d => `translate(${d.x},${d.y})`),
+    s => {
+      s.append("circle").attr("fill", "#f59e0b").attr("stroke", "#fff").attr("stroke-width", 2);
+      s.append("text").attr("class", "label").attr("dy", 5).attr("text-anchor", "middle").attr("fill", "white").attr("font-weight", "bold");
+      s.append("text").attr("class", "name").attr("dy", 4).attr("fill", "#94a3b8").attr("font-size", "10px");
+    });
+  outputs.select("circle").attr("r", d => d.r);
+  outputs.select(".label")
+    .text(d => d.label)
+    .attr("font-size", d => d.r < 14 ? "9px" : null);
+  outputs.select(".name")
+    .text(d => d.name ? shortName(d.name, 8) : "")
+    .attr("x", d => d.r + 4);
+
+  drawOverlay(layer('overlay'), scene);
+};
+
+// Legend and frame caption: a handful of elements, simply redrawn
+const drawOverlay = (overlay: AnySelection<SVGGElement, unknown>, scene: NetworkScene) => {
+  overlay.selectAll("*").remove();
+
+  // Legend for the AI highlights
+  if (scene.legend) {
+    const legend = overlay.append("g").attr("transform", `translate(12, ${scene.height - 14})`);
+    legend.append("text")
+      .text(scene.legend.title)
+      .attr("dy", 4)
+      .attr("fill", "#94a3b8")
+      .attr("font-size", "10px");
+    scene.legend.entries.forEach((entry, i) => {
+      const item = legend.append("g").attr("transform", `translate(${90 + i * 100}, 0)`);
+      item.append("circle")
+        .attr("r", 5)
+        .attr("fill", "none")
+        .attr("stroke", entry.color)
+        .attr("stroke-width", 2)
+        .attr("stroke-dasharray", entry.dashed ? "3,2" : null);
+      item.append("text")
+        .text(entry.label)
+        .attr("x", 9)
+        .attr("dy", 4)
+        .attr("fill", "#94a3b8")
+        .attr("font-size", "10px");
+    });
+  }
+
+  // Frame caption (λ, epoch, step) for exported images and recordings
+  if (scene.caption) {
+    overlay.append("text")
+      .text(scene.caption)
+      .attr("x", scene.width - 12)
+      .attr("y", 20)
+      .attr("text-anchor", "end")
+      .attr("fill", "#e2e8f0")
+      .attr("font-size", "14px")
+      .attr("font-family", "monospace");
+  }
+};
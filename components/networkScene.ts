@@ -0,0 +1,393 @@
+import { FeatureVerdict, InspectorSelection, OptimizationStep, OutputLayer, StepCalculationDetails, StructuredAnalysis, WeightData } from '../types';
+import {
+  SVG_WIDTH, SVG_HEIGHT, NODE_RADIUS, NETWORK_CANVAS_EDGES, THETA_DRAG_PER_PX,
+  COLOR_ACTIVE, COLOR_INACTIVE, COLOR_WEIGHT, COLOR_CLAMPED, COLOR_DEEP, VERDICT_COLORS, featureColor
+} from '../constants';
+import { I18n, LocalizedMessage } from '../services/i18n';
+
+export interface NetworkDrawOptions {
+  features: WeightData[];
+  featureNames: string[];
+  hiddenSize: number;
+  mConstant: number;
+  // Weights after the first hidden layer: the deeper layers and v
+  output: OutputLayer;
+  // Step that produced these weights; W entries its proximal step cut back are drawn as clamped
+  details?: StepCalculationDetails | null;
+  i18n: I18n;
+  // One node per output; a single regression target when omitted
+  outputNames?: string[];
+  highlightedFeature?: number | null;
+  onHighlight?: (featureId: number | null) => void;
+  // W entry shown in the math inspector; clicking a node or edge changes it
+  selection?: InspectorSelection | null;
+  onSelect?: (change: Partial<InspectorSelection>) => void;
+  caption?: string;
+  // Latest structured AI analysis; its verdicts are drawn as rings and edge glows
+  verdicts?: StructuredAnalysis | null;
+  // Tween from the previous frame; 0 (the default) jumps, as exported frames need
+  transitionMs?: number;
+  // Manual editing: clicking an input opens its menu at (x, y), θ labels can be dragged
+  onFeatureMenu?: (featureId: number, x: number, y: number) => void;
+  onEditTheta?: (featureId: number, value: number) => void;
+  // Pointer over an edge, at (x, y); null when it leaves
+  onEdgeHover?: (info: EdgeInfo | null, x: number, y: number) => void;
+}
+
+// What the tooltip of an edge shows
+export interface EdgeInfo {
+  title: LocalizedMessage; // Translated only when the tooltip shows
+  value: number;
+  gradient: number;
+  limit: number | null; // M·|θ| for θ and first-layer W; deeper weights have no bound
+  clamped: boolean;
+}
+
+// --- Scene ---
+// Everything both renderers draw, already laid out and styled. Items carry a stable key
+// so consecutive scenes can be matched up and animated.
+
+export interface SceneArc {
+  key: string;
+  featureId: number;
+  x1: number; y1: number; cx: number; cy: number; x2: number; y2: number;
+  width: number;
+  opacity: number;
+  emphasis: number; // Dimmed while another feature is highlighted
+  dashed: boolean;
+  glow: string | null; // AI verdict color drawn underneath
+  info: EdgeInfo;
+}
+
+export interface SceneThetaLabel {
+  key: string;
+  featureId: number;
+  x: number; y: number;
+  value: number;
+  isNorm: boolean; // ‖θ‖₂ of a θ vector rather than a signed θ
+  opacity: number;
+}
+
+export interface SceneEdge {
+  key: string;
+  x1: number; y1: number; x2: number; y2: number;
+  color: string;
+  width: number;
+  opacity: number;
+  emphasis: number;
+  arrow: boolean;
+  // Set on first-layer W edges, which can be selected for the math inspector
+  featureId?: number;
+  hiddenIndex?: number;
+  selected?: boolean;
+  label?: { value: number, color: string } | null;
+  info: EdgeInfo;
+}
+
+export interface SceneInput {
+  key: string;
+  id: number;
+  x: number; y: number; r: number;
+  name: string;
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  opacity: number;
+  ring: string | null;      // AI verdict
+  predicted: string | null; // Outer ring when the AI predicts it is eliminated next
+  pinned: boolean;
+}
+
+export interface SceneHidden {
+  key: string;
+  layer: number;
+  index: number;
+  x: number; y: number; r: number;
+  stroke: string;
+  strokeWidth: number;
+}
+
+export interface SceneOutput {
+  key: string;
+  x: number; y: number; r: number;
+  label: string;
+  name: string | null; // Class name, none for the regression target
+}
+
+export interface SceneText {
+  key: string;
+  x: number; y: number;
+  text: string;
+  color: string;
+}
+
+export interface NetworkScene {
+  width: number;
+  height: number;
+  arcs: SceneArc[];
+  thetaLabels: SceneThetaLabel[];
+  edges: SceneEdge[];      // Input -> first hidden layer
+  denseEdges: SceneEdge[]; // Between hidden layers and into the outputs
+  inputs: SceneInput[];
+  hidden: SceneHidden[];
+  outputs: SceneOutput[];
+  layerCaptions: SceneText[];
+  legend: { title: string, entries: { color: string, label: string, dashed: boolean }[] } | null;
+  caption: string | null;
+  showNames: boolean; // Column names and θ labels only fit while inputs are spaced apart
+}
+
+// Past this many edges the SVG has too many elements to animate, so the graph draws on a canvas
+export const prefersCanvas = (options: Pick<NetworkDrawOptions, 'features' | 'hiddenSize' | 'output'>): boolean => {
+  const widths = [options.hiddenSize, ...options.output.deepLayers.map(layer => layer.u.length)];
+  const dense = widths.slice(1).reduce((sum, units, l) => sum + units * widths[l], 0);
+  const edges = options.features.length * (options.hiddenSize + options.output.v.length) + dense;
+  return edges > NETWORK_CANVAS_EDGES;
+};
+
+export const buildNetworkScene = (options: NetworkDrawOptions): NetworkScene => {
+  const { features, featureNames, hiddenSize, mConstant, output, i18n } = options;
+  const selection = options.selection ?? null;
+  const highlightedFeature = options.highlightedFeature ?? null;
+  const verdicts = options.verdicts ?? null;
+  const outputNames = options.outputNames ?? ['Y'];
+  const verdictOf = (id: number) => verdicts?.features.find(v => v.featureId === id)?.verdict;
+  // Clamping is what the last proximal step did; a gradient step clears it, like WeightData.isClamped
+  const clampedMasks = new Map(options.details?.stepType === OptimizationStep.PROXIMAL
+    ? options.details.features.map(d => [d.featureId, d.clampedMask])
+    : []);
+  const isPredictedNext = (id: number) => verdicts?.nextElimination === id;
+
+  const width = SVG_WIDTH;
+  const height = SVG_HEIGHT;
+  const layerSpacing = width / 3;
+
+  // --- Node Positions ---
+  const inputSpacing = height / (features.length + 1);
+  // Shrink input nodes when the dataset has many columns so they don't overlap
+  const inputRadius = Math.min(NODE_RADIUS, inputSpacing * 0.4);
+  const inputPositions = features.map((_, i) => ({ x: 130, y: inputSpacing * (i + 1) })); // x leaves room for column names
+
+  // One column per hidden layer, spread between the first layer and the outputs
+  const hiddenWidths = [hiddenSize, ...output.deepLayers.map(layer => layer.u.length)];
+  const firstHiddenX = 80 + layerSpacing;
+  const columnSpacing = (width - 80 - firstHiddenX) / hiddenWidths.length;
+  const hiddenRadius = Math.min(10, ...hiddenWidths.map(units => (height / (units + 1)) * 0.4));
+  const hiddenColumns = hiddenWidths.map((units, l) => Array.from({ length: units }, (_, i) => ({
+    x: firstHiddenX + l * columnSpacing,
+    y: (height / (units + 1)) * (i + 1)
+  })));
+
+  const outputSpacing = height / (outputNames.length + 1);
+  const outputRadius = Math.min(25, outputSpacing * 0.4);
+  const outputPositions = outputNames.map((_, c) => ({ x: width - 80, y: outputSpacing * (c + 1) }));
+
+  // Dim everything that doesn't belong to the highlighted feature (synced with the path chart)
+  const emphasis = (id: number) => highlightedFeature === null || highlightedFeature === id ? 1 : 0.2;
+  const featureLabel = (i: number) => shortName(featureNames[i] ?? `X${i + 1}`, 12);
+
+  // --- 1. Skip Connections (Theta) ---
+  // One arc per feature and output; arcs of a feature share the control point that carries the label
+  const arcs: SceneArc[] = [];
+  const thetaLabels: SceneThetaLabel[] = [];
+  features.forEach((f, i) => {
+    const source = inputPositions[i];
+    const cx = (source.x + width - 80) / 2;
+    // Arch away from center to avoid crossing hidden layer messily
+    const cy = source.y < height / 2 ? source.y - 100 : source.y + 100;
+    // Glow under the arcs the AI flags as shrinking or about to be eliminated
+    const glow = !f.isActive ? null
+      : isPredictedNext(f.id) ? VERDICT_COLORS[FeatureVerdict.ELIMINATED]
+      : verdictOf(f.id) === FeatureVerdict.SHRINKING ? VERDICT_COLORS[FeatureVerdict.SHRINKING]
+      : null;
+
+    outputPositions.forEach((target, c) => {
+      arcs.push({
+        key: `${f.id}-${c}`,
+        featureId: f.id,
+        x1: source.x, y1: source.y, cx, cy, x2: target.x, y2: target.y,
+        width: Math.max(1, Math.abs(f.thetas[c] ?? 0) * 8),
+        opacity: (f.isActive ? 0.6 : 0.1) * emphasis(f.id),
+        emphasis: emphasis(f.id),
+        dashed: !f.isActive,
+        glow,
+        info: {
+          title: { key: 'graph.tooltipTheta', params: { feature: featureLabel(i), output: outputNames[c] } },
+          value: f.thetas[c] ?? 0,
+          gradient: f.gradTheta[c] ?? 0,
+          limit: mConstant * Math.abs(f.theta),
+          clamped: f.isClamped
+        }
+      });
+    });
+    thetaLabels.push({
+      key: String(f.id),
+      featureId: f.id,
+      x: cx,
+      y: cy,
+      value: f.theta,
+      isNorm: outputNames.length > 1,
+      opacity: emphasis(f.id)
+    });
+  });
+
+  // --- 2. Hidden Connections (W) ---
+  const edges: SceneEdge[] = features.flatMap((f, i) => f.w.map((wVal, j) => {
+    const source = inputPositions[i];
+    const target = hiddenColumns[0][j];
+    const isMaxed = f.isActive && (clampedMasks.get(f.id)?.[j] ?? false);
+    // Weight labels only on the first feature or the middle unit, to avoid clutter
+    const hasLabel = f.isActive && Math.abs(wVal) > 0.1 && (i === 0 || j === Math.floor(hiddenSize / 2));
+    return {
+      key: `${f.id}-${j}`,
+      x1: source.x, y1: source.y, x2: target.x, y2: target.y,
+      color: isMaxed ? COLOR_CLAMPED : COLOR_WEIGHT,
+      width: Math.max(0.5, Math.abs(wVal) * 4),
+      // Clamped edges stand out when the AI reports the constraint as active
+      opacity: (f.isActive ? (isMaxed && verdicts?.constraintActive ? 0.9 : 0.4) : 0.05) * emphasis(f.id),
+      emphasis: emphasis(f.id),
+      arrow: false,
+      featureId: f.id,
+      hiddenIndex: j,
+      selected: selection?.featureId === f.id && selection.hiddenIndex === j,
+      label: hasLabel ? { value: wVal, color: isMaxed ? COLOR_CLAMPED : "#a855f7" } : null,
+      info: {
+        title: { key: 'graph.tooltipWeight', params: { feature: featureLabel(i), unit: String(j + 1) } },
+        value: wVal,
+        gradient: f.gradW[j] ?? 0,
+        limit: mConstant * Math.abs(f.theta),
+        clamped: isMaxed
+      }
+    };
+  }));
+
+  // --- 3. Deeper Layers and Output ---
+  // Trained without the hierarchy bound, so edge widths follow the weights alone
+  const dense = (
+    from: { x: number, y: number }[],
+    to: { x: number, y: number }[],
+    weights: number[][],
+    grads: number[][],
+    names: { from: (col: number) => string, to: (row: number) => string },
+    prefix: string,
+    arrow: boolean
+  ): SceneEdge[] =>
+    to.flatMap((target, row) => from.map((source, col) => {
+      const value = weights[row]?.[col] ?? 0;
+      return {
+        key: `${prefix}-${row}-${col}`,
+        x1: source.x, y1: source.y, x2: target.x, y2: target.y,
+        color: COLOR_DEEP,
+        width: Math.max(0.5, Math.abs(value) * 4),
+        opacity: 0.15 + 0.35 * Math.min(1, Math.abs(value)),
+        emphasis: 1,
+        arrow,
+        info: {
+          title: { key: 'graph.tooltipDense', params: { from: names.from(col), to: names.to(row) } },
+          value,
+          gradient: grads[row]?.[col] ?? 0,
+          limit: null,
+          clamped: false
+        }
+      };
+    }));
+  // Hidden units are named by layer and index, h2.3 being unit 3 of the second hidden layer
+  const unitName = (l: number) => (j: number) => l === 0 ? `h${j + 1}` : `h${l + 1}.${j + 1}`;
+  const lastHidden = hiddenColumns.length - 1;
+  const denseEdges = [
+    ...output.deepLayers.flatMap((layer, l) =>
+      dense(hiddenColumns[l], hiddenColumns[l + 1], layer.u, layer.gradU, { from: unitName(l), to: unitName(l + 1) }, `u${l}`, false)),
+    ...dense(hiddenColumns[lastHidden], outputPositions, output.v, output.gradV, { from: unitName(lastHidden), to: c => outputNames[c] }, 'v', outputNames.length === 1)
+  ];
+
+  // --- 4. Nodes ---
+  const inputs: SceneInput[] = features.map((f, i) => {
+    const verdict = verdictOf(f.id);
+    return {
+      key: String(f.id),
+      id: f.id,
+      ...inputPositions[i],
+      r: inputRadius,
+      name: featureNames[i] ?? `X${f.id}`,
+      fill: f.isActive ? COLOR_ACTIVE : COLOR_INACTIVE,
+      stroke: highlightedFeature === f.id ? featureColor(f.id) : "#fff",
+      strokeWidth: highlightedFeature === f.id ? 4 : 2,
+      opacity: Math.max(0.4, emphasis(f.id)),
+      ring: verdict !== undefined ? VERDICT_COLORS[verdict] : null,
+      predicted: isPredictedNext(f.id) ? VERDICT_COLORS[FeatureVerdict.ELIMINATED] : null,
+      pinned: f.penaltyWeight === 0
+    };
+  });
+
+  const hidden: SceneHidden[] = hiddenColumns.flatMap((column, l) => column.map((position, j) => {
+    const isSelected = l === 0 && selection?.hiddenIndex === j;
+    return {
+      key: `${l}-${j}`,
+      layer: l,
+      index: j,
+      ...position,
+      r: hiddenRadius,
+      stroke: isSelected ? "#f8fafc" : "#94a3b8",
+      strokeWidth: isSelected ? 2 : 1
+    };
+  }));
+
+  const outputs: SceneOutput[] = outputNames.map((name, c) => ({
+    key: String(c),
+    ...outputPositions[c],
+    r: outputRadius,
+    label: outputNames.length > 1 ? `Y${c + 1}` : "Y",
+    // Class names right of the node, unless this is the plain regression target
+    name: name !== 'Y' ? name : null
+  }));
+
+  // Caption over each column telling which one the hierarchy bounds
+  const layerCaptions: SceneText[] = hiddenColumns.length > 1
+    ? hiddenColumns.filter(column => column.length > 0).map((column, l) => ({
+        key: String(l),
+        x: column[0].x,
+        y: column[0].y - hiddenRadius - 6,
+        text: i18n.t(l === 0 ? 'graph.constrainedLayer' : 'graph.freeLayer'),
+        color: l === 0 ? COLOR_CLAMPED : COLOR_DEEP
+      }))
+    : [];
+
+  // Legend for the AI highlights
+  const legend = verdicts && {
+    title: i18n.t('graph.aiLegend', { step: verdicts.stepIndex }),
+    entries: [
+      ...Object.values(FeatureVerdict).map(v => ({ color: VERDICT_COLORS[v], label: i18n.t(`verdict.${v}`), dashed: false })),
+      { color: VERDICT_COLORS[FeatureVerdict.ELIMINATED], label: i18n.t('graph.predictedNext'), dashed: true }
+    ]
+  };
+
+  return {
+    width,
+    height,
+    arcs,
+    thetaLabels,
+    edges,
+    denseEdges,
+    inputs,
+    hidden,
+    outputs,
+    layerCaptions,
+    legend,
+    caption: options.caption ?? null,
+    showNames: inputSpacing >= 12
+  };
+};
+
+// θ label text: the signed θ, or the norm of a θ vector
+export const thetaLabelText = (value: number, isNorm: boolean, i18n: I18n): string =>
+  isNorm ? `‖${i18n.num(value, 2)}‖` : i18n.num(value, 3);
+
+// θ that a label dragged by dy pixels stands for; a norm cannot go below 0
+export const draggedTheta = (d: Pick<SceneThetaLabel, 'value' | 'isNorm'>, dy: number): number => {
+  if (dy === 0) return d.value;
+  const value = Math.round((d.value - dy * THETA_DRAG_PER_PX) * 1000) / 1000;
+  return d.isNorm ? Math.max(0, value) : value;
+};
+
+// Column names are cut short so they fit left of the node
+export const shortName = (name: string, max: number): string => name.length > max ? `${name.slice(0, max - 1)}…` : name;
@@ -1,18 +1,106 @@
+import { AnalysisProviderId, AnalysisSettings, FeatureVerdict, InnerLoop, Locale, LambdaSchedule, OptimizerType, PenaltyType, ProximalMode, SignalType, SimulationConfig, SyntheticDatasetSpec } from './types';
 
-export const NUM_FEATURES = 3;
-export const HIDDEN_SIZE = 5;
-export const M_CONSTANT = 2.0; // Hierarchy coefficient (slightly higher to make clamping obvious)
-export const MAX_LAMBDA = 2.0;
-export const LAMBDA_STEP = 0.2;
-export const EPOCHS_PER_LAMBDA = 5; // Fewer epochs to make the path faster to watch
-export const LEARNING_RATE = 0.1;
+export const DATA_SEED = 42;
+export const DEFAULT_LOCALE = Locale.VI;
+
+export const DEFAULT_CONFIG: SimulationConfig = {
+  hiddenSize: 5,
+  deepLayers: [],
+  mConstant: 2.0, // Hierarchy coefficient (slightly higher to make clamping obvious)
+  learningRate: 0.1,
+  pretrainEpochs: 5,
+  maxLambda: 2.0,
+  lambdaStep: 0.2,
+  epochsPerLambda: 5, // Fewer epochs to make the path faster to watch
+  lambdaSchedule: LambdaSchedule.LINEAR,
+  lambdaStart: 0.05,
+  lambdaGrowth: 0.2, // Paper uses ~0.02; larger so the path stays watchable
+  innerLoop: InnerLoop.FIXED_EPOCHS,
+  tolerance: 1e-3,
+  patience: 2,
+  maxEpochsPerLambda: 50,
+  proximalMode: ProximalMode.THRESHOLD_CLAMP,
+  optimizer: OptimizerType.SGD,
+  momentum: 0.9,
+  adamBeta1: 0.9,
+  adamBeta2: 0.999,
+  lineSearchShrink: 0.5,
+  validationFraction: 0.25,
+  penalty: PenaltyType.L1,
+  penaltyGamma: 3.7, // SCAD's usual a; also a reasonable γ for MCP
+  adaptiveWeights: false,
+  unpenalizedFeatures: [],
+  seed: DATA_SEED
+};
+
+export const ADAM_EPSILON = 1e-8;
+export const MAX_BACKTRACKS = 20; // Line search gives up and takes the smallest step after this many reductions
+
+// Oldest snapshots are dropped past this many steps. A snapshot grows with the network
+// (weights, gradients, step details and optimizer buffers for every parameter), so large
+// networks keep fewer: at most HISTORY_PARAMETER_BUDGET parameters summed over the history.
+export const MAX_HISTORY = 20000;
+export const MIN_HISTORY = 100;
+export const HISTORY_PARAMETER_BUDGET = 5_000_000;
+
+// Data
+export const DUPLICATE_NOISE = 0.1; // Std of the perturbation on correlated duplicates
+export const DEFAULT_DATASET_SPEC: SyntheticDatasetSpec = {
+  signal: SignalType.MIXED,
+  numSignal: 2,
+  numDuplicates: 0,
+  numNoise: 1,
+  numSamples: 60,
+  noise: 0.1,
+  numClasses: 0,
+  seed: DATA_SEED
+};
 
 // Visual constants
 export const NODE_RADIUS = 24;
 export const SVG_WIDTH = 900;
 export const SVG_HEIGHT = 500;
+export const NETWORK_TRANSITION_MS = 300; // Tween between steps; a new step mid-tween continues from where it is
+export const NETWORK_CANVAS_EDGES = 2000; // Above this many edges the graph is drawn on a canvas
 export const COLOR_ACTIVE = "#3b82f6"; // Blue-500
 export const COLOR_INACTIVE = "#475569"; // Slate-600
 export const COLOR_THETA = "#10b981"; // Emerald-500
 export const COLOR_WEIGHT = "#a855f7"; // Purple-500
 export const COLOR_CLAMPED = "#f59e0b"; // Amber-500 (Warning color for hierarchy constraint)
+export const COLOR_DEEP = "#94a3b8"; // Slate-400 (Unconstrained weights after the first hidden layer)
+export const COLOR_PINNED = "#38bdf8"; // Sky-400 (Features pinned by hand, ω = 0)
+export const THETA_DRAG_PER_PX = 0.01; // θ change per pixel when dragging a θ label
+
+// One color per feature in the path chart (Tableau 10)
+const FEATURE_PALETTE = ["#4e79a7", "#f28e2c", "#e15759", "#76b7b2", "#59a14f", "#edc949", "#af7aa1", "#ff9da7", "#9c755f", "#bab0ab"];
+export const featureColor = (id: number): string => FEATURE_PALETTE[(id - 1) % FEATURE_PALETTE.length];
+
+// AI verdict highlights
+export const VERDICT_COLORS: Record<FeatureVerdict, string> = {
+  [FeatureVerdict.KEPT]: "#10b981",       // Emerald-500
+  [FeatureVerdict.SHRINKING]: "#f59e0b",  // Amber-500
+  [FeatureVerdict.ELIMINATED]: "#ef4444"  // Red-500
+};
+
+export const PATH_CHART_WIDTH = 900;
+export const PATH_CHART_HEIGHT = 170;
+// Mini path charts in comparison mode, three side by side
+export const COMPARISON_CHART_WIDTH = 360;
+export const COMPARISON_CHART_HEIGHT = 150;
+// Train/validation loss along the path, next to the path chart
+export const LOSS_CHART_WIDTH = 420;
+export const LOSS_CHART_HEIGHT = 170;
+
+// Stability selection reruns the whole path this many times by default
+export const DEFAULT_STABILITY_RUNS = 20;
+export const MAX_STABILITY_RUNS = 200;
+
+// AI analysis; the local defaults match Ollama's OpenAI-compatible endpoint
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  provider: AnalysisProviderId.GEMINI,
+  geminiModel: 'gemini-2.5-flash',
+  localBaseUrl: 'http://localhost:11434/v1',
+  localModel: 'llama3.1',
+  localApiKey: ''
+};
+export const LOCAL_LLM_TIMEOUT_MS = 60000;
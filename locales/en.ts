@@ -0,0 +1,424 @@
+import { MessageKey } from './vi';
+
+export const en: Record<MessageKey, string> = {
+  // --- App shell ---
+  'app.title': 'LassoNet Simulator',
+  'app.subtitle': 'Algorithm 2: Prox-Linear optimization',
+  'app.language': 'Language',
+  'app.status': 'System status',
+  'app.epoch': 'Epoch',
+  'app.lambda': 'Lambda',
+  'app.loss': 'Loss',
+  'app.validationLoss': 'Val. loss',
+  'app.active': 'Active',
+
+  // --- Controls ---
+  'controls.pause': 'Pause',
+  'controls.start': 'Start',
+  'controls.resume': 'Resume',
+  'controls.stepBack': 'Step back',
+  'controls.step': 'Step',
+  'controls.reset': 'Reset',
+  'controls.proximal': 'Proximal',
+  'controls.speed': 'Speed',
+  'controls.compare': 'Compare',
+  'controls.report': 'Report',
+  'proximal.THRESHOLD_CLAMP': 'Threshold then clamp',
+  'proximal.HIER_PROX': 'Hier-Prox (exact)',
+  'proximal.GROUP_LASSO': 'Group lasso (baseline)',
+  'optimizer.SGD': 'SGD (fixed η)',
+  'optimizer.MOMENTUM': 'Momentum (heavy ball)',
+  'optimizer.ADAM': 'Adam',
+  'optimizer.LINE_SEARCH': 'Backtracking line search',
+  'penalty.L1': 'L1',
+  'penalty.MCP': 'MCP',
+  'penalty.SCAD': 'SCAD',
+
+  // --- Timeline ---
+  'phase.INIT': 'Initialization',
+  'phase.PRETRAIN': 'Pretrain',
+  'phase.PATH_LOOP': 'λ path',
+  'phase.FINISHED': 'Finished',
+
+  // --- Settings ---
+  'settings.title': 'Simulation settings',
+  'settings.summary': 'M={m} · η={lr} · λ≤{maxLambda} · {hidden} hidden units',
+  'settings.schedule': 'λ schedule',
+  'settings.schedule.LINEAR': 'Linear (λ + Δλ)',
+  'settings.schedule.GEOMETRIC': 'Geometric ((1+ε)·λ, stops when no feature is left)',
+  'settings.innerLoop': 'Inner loop',
+  'settings.innerLoop.FIXED_EPOCHS': 'Fixed number of epochs',
+  'settings.innerLoop.CONVERGENCE': 'Until convergence',
+  'settings.optimizer': 'Optimizer',
+  'settings.penalty': 'Penalty on θ',
+  'settings.penaltyNote': 'MCP and SCAD apply to threshold-then-clamp; Hier-Prox and the group lasso use the weighted L1.',
+  'settings.adaptiveWeights': 'Adaptive weights ω = 1/|θ| (taken after pretraining)',
+  'settings.unpenalized': 'Never penalize:',
+  'settings.deepLayers': 'Deeper layers (widths, e.g. 4,3):',
+  'settings.deepLayersHint': 'Only layer 1 is bound by |W| ≤ M·|θ|; deeper layers train freely, so feature selection happens at the input alone.',
+  'settings.field.hiddenSize': 'Hidden units (layer 1)',
+  'settings.field.mConstant': 'Coefficient M',
+  'settings.field.learningRate': 'Learning rate η',
+  'settings.field.pretrainEpochs': 'Pretrain epochs',
+  'settings.field.lambdaStep': 'λ step',
+  'settings.field.lambdaStart': 'Starting λ',
+  'settings.field.lambdaGrowth': 'Growth ε',
+  'settings.field.maxLambda': 'Max λ',
+  'settings.field.epochsPerLambda': 'Epochs per λ',
+  'settings.field.tolerance': 'Tolerance',
+  'settings.field.patience': 'Patience',
+  'settings.field.maxEpochsPerLambda': 'Max epochs/λ',
+  'settings.field.validationFraction': 'Validation fraction',
+  'settings.field.momentum': 'Momentum μ',
+  'settings.field.adamBeta1': 'Adam β₁',
+  'settings.field.adamBeta2': 'Adam β₂',
+  'settings.field.lineSearchShrink': 'Backtracking β',
+  'settings.field.penaltyGamma': 'γ (MCP) / a (SCAD)',
+  'settings.field.seed': 'Weight seed',
+  'settings.defaults': 'Defaults',
+  'settings.apply': 'Apply & Reset',
+
+  // --- Config validation ---
+  'config.hiddenSize': 'Hidden units must be an integer from 1 to {max}.',
+  'config.deepLayers': 'Deeper layers must be at most {max} comma-separated widths from 1 to {width}.',
+  'config.mConstant': 'Hierarchy coefficient M must be greater than 0.',
+  'config.learningRate': 'Learning rate η must be in (0, 1].',
+  'config.pretrainEpochs': 'Pretrain epochs must be an integer from 0 to {max}.',
+  'config.epochsPerLambda': 'Epochs per λ must be an integer from 1 to {max}.',
+  'config.lambdaStep': 'λ step must be greater than 0.',
+  'config.maxLambda': 'Max λ must be greater than or equal to the λ step.',
+  'config.pathTooLong': 'The λ path is too long (at most {max} λ values).',
+  'config.lambdaStart': 'The starting λ of a geometric path must be greater than 0.',
+  'config.lambdaGrowth': 'Growth ε must be greater than 0.',
+  'config.tolerance': 'Tolerance must be greater than 0.',
+  'config.patience': 'Patience must be an integer from 1 to {max}.',
+  'config.maxEpochsPerLambda': 'Max epochs per λ must be an integer from 1 to {max}.',
+  'config.validationFraction': 'Validation fraction must be in [0, 0.5].',
+  'config.momentum': 'Momentum μ must be in [0, 1).',
+  'config.adamBeta': 'Adam β₁ and β₂ must be in [0, 1).',
+  'config.lineSearchShrink': 'Backtracking factor β must be in (0, 1).',
+  'config.penaltyGamma': 'γ of {penalty} must be greater than {min}.',
+  'config.unpenalizedFeatures': 'Unpenalized features must be a list of feature numbers.',
+  'config.seed': 'Seed must be a non-negative integer.',
+
+  // --- Dataset panel ---
+  'dataset.title': 'Data',
+  'dataset.summary': '{name} · {samples} samples · {features} features',
+  'dataset.summaryClasses': '{name} · {samples} samples · {features} features · {classes} classes',
+  'dataset.synthetic': 'Synthetic',
+  'dataset.csv': 'Upload CSV',
+  'dataset.signal.LINEAR': 'Linear',
+  'dataset.signal.MIXED': 'Mixed (linear + tanh)',
+  'dataset.signal.NONLINEAR': 'Nonlinear (sin, square)',
+  'dataset.signal.INTERACTION': 'Interaction only (x·x)',
+  'dataset.field.numSignal': 'Signal',
+  'dataset.field.numDuplicates': 'Duplicates',
+  'dataset.field.numNoise': 'Noise',
+  'dataset.field.numSamples': 'Samples',
+  'dataset.field.noise': 'Noise on y',
+  'dataset.field.numClasses': 'Classes (0 = regression)',
+  'dataset.field.seed': 'Seed',
+  'dataset.generate': 'Generate data',
+  'dataset.signalType': 'Unknown signal type.',
+  'dataset.integerRange': '{field} must be an integer from {min} to {max}.',
+  'dataset.numberRange': '{field} must be a number from {min} to {max}.',
+  'dataset.chooseFile': 'Choose a CSV file...',
+  'dataset.featureColumns': 'Features ({rows} rows):',
+  'dataset.target': 'Target (y)',
+  'dataset.standardize': 'Standardize (z-score) the columns',
+  'dataset.classify': 'Target holds class labels (classification)',
+  'dataset.useCsv': 'Use CSV',
+
+  // --- Dataset errors ---
+  'error.csvTooShort': 'The CSV needs at least a header row and one data row.',
+  'error.noFeatureColumns': 'Select at least one feature column.',
+  'error.targetIsFeature': 'The target column cannot also be a feature.',
+  'error.noNumericRows': 'No row is fully numeric in the selected columns.',
+  'error.singleClass': 'The target column needs at least two different labels.',
+
+  // --- Sessions ---
+  'session.save': 'Save session',
+  'session.saveHint': 'Download config, state, history and conversation as JSON',
+  'session.open': 'Open session',
+  'session.share': 'Share link',
+  'session.shareHint': 'Copy a link that opens this exact step',
+  'session.shareDisabled': 'Only sessions with synthetic data can be shared',
+  'session.copied': 'Copied!',
+  'error.sessionNotJson': 'The session file is not valid JSON.',
+  'error.notSession': 'The file is not a LassoNet session.',
+  'error.sessionTooNew': 'The session was saved by a newer version (v{version}).',
+  'error.sessionNoDataset': 'The session file has no dataset.',
+  'error.sessionNoHistory': 'The session file has no simulation history.',
+  'error.sessionBadIndex': 'The history index in the session file is invalid.',
+  'error.sessionBadConfig': 'The session file holds an invalid config.',
+  'error.shareNeedsSynthetic': 'Only sessions with synthetic data can be shared.',
+  'error.linkCorrupt': 'The share link is corrupted.',
+  'error.linkUnsupported': 'The share link is not supported.',
+  'error.linkBadConfig': 'The config in the link is invalid.',
+  'error.linkBadDataset': 'The dataset in the link is invalid.',
+  'error.linkBadStep': 'The step in the link must be an integer from 0 to {max}.',
+
+  // --- Network graph & export ---
+  'graph.title': 'Weight simulation',
+  'graph.exportSvgHint': 'Download the current graph as a standalone SVG',
+  'graph.exportPngHint': 'Download the current graph as PNG',
+  'graph.record': 'Record video',
+  'graph.recording': 'Recording {percent}%',
+  'graph.recordHint': 'Run the whole λ path from the start and record it as a WebM video',
+  'graph.recordUnsupported': 'This browser cannot record video',
+  'graph.caption': 'λ={lambda}  epoch {epoch}  step {step} · {stepType}',
+  'graph.aiLegend': 'AI (step {step}):',
+  'graph.predictedNext': 'predicted next',
+  'graph.constrainedLayer': '|W| ≤ M·|θ|',
+  'graph.freeLayer': 'unconstrained',
+  'graph.pin': 'Pin: never penalize',
+  'graph.unpin': 'Unpin',
+  'graph.remove': 'Remove',
+  'graph.close': 'Close',
+  'graph.penaltyWeight': 'ω = {weight}',
+  'graph.dragTheta': 'Drag up or down to set θ by hand',
+  'graph.tooltipTheta': 'θ {feature} → {output}',
+  'graph.tooltipWeight': 'W {feature} → h{unit}',
+  'graph.tooltipDense': 'Deeper weight {from} → {to}',
+  'graph.tooltipValue': 'value {value}',
+  'graph.tooltipGradient': 'gradient {gradient}',
+  'graph.tooltipLimit': 'limit M·|θ| = {limit}',
+  'graph.tooltipNoLimit': 'no hierarchy limit',
+  'graph.tooltipClamped': 'clamped to the limit',
+  'graph.tooltipFree': 'inside the limit',
+  'error.svgToCanvas': 'Could not draw the SVG onto a canvas.',
+  'error.pngFailed': 'The browser could not create a PNG image.',
+  'error.recordUnsupported': 'This browser cannot record video (MediaRecorder).',
+  'stepType.GRADIENT': 'Gradient',
+  'stepType.PROXIMAL': 'Proximal',
+
+  // --- Path chart ---
+  'pathChart.title': 'Regularization path: θ (solid) and max|W| (dashed) against λ',
+  'pathChart.empty': 'The regularization path appears once the path starts.',
+  'lossChart.title': 'Loss: train (solid), validation ±1 SE (dashed), active features (grey)',
+  'lossChart.empty': 'Losses appear once the path starts.',
+  'lossChart.noValidation': 'No validation split',
+  'lossChart.min': 'min',
+  'lossChart.oneSe': '1-SE',
+  'lossChart.jumpMin': 'Min λ={lambda}',
+  'lossChart.jumpOneSe': '1-SE λ={lambda}',
+  'lossChart.trimmed': 'This point is no longer in the history',
+
+  // --- Comparison mode ---
+  'comparison.title': 'Comparison with baselines (same data, same λ schedule)',
+  'comparison.hint': 'The vertical line marks the λ of the main simulation.',
+  'comparison.method.LASSONET': 'LassoNet',
+  'comparison.method.LASSO': 'Lasso (linear)',
+  'comparison.method.GROUP_LASSO': 'Group lasso',
+  'comparison.dropTable': 'λ at which each feature is dropped',
+  'comparison.feature': 'Feature',
+  'comparison.kept': 'kept',
+  'comparison.running': 'Running the baseline paths… {done}/{total}',
+  'report.title': 'Feature elimination report',
+  'report.markdownIntro': 'Dataset "{dataset}", run at λ={lambda} ({phase}). Rank 1 survived longest; features dropped at the same λ share a rank.',
+  'report.rank': 'Rank',
+  'report.feature': 'Feature',
+  'report.eliminatedAt': 'Dropped at λ',
+  'report.peakTheta': 'Peak θ',
+  'report.peakValue': '{theta} (λ={lambda})',
+  'report.survived': 'survived',
+  'report.stabilityScore': 'Stability',
+  'report.stabilityTitle': 'Stability selection',
+  'report.stabilityIntro': 'Share of {runs} runs ({resampling}) in which each feature is still selected at each λ.',
+  'report.stabilityHint': 'Rerun the path many times to see how often each feature is selected at each λ.',
+  'report.resampling.SEEDS': 'seeds',
+  'report.resampling.BOOTSTRAP': 'bootstrap',
+  'report.runs': 'Number of runs',
+  'report.run': 'Run',
+  'report.running': '{done}/{runs}…',
+  'report.cell': 'λ={lambda}: selected in {frequency} of runs',
+
+  // --- Math panel ---
+  'math.empty': 'Start the simulation to see the formulas.',
+  'math.title': 'Calculation details',
+  'math.feature': 'Feature',
+  'math.weight': 'Weight W',
+  'math.unit': 'Hidden unit h{unit}',
+  'math.selectHint': 'Click a node or W edge in the graph to select it.',
+  'math.noDetails': 'The saved step has no details for this feature.',
+  'math.inactive': 'X{id} is eliminated, so the gradient step leaves it unchanged.',
+  'math.ai': 'AI (step {step}):',
+  'math.aiConstraint': 'Constraint:',
+  'math.aiConstraintActive': 'binding',
+  'math.aiConstraintInactive': 'not reached',
+  'math.aiNext': 'Predicted next elimination:',
+  'math.gradientTitle': 'Step 1: Gradient update',
+  'math.new': 'new',
+  'math.old': 'old',
+  'math.gradient': 'Derivative (gradient ∇L)',
+  'math.learningRate': 'Learning rate η',
+  'math.weightGradient': 'Same update for W[{unit}] (X{id} → h{unit})',
+  'math.sortW': '2.1. Sort |W| in decreasing order',
+  'math.inputTheta': 'Input θ:',
+  'math.inputThetaNorm': 'Input ‖θ‖₂:',
+  'math.threshold': 'Penalty threshold (ω·λ·t):',
+  'math.findLevel': '2.2. Find the optimal level m̃',
+  'math.levelRule': 'm̃ is the first index with',
+  'math.jointShrink': '2.3. Shrink θ and W together',
+  'math.shrinkLevel': 'Shrinkage',
+  'math.softThreshold': '2.1. Sparsity: {penalty} thresholding',
+  'math.thresholdHint': "Orange curve: θ after thresholding; blue dot: this step's θ. Inside the red band θ becomes 0.",
+  'math.optimizerState': 'Optimizer state ({optimizer})',
+  'math.stepSize': 'Effective step t:',
+  'math.velocity': 'Velocity v',
+  'math.lineSearch': 'Line search accepted t = {step} after {backtracks} backtracks.',
+  'math.penaltyWeight': 'Feature weight ω:',
+  'math.resultTheta': 'Resulting θ:',
+  'math.resultThetaNorm': 'Resulting ‖θ‖₂:',
+  'math.thetaScale': 'Scale ‖θ̃‖₂/‖θ‖₂:',
+  'math.hierarchy': '2.2. Hierarchy constraint',
+  'math.currentW': 'Current W:',
+  'math.limit': 'Bound (M·|θ|):',
+  'math.clampHint': 'The purple dot (W) must stay inside the amber box',
+  'math.clampedW': 'Clamped W:',
+  'math.vector': 'Full W vector of X{id}',
+  'math.thetaVector': 'θ vector of X{id} (one entry per output)',
+  'math.output': 'Output',
+  'math.before': 'before',
+  'math.after': 'after',
+  'math.clampedMark': 'clamped',
+  'math.groupNorm': '2.1. Group norm ‖(θ, W)‖₂',
+  'math.groupNormValue': 'Norm ‖(θ, W)‖₂:',
+  'math.groupShrink': '2.2. Shrink the whole group',
+  'math.groupScale': 'Scale factor:',
+  'math.groupHint': 'No hierarchy bound: W can stay large while θ is small. If the norm is ≤ λη, the whole group becomes 0.',
+
+  // --- AI verdicts ---
+  'verdict.KEPT': 'kept',
+  'verdict.SHRINKING': 'shrinking',
+  'verdict.ELIMINATED': 'eliminated',
+
+  // --- Event log ---
+  'event.initialized': 'Initialized {features} features from dataset "{dataset}" ({samples} samples).',
+  'event.initializedSplit': 'Initialized {features} features from dataset "{dataset}" ({samples} samples, {validation} held out for validation).',
+  'event.pretrain': '>>> Pretraining (Lambda = 0)',
+  'event.pathStarted': '>>> Path started (λ={lambda})',
+  'event.gradient': 'Gradient descent (loss={loss})',
+  'event.proximal': 'Proximal (λ={lambda})',
+  'event.eliminated': '⚠️ Feature {feature} eliminated at λ={lambda}',
+  'event.lambdaCompleted': 'λ={lambda}: {epochs} epochs ({reason})',
+  'event.lambdaIncreased': 'λ increased to {lambda}',
+  'event.finished': '>>> Simulation finished: {reason}',
+  'event.pinned': '✋ {feature} pinned: never penalized (step {step})',
+  'event.unpinned': '✋ {feature} unpinned (step {step})',
+  'event.removed': '✋ {feature} removed by hand (step {step})',
+  'event.thetaSet': '✋ θ of {feature} set to {value} by hand (step {step})',
+  'lambdaStop.FIXED_EPOCHS': 'fixed number of epochs reached',
+  'lambdaStop.CONVERGED': 'converged, objective stopped decreasing',
+  'lambdaStop.MAX_EPOCHS': 'epoch limit reached',
+  'pathStop.MAX_LAMBDA': 'max λ exceeded',
+  'pathStop.ALL_ELIMINATED': 'every feature has been eliminated',
+
+  // --- Step descriptions ---
+  'step.init': "Initialization: the network gets random weights. Press 'Start' or 'Step' to run the simulation.",
+  'step.pretrain': 'Pretrain phase: plain gradient descent so the network fits the data before sparsification.',
+  'step.gradient': 'Step 1: Gradient descent. Backpropagate the MSE and move θ, W and the hidden→output weights along the gradient.',
+  'step.hierProx': 'Step 2: Hier-Prox (λη={threshold}). Solves sparsifying θ and the constraint |W| ≤ M·|θ| jointly.',
+  'step.proximal': 'Step 2: Proximal (λη={threshold}). {penalty} thresholding sparsifies θ, then W is clamped by the hierarchy constraint.',
+  'step.groupLasso': "Step 2: Group lasso (λη={threshold}). Each feature's (θ, W) group shrinks by its Euclidean norm; groups with norm ≤ λη are dropped entirely.",
+
+  // --- AI panel ---
+  'ai.title': 'AI tutor',
+  'ai.provider.GEMINI': 'Gemini',
+  'ai.provider.OPENAI_COMPATIBLE': 'Local server (OpenAI API)',
+  'ai.provider.RULE_BASED': 'Rule-based explainer (offline)',
+  'ai.providerSettings': 'Provider settings',
+  'ai.clear': 'Clear conversation',
+  'ai.ask': 'Ask AI',
+  'ai.askHint': 'Quick analysis of the current state',
+  'ai.geminiModel': 'Gemini model',
+  'ai.baseUrl': 'Base URL',
+  'ai.model': 'Model',
+  'ai.apiKey': 'API key (optional)',
+  'ai.empty': "Press 'Ask AI' to analyze the network, or ask something like \"Why did X3 drop before X2?\".",
+  'ai.fallback': '{reason} Showing the rule-based explanation.',
+  'ai.placeholder': 'Ask a follow-up...',
+  'ai.send': 'Send',
+  'ai.noApiKey': 'No API_KEY is configured for Gemini.',
+  'ai.noEndpoint': 'Enter the address and model name of the local server.',
+  'ai.failed': 'Could not get an answer right now.',
+  'error.geminiEmpty': 'Gemini returned no answer.',
+  'error.localStatus': 'The local server returned error {status}.',
+  'error.localEmpty': 'The local server returned no answer.',
+
+  // --- Step references ([step N]) ---
+  'ref.step': 'step',
+
+  // --- Rule-based explainer ---
+  'rules.init': 'The network has just been randomly initialized; no optimization step has run yet.',
+  'rules.pretrain': 'Pretraining with λ = 0 (epoch {epoch}, loss {loss}): only the loss is reduced, no feature is penalized yet.',
+  'rules.path': 'Running the regularization path at λ = {lambda} (epoch {epoch}, loss {loss}): each epoch is a gradient step followed by a proximal step that sparsifies θ.',
+  'rules.finished': 'The simulation finished at λ = {lambda} with loss {loss}.',
+  'rules.eliminatedAt': '{feature} at λ={lambda}',
+  'rules.eliminated': '{count} features eliminated, in order: {list}.',
+  'rules.noneEliminated': 'No feature has been eliminated yet.',
+  'rules.nextElimination': '{feature} has the smallest |θ| ({theta}), so it is the most likely to be eliminated next.',
+  'rules.gradientNoConstraint': 'Gradient steps do not enforce the hierarchy; |W| ≤ M·|θ| is applied again at the next proximal step.',
+  'rules.constraintActive': 'The hierarchy constraint |W| ≤ M·|θ| (M={m}) is holding back W of {features}.',
+  'rules.constraintInactive': 'The hierarchy constraint is not reached: every |W| is below M·|θ|.',
+  'rules.pathStartTheta': '; |θ|={theta} when the path started',
+  'rules.featureEliminated': '{feature} was eliminated at {step} (λ={lambda}){start}.',
+  'rules.featureActive': '{feature} is still active, |θ| is now {theta}{start}.',
+  'rules.eliminationList': 'Eliminations: {list}.',
+  'rules.eliminationAtStep': '{feature} at {step}',
+  'rules.askAboutFeature': 'Name a feature (e.g. X1) to see its details.',
+  'rules.firstEliminated': '{feature} was the first of these to be eliminated.',
+  'rules.whyOrder': 'Each proximal step subtracts λ·η from |θ| while the gradient step pulls θ back in proportion to how much the feature reduces the loss; the feature eliminated first is the one the gradient supports least, not necessarily the one with the smallest |θ| at the start.',
+
+  // --- History summary (tutor context) ---
+  'summary.dataset': 'Dataset "{name}": {samples} samples, features {features}.',
+  'summary.config': 'Config: M={m}, η={lr}, {hidden} hidden units, proximal {proximal}, penalty {penalty}, λ schedule {schedule}.',
+  'summary.current': 'Now: {step}, phase {phase}, λ={lambda}, epoch {epoch}, loss={loss}.',
+  'summary.trajectory': 'θ trajectory (end of each λ):',
+  'summary.eliminations': 'Feature eliminations:',
+  'summary.clampChanges': 'Hierarchy constraint changes (latest):',
+  'summary.none': '(none yet)',
+  'summary.eliminatedShort': 'out',
+  'summary.ref.eliminated': 'eliminated',
+  'summary.ref.clamped': 'started being clamped by M·|θ|',
+  'summary.ref.released': 'released from the M·|θ| bound',
+
+  // --- LLM prompts ---
+  'prompt.analysis': `
+    You are an expert in machine learning and in particular the LassoNet architecture.
+    Analyze the current training state of the LassoNet model being displayed.
+
+    Context:
+    - Phase: {phase}
+    - Current lambda (penalty): {lambda}
+    - Epoch: {epoch}
+    - Step type: {stepType}
+    - Loss (MSE) on the data: {loss}
+    - Hierarchy coefficient M: {m}, learning rate: {lr}
+
+    Feature weights:
+    {features}
+
+    Answer:
+    What is happening to feature selection?
+    Which features are being eliminated (theta going to 0)?
+    Is the hierarchy constraint ( |W| <= M*|theta| ) active?
+
+    Return ONLY one JSON object, with no other text, in exactly this shape:
+    {
+      "summary": "short explanation in English, at most 2 sentences",
+      "features": [{ "id": <feature number>, "verdict": "kept" | "shrinking" | "eliminated" }],
+      "constraintActive": <true if |W| ≤ M·|θ| is holding back W of at least one feature>,
+      "nextElimination": <id of the feature predicted to be eliminated next, or null>
+    }
+    Every feature appears exactly once in "features".
+  `,
+  'prompt.tutor': `
+You are a machine learning teaching assistant helping a student understand a step-by-step LassoNet simulation.
+Answer in ENGLISH, briefly, based on the simulation data below; do not invent numbers that are not in it.
+When you refer to a specific moment, write it exactly as [step N] (N is a step number from the data) so the student can click it.
+
+Simulation data:
+{summary}
+`
+};
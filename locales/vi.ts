@@ -0,0 +1,427 @@
+// Vietnamese catalog. Its keys define MessageKey; every other locale must provide all of them.
+// Placeholders use {name} and are filled by I18n.t.
+
+export const vi = {
+  // --- App shell ---
+  'app.title': 'Mô phỏng LassoNet',
+  'app.subtitle': 'Thuật toán 2: Tối ưu hóa Prox-Linear',
+  'app.language': 'Ngôn ngữ',
+  'app.status': 'Trạng thái hệ thống',
+  'app.epoch': 'Epoch',
+  'app.lambda': 'Lambda',
+  'app.loss': 'Loss',
+  'app.validationLoss': 'Loss kiểm định',
+  'app.active': 'Hoạt động',
+
+  // --- Controls ---
+  'controls.pause': 'Tạm dừng',
+  'controls.start': 'Bắt đầu',
+  'controls.resume': 'Chạy tiếp',
+  'controls.stepBack': 'Lùi lại',
+  'controls.step': 'Bước tiếp',
+  'controls.reset': 'Đặt lại',
+  'controls.proximal': 'Proximal',
+  'controls.speed': 'Tốc độ',
+  'controls.compare': 'So sánh',
+  'controls.report': 'Báo cáo',
+  'proximal.THRESHOLD_CLAMP': 'Ngưỡng rồi kẹp',
+  'proximal.HIER_PROX': 'Hier-Prox (chính xác)',
+  'proximal.GROUP_LASSO': 'Group Lasso (đối chứng)',
+  'optimizer.SGD': 'SGD (η cố định)',
+  'optimizer.MOMENTUM': 'Momentum (heavy ball)',
+  'optimizer.ADAM': 'Adam',
+  'optimizer.LINE_SEARCH': 'Line search (backtracking)',
+  'penalty.L1': 'L1',
+  'penalty.MCP': 'MCP',
+  'penalty.SCAD': 'SCAD',
+
+  // --- Timeline ---
+  'phase.INIT': 'Khởi tạo',
+  'phase.PRETRAIN': 'Pretrain',
+  'phase.PATH_LOOP': 'Đường λ',
+  'phase.FINISHED': 'Hoàn tất',
+
+  // --- Settings ---
+  'settings.title': 'Cấu hình mô phỏng',
+  'settings.summary': 'M={m} · η={lr} · λ≤{maxLambda} · {hidden} nút ẩn',
+  'settings.schedule': 'Lịch λ',
+  'settings.schedule.LINEAR': 'Tuyến tính (λ + Δλ)',
+  'settings.schedule.GEOMETRIC': 'Hình học ((1+ε)·λ, dừng khi hết đặc trưng)',
+  'settings.innerLoop': 'Vòng lặp trong',
+  'settings.innerLoop.FIXED_EPOCHS': 'Số epoch cố định',
+  'settings.innerLoop.CONVERGENCE': 'Đến khi hội tụ',
+  'settings.optimizer': 'Bộ tối ưu',
+  'settings.penalty': 'Hàm phạt trên θ',
+  'settings.penaltyNote': 'MCP và SCAD áp dụng cho chế độ ngưỡng rồi kẹp; Hier-Prox và Group Lasso dùng L1 có trọng số.',
+  'settings.adaptiveWeights': 'Trọng số thích nghi ω = 1/|θ| (lấy sau pretrain)',
+  'settings.unpenalized': 'Không bao giờ phạt:',
+  'settings.deepLayers': 'Các lớp sâu hơn (độ rộng, ví dụ 4,3):',
+  'settings.deepLayersHint': 'Chỉ lớp 1 chịu ràng buộc |W| ≤ M·|θ|; các lớp sâu hơn huấn luyện tự do, nên việc chọn đặc trưng chỉ diễn ra ở đầu vào.',
+  'settings.field.hiddenSize': 'Số nút ẩn (lớp 1)',
+  'settings.field.mConstant': 'Hệ số M',
+  'settings.field.learningRate': 'Hệ số học η',
+  'settings.field.pretrainEpochs': 'Epoch pretrain',
+  'settings.field.lambdaStep': 'Bước λ',
+  'settings.field.lambdaStart': 'λ khởi đầu',
+  'settings.field.lambdaGrowth': 'Hệ số tăng ε',
+  'settings.field.maxLambda': 'λ tối đa',
+  'settings.field.epochsPerLambda': 'Epoch mỗi λ',
+  'settings.field.tolerance': 'Ngưỡng hội tụ',
+  'settings.field.patience': 'Patience',
+  'settings.field.maxEpochsPerLambda': 'Epoch tối đa/λ',
+  'settings.field.validationFraction': 'Tỉ lệ validation',
+  'settings.field.momentum': 'Momentum μ',
+  'settings.field.adamBeta1': 'Adam β₁',
+  'settings.field.adamBeta2': 'Adam β₂',
+  'settings.field.lineSearchShrink': 'Hệ số lùi β',
+  'settings.field.penaltyGamma': 'γ (MCP) / a (SCAD)',
+  'settings.field.seed': 'Seed trọng số',
+  'settings.defaults': 'Mặc định',
+  'settings.apply': 'Áp dụng & Đặt lại',
+
+  // --- Config validation ---
+  'config.hiddenSize': 'Số nút ẩn phải là số nguyên từ 1 đến {max}.',
+  'config.deepLayers': 'Các lớp sâu hơn phải gồm tối đa {max} độ rộng, cách nhau bởi dấu phẩy, từ 1 đến {width}.',
+  'config.mConstant': 'Hệ số phân cấp M phải lớn hơn 0.',
+  'config.learningRate': 'Hệ số học η phải nằm trong (0, 1].',
+  'config.pretrainEpochs': 'Số epoch pretrain phải là số nguyên từ 0 đến {max}.',
+  'config.epochsPerLambda': 'Số epoch mỗi λ phải là số nguyên từ 1 đến {max}.',
+  'config.lambdaStep': 'Bước λ phải lớn hơn 0.',
+  'config.maxLambda': 'λ tối đa phải lớn hơn hoặc bằng bước λ.',
+  'config.pathTooLong': 'Đường λ quá dài (tối đa {max} giá trị λ).',
+  'config.lambdaStart': 'λ khởi đầu của đường hình học phải lớn hơn 0.',
+  'config.lambdaGrowth': 'Hệ số tăng ε phải lớn hơn 0.',
+  'config.tolerance': 'Ngưỡng hội tụ phải lớn hơn 0.',
+  'config.patience': 'Số epoch chờ (patience) phải là số nguyên từ 1 đến {max}.',
+  'config.maxEpochsPerLambda': 'Số epoch tối đa mỗi λ phải là số nguyên từ 1 đến {max}.',
+  'config.validationFraction': 'Tỉ lệ validation phải thuộc [0, 0.5].',
+  'config.momentum': 'Momentum μ phải thuộc [0, 1).',
+  'config.adamBeta': 'β₁ và β₂ của Adam phải thuộc [0, 1).',
+  'config.lineSearchShrink': 'Hệ số lùi β phải thuộc (0, 1).',
+  'config.penaltyGamma': 'γ của {penalty} phải lớn hơn {min}.',
+  'config.unpenalizedFeatures': 'Danh sách đặc trưng không phạt phải gồm các số thứ tự đặc trưng.',
+  'config.seed': 'Seed phải là số nguyên không âm.',
+
+  // --- Dataset panel ---
+  'dataset.title': 'Dữ liệu',
+  'dataset.summary': '{name} · {samples} mẫu · {features} đặc trưng',
+  'dataset.summaryClasses': '{name} · {samples} mẫu · {features} đặc trưng · {classes} lớp',
+  'dataset.synthetic': 'Tổng hợp',
+  'dataset.csv': 'Tải CSV',
+  'dataset.signal.LINEAR': 'Tuyến tính',
+  'dataset.signal.MIXED': 'Hỗn hợp (tuyến tính + tanh)',
+  'dataset.signal.NONLINEAR': 'Phi tuyến (sin, bình phương)',
+  'dataset.signal.INTERACTION': 'Chỉ tương tác (x·x)',
+  'dataset.field.numSignal': 'Tín hiệu',
+  'dataset.field.numDuplicates': 'Bản sao',
+  'dataset.field.numNoise': 'Nhiễu',
+  'dataset.field.numSamples': 'Số mẫu',
+  'dataset.field.noise': 'Độ nhiễu y',
+  'dataset.field.numClasses': 'Số lớp (0 = hồi quy)',
+  'dataset.field.seed': 'Seed',
+  'dataset.generate': 'Tạo dữ liệu',
+  'dataset.signalType': 'Loại tín hiệu không hợp lệ.',
+  'dataset.integerRange': '{field} phải là số nguyên từ {min} đến {max}.',
+  'dataset.numberRange': '{field} phải là số từ {min} đến {max}.',
+  'dataset.chooseFile': 'Chọn tệp CSV...',
+  'dataset.featureColumns': 'Đặc trưng ({rows} dòng):',
+  'dataset.target': 'Mục tiêu (y)',
+  'dataset.standardize': 'Chuẩn hóa (z-score) các cột',
+  'dataset.classify': 'Cột mục tiêu là nhãn lớp (phân loại)',
+  'dataset.useCsv': 'Dùng CSV',
+
+  // --- Dataset errors ---
+  'error.csvTooShort': 'CSV cần ít nhất một dòng tiêu đề và một dòng dữ liệu.',
+  'error.noFeatureColumns': 'Chọn ít nhất một cột đặc trưng.',
+  'error.targetIsFeature': 'Cột mục tiêu không được đồng thời là đặc trưng.',
+  'error.noNumericRows': 'Không có dòng nào chứa toàn số ở các cột đã chọn.',
+  'error.singleClass': 'Cột mục tiêu cần ít nhất hai nhãn khác nhau.',
+
+  // --- Sessions ---
+  'session.save': 'Lưu phiên',
+  'session.saveHint': 'Tải xuống cấu hình, trạng thái, lịch sử và cuộc trò chuyện dạng JSON',
+  'session.open': 'Mở phiên',
+  'session.share': 'Chia sẻ liên kết',
+  'session.shareHint': 'Sao chép liên kết mở đúng bước hiện tại',
+  'session.shareDisabled': 'Chỉ chia sẻ được phiên dùng dữ liệu tổng hợp',
+  'session.copied': 'Đã sao chép!',
+  'error.sessionNotJson': 'Tệp phiên không phải JSON hợp lệ.',
+  'error.notSession': 'Tệp không phải phiên LassoNet.',
+  'error.sessionTooNew': 'Phiên được lưu bằng phiên bản mới hơn (v{version}).',
+  'error.sessionNoDataset': 'Tệp phiên thiếu dữ liệu (dataset).',
+  'error.sessionNoHistory': 'Tệp phiên thiếu lịch sử mô phỏng.',
+  'error.sessionBadIndex': 'Chỉ số lịch sử trong tệp phiên không hợp lệ.',
+  'error.sessionBadConfig': 'Cấu hình trong tệp phiên không hợp lệ.',
+  'error.shareNeedsSynthetic': 'Chỉ chia sẻ được phiên dùng dữ liệu tổng hợp.',
+  'error.linkCorrupt': 'Liên kết chia sẻ bị hỏng.',
+  'error.linkUnsupported': 'Liên kết chia sẻ không được hỗ trợ.',
+  'error.linkBadConfig': 'Cấu hình trong liên kết không hợp lệ.',
+  'error.linkBadDataset': 'Bộ dữ liệu trong liên kết không hợp lệ.',
+  'error.linkBadStep': 'Bước trong liên kết phải là số nguyên từ 0 đến {max}.',
+
+  // --- Network graph & export ---
+  'graph.title': 'Mô phỏng Trọng số',
+  'graph.exportSvgHint': 'Tải hình mạng hiện tại dạng SVG độc lập',
+  'graph.exportPngHint': 'Tải hình mạng hiện tại dạng PNG',
+  'graph.record': 'Ghi video',
+  'graph.recording': 'Đang ghi {percent}%',
+  'graph.recordHint': 'Chạy toàn bộ đường λ từ đầu và ghi thành video WebM',
+  'graph.recordUnsupported': 'Trình duyệt không hỗ trợ ghi video',
+  'graph.caption': 'λ={lambda}  epoch {epoch}  bước {step} · {stepType}',
+  'graph.aiLegend': 'AI (bước {step}):',
+  'graph.predictedNext': 'dự đoán loại tiếp',
+  'graph.constrainedLayer': '|W| ≤ M·|θ|',
+  'graph.freeLayer': 'không ràng buộc',
+  'graph.pin': 'Ghim: không bao giờ phạt',
+  'graph.unpin': 'Bỏ ghim',
+  'graph.remove': 'Loại bỏ',
+  'graph.close': 'Đóng',
+  'graph.penaltyWeight': 'ω = {weight}',
+  'graph.dragTheta': 'Kéo lên hoặc xuống để đặt θ thủ công',
+  'graph.tooltipTheta': 'θ {feature} → {output}',
+  'graph.tooltipWeight': 'W {feature} → h{unit}',
+  'graph.tooltipDense': 'Trọng số lớp sâu {from} → {to}',
+  'graph.tooltipValue': 'giá trị {value}',
+  'graph.tooltipGradient': 'gradient {gradient}',
+  'graph.tooltipLimit': 'giới hạn M·|θ| = {limit}',
+  'graph.tooltipNoLimit': 'không có giới hạn phân cấp',
+  'graph.tooltipClamped': 'bị kẹp ở giới hạn',
+  'graph.tooltipFree': 'nằm trong giới hạn',
+  'error.svgToCanvas': 'Không thể vẽ SVG lên canvas.',
+  'error.pngFailed': 'Trình duyệt không tạo được ảnh PNG.',
+  'error.recordUnsupported': 'Trình duyệt không hỗ trợ ghi video (MediaRecorder).',
+  'stepType.GRADIENT': 'Gradient',
+  'stepType.PROXIMAL': 'Proximal',
+
+  // --- Path chart ---
+  'pathChart.title': 'Đường chính quy hóa: θ (liền) và max|W| (đứt) theo λ',
+  'pathChart.empty': 'Đường chính quy hóa sẽ xuất hiện khi bắt đầu Path.',
+  'lossChart.title': 'Loss: huấn luyện (liền), kiểm định ±1 SE (đứt), số đặc trưng còn lại (xám)',
+  'lossChart.empty': 'Loss sẽ xuất hiện khi bắt đầu Path.',
+  'lossChart.noValidation': 'Không có tập kiểm định',
+  'lossChart.min': 'min',
+  'lossChart.oneSe': '1-SE',
+  'lossChart.jumpMin': 'λ min={lambda}',
+  'lossChart.jumpOneSe': 'λ 1-SE={lambda}',
+  'lossChart.trimmed': 'Điểm này không còn trong lịch sử',
+
+  // --- Comparison mode ---
+  'comparison.title': 'So sánh với các phương pháp cơ sở (cùng dữ liệu, cùng lịch λ)',
+  'comparison.hint': 'Vạch dọc là λ hiện tại của mô phỏng chính.',
+  'comparison.method.LASSONET': 'LassoNet',
+  'comparison.method.LASSO': 'Lasso (tuyến tính)',
+  'comparison.method.GROUP_LASSO': 'Group Lasso',
+  'comparison.dropTable': 'λ tại đó mỗi đặc trưng bị loại',
+  'comparison.feature': 'Đặc trưng',
+  'comparison.kept': 'giữ lại',
+  'comparison.running': 'Đang chạy các đường cơ sở… {done}/{total}',
+  'report.title': 'Báo cáo loại bỏ đặc trưng',
+  'report.markdownIntro': 'Dữ liệu "{dataset}", lần chạy tại λ={lambda} ({phase}). Hạng 1 trụ lâu nhất; các đặc trưng bị loại ở cùng λ có cùng hạng.',
+  'report.rank': 'Hạng',
+  'report.feature': 'Đặc trưng',
+  'report.eliminatedAt': 'Bị loại tại λ',
+  'report.peakTheta': 'θ lớn nhất',
+  'report.peakValue': '{theta} (λ={lambda})',
+  'report.survived': 'còn lại',
+  'report.stabilityScore': 'Độ ổn định',
+  'report.stabilityTitle': 'Chọn lọc ổn định',
+  'report.stabilityIntro': 'Tỉ lệ trong {runs} lần chạy ({resampling}) mà mỗi đặc trưng vẫn được chọn tại mỗi λ.',
+  'report.stabilityHint': 'Chạy lại Path nhiều lần để xem mỗi đặc trưng được chọn thường xuyên thế nào tại mỗi λ.',
+  'report.resampling.SEEDS': 'seed',
+  'report.resampling.BOOTSTRAP': 'bootstrap',
+  'report.runs': 'Số lần chạy',
+  'report.run': 'Chạy',
+  'report.running': '{done}/{runs}…',
+  'report.cell': 'λ={lambda}: được chọn trong {frequency} số lần chạy',
+
+  // --- Math panel ---
+  'math.empty': 'Bắt đầu mô phỏng để xem công thức.',
+  'math.title': 'Chi tiết tính toán',
+  'math.feature': 'Đặc trưng',
+  'math.weight': 'Trọng số W',
+  'math.unit': 'Nút ẩn h{unit}',
+  'math.selectHint': 'Nhấn vào nút hoặc cạnh W trên đồ thị để chọn.',
+  'math.noDetails': 'Bước đã lưu không có chi tiết cho đặc trưng này.',
+  'math.inactive': 'X{id} đã bị loại nên bước gradient không cập nhật đặc trưng này.',
+  'math.ai': 'AI (bước {step}):',
+  'math.aiConstraint': 'Ràng buộc:',
+  'math.aiConstraintActive': 'đang chặn',
+  'math.aiConstraintInactive': 'chưa chạm',
+  'math.aiNext': 'Dự đoán loại tiếp:',
+  'math.gradientTitle': 'Bước 1: Cập nhật Gradient',
+  'math.new': 'mới',
+  'math.old': 'cũ',
+  'math.gradient': 'Đạo hàm (Gradient ∇L)',
+  'math.learningRate': 'Hệ số học (Learning Rate η)',
+  'math.weightGradient': 'Cùng công thức cho W[{unit}] (X{id} → h{unit})',
+  'math.sortW': '2.1. Sắp xếp |W| giảm dần',
+  'math.inputTheta': 'Đầu vào θ:',
+  'math.inputThetaNorm': 'Đầu vào ‖θ‖₂:',
+  'math.threshold': 'Ngưỡng phạt (ω·λ·t):',
+  'math.findLevel': '2.2. Tìm mức tối ưu m̃',
+  'math.levelRule': 'm̃ là chỉ số đầu tiên thỏa',
+  'math.jointShrink': '2.3. Co đồng thời θ và W',
+  'math.shrinkLevel': 'Mức co',
+  'math.softThreshold': '2.1. Làm thưa: phép ngưỡng {penalty}',
+  'math.thresholdHint': 'Đường cam: θ sau phép ngưỡng; chấm xanh: θ của bước này. Trong dải đỏ θ về 0.',
+  'math.optimizerState': 'Trạng thái bộ tối ưu ({optimizer})',
+  'math.stepSize': 'Bước thực tế t:',
+  'math.velocity': 'Vận tốc v',
+  'math.lineSearch': 'Line search chấp nhận t = {step} sau {backtracks} lần lùi.',
+  'math.penaltyWeight': 'Trọng số đặc trưng ω:',
+  'math.resultTheta': 'Kết quả θ:',
+  'math.resultThetaNorm': '‖θ‖₂ kết quả:',
+  'math.thetaScale': 'Hệ số co ‖θ̃‖₂/‖θ‖₂:',
+  'math.hierarchy': '2.2. Ràng buộc phân cấp',
+  'math.currentW': 'W hiện tại:',
+  'math.limit': 'Giới hạn (M·|θ|):',
+  'math.clampHint': 'Điểm tím (W) bắt buộc nằm trong khung vàng',
+  'math.clampedW': 'W sau kẹp:',
+  'math.vector': 'Toàn bộ vector W của X{id}',
+  'math.thetaVector': 'Vector θ của X{id} (mỗi đầu ra một phần tử)',
+  'math.output': 'Đầu ra',
+  'math.before': 'trước',
+  'math.after': 'sau',
+  'math.clampedMark': 'bị kẹp',
+  'math.groupNorm': '2.1. Chuẩn của nhóm ‖(θ, W)‖₂',
+  'math.groupNormValue': 'Chuẩn ‖(θ, W)‖₂:',
+  'math.groupShrink': '2.2. Co cả nhóm',
+  'math.groupScale': 'Hệ số co:',
+  'math.groupHint': 'Không có ràng buộc phân cấp: W vẫn có thể lớn khi θ nhỏ. Nếu chuẩn ≤ λη, cả nhóm về 0.',
+
+  // --- AI verdicts ---
+  'verdict.KEPT': 'giữ lại',
+  'verdict.SHRINKING': 'đang co lại',
+  'verdict.ELIMINATED': 'đã loại',
+
+  // --- Event log ---
+  'event.initialized': 'Đã khởi tạo {features} đặc trưng từ dữ liệu "{dataset}" ({samples} mẫu).',
+  'event.initializedSplit': 'Đã khởi tạo {features} đặc trưng từ dữ liệu "{dataset}" ({samples} mẫu, giữ lại {validation} mẫu để validation).',
+  'event.pretrain': '>>> Pretraining (Lambda = 0)',
+  'event.pathStarted': '>>> Bắt đầu Path (λ={lambda})',
+  'event.gradient': 'Gradient Descent (loss={loss})',
+  'event.proximal': 'Proximal (λ={lambda})',
+  'event.eliminated': '⚠️ Đặc trưng {feature} bị loại bỏ tại λ={lambda}',
+  'event.lambdaCompleted': 'λ={lambda}: {epochs} epoch ({reason})',
+  'event.lambdaIncreased': 'Tăng λ lên {lambda}',
+  'event.finished': '>>> Hoàn tất mô phỏng: {reason}',
+  'event.pinned': '✋ Đã ghim {feature}: không bao giờ bị phạt (bước {step})',
+  'event.unpinned': '✋ Đã bỏ ghim {feature} (bước {step})',
+  'event.removed': '✋ Đã loại {feature} thủ công (bước {step})',
+  'event.thetaSet': '✋ Đã đặt θ của {feature} = {value} thủ công (bước {step})',
+  'lambdaStop.FIXED_EPOCHS': 'đủ số epoch cố định',
+  'lambdaStop.CONVERGED': 'hội tụ, mục tiêu ngừng giảm',
+  'lambdaStop.MAX_EPOCHS': 'chạm giới hạn epoch',
+  'pathStop.MAX_LAMBDA': 'vượt λ tối đa',
+  'pathStop.ALL_ELIMINATED': 'mọi đặc trưng đã bị loại',
+
+  // --- Step descriptions ---
+  'step.init': "Khởi tạo: Gán trọng số ngẫu nhiên cho mạng. Nhấn 'Bắt đầu' hoặc 'Bước tiếp' để chạy mô phỏng.",
+  'step.pretrain': 'Giai đoạn Pretrain: Chỉ chạy Gradient Descent thông thường để mạng học ổn định trước khi làm thưa.',
+  'step.gradient': 'Bước 1: Gradient Descent. Lan truyền ngược lỗi MSE, di chuyển θ, W và trọng số ẩn→đầu ra theo hướng đạo hàm.',
+  'step.hierProx': 'Bước 2: Hier-Prox (λη={threshold}). Giải đồng thời bài toán làm thưa θ và ràng buộc |W| ≤ M·|θ|.',
+  'step.proximal': 'Bước 2: Proximal (λη={threshold}). Phép ngưỡng {penalty} làm thưa θ, rồi kẹp W theo ràng buộc phân cấp.',
+  'step.groupLasso': 'Bước 2: Group Lasso (λη={threshold}). Co cả nhóm (θ, W) của mỗi đặc trưng theo chuẩn Euclid; nhóm có chuẩn ≤ λη bị loại hẳn.',
+
+  // --- AI panel ---
+  'ai.title': 'Trợ giảng AI',
+  'ai.provider.GEMINI': 'Gemini',
+  'ai.provider.OPENAI_COMPATIBLE': 'Máy chủ cục bộ (OpenAI API)',
+  'ai.provider.RULE_BASED': 'Giải thích theo quy tắc (offline)',
+  'ai.providerSettings': 'Cấu hình nhà cung cấp',
+  'ai.clear': 'Xóa cuộc trò chuyện',
+  'ai.ask': 'Hỏi AI',
+  'ai.askHint': 'Phân tích nhanh trạng thái hiện tại',
+  'ai.geminiModel': 'Mô hình Gemini',
+  'ai.baseUrl': 'Địa chỉ (base URL)',
+  'ai.model': 'Mô hình',
+  'ai.apiKey': 'API key (tùy chọn)',
+  'ai.empty': "Nhấn 'Hỏi AI' để phân tích trạng thái mạng, hoặc đặt câu hỏi như \"Vì sao X3 bị loại trước X2?\".",
+  'ai.fallback': '{reason} Đang dùng giải thích theo quy tắc.',
+  'ai.placeholder': 'Hỏi tiếp...',
+  'ai.send': 'Gửi',
+  'ai.noApiKey': 'Chưa cấu hình API_KEY cho Gemini.',
+  'ai.noEndpoint': 'Chưa nhập địa chỉ hoặc tên mô hình cho máy chủ cục bộ.',
+  'ai.failed': 'Không thể lấy câu trả lời lúc này.',
+  'error.geminiEmpty': 'Gemini không trả về câu trả lời.',
+  'error.localStatus': 'Máy chủ cục bộ trả về lỗi {status}.',
+  'error.localEmpty': 'Máy chủ cục bộ không trả về câu trả lời.',
+
+  // --- Step references ([bước N]) ---
+  'ref.step': 'bước',
+
+  // --- Rule-based explainer ---
+  'rules.init': 'Mạng vừa được khởi tạo ngẫu nhiên, chưa có bước tối ưu nào.',
+  'rules.pretrain': 'Đang pretrain với λ = 0 (epoch {epoch}, loss {loss}): chỉ giảm loss, chưa đặc trưng nào bị phạt.',
+  'rules.path': 'Đang chạy đường chính quy hóa tại λ = {lambda} (epoch {epoch}, loss {loss}): mỗi epoch gồm một bước gradient rồi một bước proximal làm thưa θ.',
+  'rules.finished': 'Mô phỏng đã kết thúc tại λ = {lambda} với loss {loss}.',
+  'rules.eliminatedAt': '{feature} tại λ={lambda}',
+  'rules.eliminated': 'Đã loại {count} đặc trưng theo thứ tự: {list}.',
+  'rules.noneEliminated': 'Chưa đặc trưng nào bị loại.',
+  'rules.nextElimination': '{feature} có |θ| nhỏ nhất ({theta}) nên nhiều khả năng bị loại tiếp theo.',
+  'rules.gradientNoConstraint': 'Bước gradient không áp ràng buộc phân cấp; |W| ≤ M·|θ| được áp lại ở bước proximal kế tiếp.',
+  'rules.constraintActive': 'Ràng buộc phân cấp |W| ≤ M·|θ| (M={m}) đang chặn W của {features}.',
+  'rules.constraintInactive': 'Ràng buộc phân cấp chưa chạm: mọi |W| còn nhỏ hơn M·|θ|.',
+  'rules.pathStartTheta': '; khi bắt đầu Path |θ|={theta}',
+  'rules.featureEliminated': '{feature} bị loại ở {step} (λ={lambda}){start}.',
+  'rules.featureActive': '{feature} chưa bị loại, |θ| hiện tại {theta}{start}.',
+  'rules.eliminationList': 'Các lần loại: {list}.',
+  'rules.eliminationAtStep': '{feature} ở {step}',
+  'rules.askAboutFeature': 'Hãy nêu tên đặc trưng (ví dụ X1) để xem chi tiết.',
+  'rules.firstEliminated': '{feature} bị loại trước tiên trong số này.',
+  'rules.whyOrder': 'Mỗi bước proximal trừ λ·η khỏi |θ|, còn bước gradient kéo θ trở lại theo mức đặc trưng giúp giảm loss; đặc trưng bị loại trước là đặc trưng được gradient đỡ yếu nhất, không nhất thiết là đặc trưng có |θ| nhỏ nhất lúc đầu.',
+
+  // --- History summary (tutor context) ---
+  'summary.dataset': 'Dữ liệu "{name}": {samples} mẫu, đặc trưng {features}.',
+  'summary.config': 'Cấu hình: M={m}, η={lr}, {hidden} nút ẩn, proximal {proximal}, hàm phạt {penalty}, lịch λ {schedule}.',
+  'summary.current': 'Hiện tại: {step}, giai đoạn {phase}, λ={lambda}, epoch {epoch}, loss={loss}.',
+  'summary.trajectory': 'Quỹ đạo θ (cuối mỗi λ):',
+  'summary.eliminations': 'Loại bỏ đặc trưng:',
+  'summary.clampChanges': 'Thay đổi ràng buộc phân cấp (gần nhất):',
+  'summary.none': '(chưa có)',
+  'summary.eliminatedShort': 'loại',
+  'summary.ref.eliminated': 'bị loại',
+  'summary.ref.clamped': 'bắt đầu bị kẹp bởi M·|θ|',
+  'summary.ref.released': 'thoát khỏi ràng buộc M·|θ|',
+
+  // --- LLM prompts ---
+  'prompt.analysis': `
+    Bạn là một chuyên gia về Học máy (Machine Learning) và đặc biệt là kiến trúc LassoNet.
+    Hãy phân tích trạng thái huấn luyện hiện tại của mô hình LassoNet đang được hiển thị.
+
+    Bối cảnh:
+    - Giai đoạn (Phase): {phase}
+    - Lambda hiện tại (Hệ số phạt): {lambda}
+    - Epoch: {epoch}
+    - Bước tối ưu (Step Type): {stepType}
+    - Loss (MSE) trên dữ liệu: {loss}
+    - Hệ số phân cấp M: {m}, Learning rate: {lr}
+
+    Trọng số đặc trưng (Feature Weights):
+    {features}
+
+    Hãy trả lời:
+    Điều gì đang xảy ra với việc lựa chọn đặc trưng?
+    Đặc trưng nào đang bị loại bỏ (theta tiến về 0)?
+    Ràng buộc phân cấp ( |W| <= M*|theta| ) có đang hoạt động không?
+
+    Chỉ trả về MỘT đối tượng JSON, không kèm văn bản khác, đúng dạng:
+    {
+      "summary": "giải thích ngắn gọn bằng tiếng Việt, tối đa 2 câu",
+      "features": [{ "id": <số thứ tự đặc trưng>, "verdict": "kept" | "shrinking" | "eliminated" }],
+      "constraintActive": <true nếu |W| ≤ M·|θ| đang chặn W của ít nhất một đặc trưng>,
+      "nextElimination": <id đặc trưng dự đoán bị loại tiếp theo, hoặc null>
+    }
+    Mỗi đặc trưng xuất hiện đúng một lần trong "features".
+  `,
+  'prompt.tutor': `
+Bạn là trợ giảng về Học máy, đang giúp sinh viên hiểu một mô phỏng LassoNet từng bước.
+Trả lời bằng TIẾNG VIỆT, ngắn gọn, dựa trên dữ liệu mô phỏng bên dưới; đừng bịa số liệu không có trong đó.
+Khi nhắc tới một thời điểm cụ thể, hãy ghi đúng dạng [bước N] (N là số bước trong dữ liệu) để sinh viên bấm vào xem lại.
+
+Dữ liệu mô phỏng:
+{summary}
+`
+} as const;
+
+export type MessageKey = keyof typeof vi;
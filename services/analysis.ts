@@ -0,0 +1,95 @@
+import { AnalysisProviderId, AnalysisResult, AnalysisSettings, ChatMessage, SimulationState, SimulationTimeline } from "../types";
+import { DEFAULT_ANALYSIS_SETTINGS } from "../constants";
+import { AnalysisProvider } from "./analysisProvider";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleService";
+import { ruleBasedProvider } from "./ruleBasedExplainer";
+import { I18n, errorText } from "./i18n";
+
+const SETTINGS_STORAGE_KEY = 'lassonet.analysisSettings';
+
+export const createProvider = (settings: AnalysisSettings): AnalysisProvider => {
+  switch (settings.provider) {
+    case AnalysisProviderId.GEMINI:
+      return createGeminiProvider(settings.geminiModel);
+    case AnalysisProviderId.OPENAI_COMPATIBLE:
+      return createOpenAiCompatibleProvider(settings.localBaseUrl, settings.localModel, settings.localApiKey);
+    case AnalysisProviderId.RULE_BASED:
+      return ruleBasedProvider;
+  }
+};
+
+// Snapshots are immutable, so each one can hold its answers until it is garbage collected
+const cache = new WeakMap<SimulationState, Map<string, AnalysisResult>>();
+
+const fallback = async (state: SimulationState, reason: string, i18n: I18n): Promise<AnalysisResult> => ({
+  ...await ruleBasedProvider.analyze(state, i18n),
+  provider: AnalysisProviderId.RULE_BASED,
+  fallbackReason: reason
+});
+
+const unavailableReason = (provider: AnalysisProvider, { t }: I18n): string =>
+  t(provider.id === AnalysisProviderId.GEMINI ? 'ai.noApiKey' : 'ai.noEndpoint');
+
+const failureReason = (error: unknown, i18n: I18n): string =>
+  errorText(error, i18n) || i18n.t('ai.failed');
+
+// Never rejects: any failure of the selected provider is answered by the rule-based explainer.
+// Fallback answers are not cached, so asking again retries the selected provider.
+export const analyzeState = async (state: SimulationState, settings: AnalysisSettings, i18n: I18n): Promise<AnalysisResult> => {
+  const provider = createProvider(settings);
+  // Answers are written in the UI language, so each locale is cached separately
+  const cacheKey = `${provider.cacheKey}:${i18n.locale}`;
+  const cached = cache.get(state)?.get(cacheKey);
+  if (cached) return cached;
+
+  if (!provider.isAvailable()) {
+    return fallback(state, unavailableReason(provider, i18n), i18n);
+  }
+
+  try {
+    const result: AnalysisResult = { ...await provider.analyze(state, i18n), provider: provider.id };
+    if (!cache.has(state)) cache.set(state, new Map());
+    cache.get(state)!.set(cacheKey, result);
+    return result;
+  } catch (error) {
+    console.error("Analysis provider error:", error);
+    return fallback(state, failureReason(error, i18n), i18n);
+  }
+};
+
+// Like analyzeState, but for a tutor conversation; answers are not cached since they depend on the whole chat
+export const askTutor = async (
+  messages: ChatMessage[],
+  timeline: SimulationTimeline,
+  settings: AnalysisSettings,
+  i18n: I18n
+): Promise<AnalysisResult> => {
+  const provider = createProvider(settings);
+  const fallbackChat = async (reason: string): Promise<AnalysisResult> => ({
+    text: await ruleBasedProvider.chat(messages, timeline, i18n),
+    provider: AnalysisProviderId.RULE_BASED,
+    fallbackReason: reason
+  });
+
+  if (!provider.isAvailable()) return fallbackChat(unavailableReason(provider, i18n));
+  try {
+    return { text: await provider.chat(messages, timeline, i18n), provider: provider.id };
+  } catch (error) {
+    console.error("Analysis provider error:", error);
+    return fallbackChat(failureReason(error, i18n));
+  }
+};
+
+export const loadAnalysisSettings = (): AnalysisSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return saved ? { ...DEFAULT_ANALYSIS_SETTINGS, ...JSON.parse(saved) } : DEFAULT_ANALYSIS_SETTINGS;
+  } catch {
+    return DEFAULT_ANALYSIS_SETTINGS;
+  }
+};
+
+export const saveAnalysisSettings = (settings: AnalysisSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,47 @@
+import { AnalysisProviderId, ChatMessage, SimulationState, SimulationTimeline } from "../types";
+import { summarizeHistory } from "./historySummary";
+import { AnalysisPayload } from "./analysisSchema";
+import { I18n } from "./i18n";
+
+// Older turns are dropped so long conversations stay within the model's context
+const MAX_CHAT_TURNS = 12;
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  // Distinguishes cached answers from differently configured instances (e.g. another model)
+  cacheKey: string;
+  // False when the provider cannot run at all, e.g. a missing API key
+  isAvailable: () => boolean;
+  // Throws on failure so the caller can fall back
+  analyze: (state: SimulationState, i18n: I18n) => Promise<AnalysisPayload>;
+  // Answers the last user message of a tutor conversation about the timeline
+  chat: (messages: ChatMessage[], timeline: SimulationTimeline, i18n: I18n) => Promise<string>;
+}
+
+// Shared by the LLM providers so every model sees the same context, in the UI language
+export const buildAnalysisPrompt = (state: SimulationState, { t }: I18n): string => {
+  const featureSummary = state.features.map((f, i) =>
+    `Feature ${f.id} (${state.dataset.featureNames[i] ?? '?'}): Theta=${f.theta.toFixed(3)}, Max(|W|)=${Math.max(...f.w.map(Math.abs)).toFixed(3)}, Active=${f.isActive}`
+  ).join('\n    ');
+
+  return t('prompt.analysis', {
+    phase: state.phase,
+    lambda: state.lambda.toFixed(3),
+    epoch: String(state.epoch),
+    stepType: state.step,
+    loss: state.loss.toFixed(4),
+    m: String(state.config.mConstant),
+    lr: String(state.config.learningRate),
+    features: featureSummary
+  });
+};
+
+export const buildTutorInstructions = (timeline: SimulationTimeline, i18n: I18n): string =>
+  i18n.t('prompt.tutor', { summary: summarizeHistory(timeline, i18n) });
+
+// Conversations sent to a model must start with a user turn
+export const recentTurns = (messages: ChatMessage[]): ChatMessage[] => {
+  const recent = messages.slice(-MAX_CHAT_TURNS);
+  const firstUser = recent.findIndex(m => m.role === 'user');
+  return firstUser === -1 ? [] : recent.slice(firstUser);
+};
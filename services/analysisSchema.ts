@@ -0,0 +1,90 @@
+import { FeatureAssessment, FeatureVerdict, SimulationState, StructuredAnalysis } from "../types";
+
+// JSON contract for LLM analyses. Answers that do not validate are shown as plain text.
+
+export interface AnalysisPayload {
+  text: string;
+  structured?: StructuredAnalysis;
+}
+
+// JSON Schema handed to providers that support constrained output; the prompts describe the same shape
+export const ANALYSIS_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    features: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          verdict: { type: 'string', enum: ['kept', 'shrinking', 'eliminated'] }
+        },
+        required: ['id', 'verdict']
+      }
+    },
+    constraintActive: { type: 'boolean' },
+    nextElimination: { type: ['integer', 'null'] }
+  },
+  required: ['summary', 'features', 'constraintActive', 'nextElimination']
+};
+
+const VERDICTS: Record<string, FeatureVerdict> = {
+  kept: FeatureVerdict.KEPT,
+  shrinking: FeatureVerdict.SHRINKING,
+  eliminated: FeatureVerdict.ELIMINATED
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFeatureId = (value: unknown, numFeatures: number): value is number =>
+  Number.isInteger(value) && (value as number) >= 1 && (value as number) <= numFeatures;
+
+// Accepts both the wire format (lower-case verdicts, `id`) and stored StructuredAnalysis objects
+export const validateStructuredAnalysis = (
+  value: unknown,
+  numFeatures: number,
+  stepIndex: number
+): StructuredAnalysis | null => {
+  if (!isObject(value) || !Array.isArray(value.features) || typeof value.constraintActive !== 'boolean') {
+    return null;
+  }
+  const next = value.nextElimination;
+  if (next !== null && !isFeatureId(next, numFeatures)) return null;
+
+  const features: FeatureAssessment[] = [];
+  for (const item of value.features) {
+    if (!isObject(item)) return null;
+    const featureId = item.id ?? item.featureId;
+    const verdict = typeof item.verdict === 'string' ? VERDICTS[item.verdict.toLowerCase()] : undefined;
+    if (!isFeatureId(featureId, numFeatures) || !verdict) return null;
+    if (features.some(f => f.featureId === featureId)) return null;
+    features.push({ featureId, verdict });
+  }
+
+  return {
+    stepIndex: typeof value.stepIndex === 'number' ? value.stepIndex : stepIndex,
+    features,
+    constraintActive: value.constraintActive,
+    nextElimination: next as number | null
+  };
+};
+
+// Models often wrap JSON in a ```json fence despite being told not to
+const stripFence = (raw: string): string =>
+  raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+export const toAnalysisPayload = (raw: string, state: SimulationState): AnalysisPayload => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripFence(raw));
+  } catch {
+    return { text: raw };
+  }
+  const structured = validateStructuredAnalysis(parsed, state.features.length, state.stepIndex);
+  if (!structured || !isObject(parsed) || typeof parsed.summary !== 'string') {
+    return { text: raw };
+  }
+  return { text: parsed.summary, structured };
+};
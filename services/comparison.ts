@@ -0,0 +1,48 @@
+import {
+  ComparisonMethod,
+  ComparisonRun,
+  Dataset,
+  ProximalMode,
+  SimulationConfig
+} from "../types";
+import { createSimulation, runToEnd } from "./simulationEngine";
+import { eliminationLambdas } from "./pathTrace";
+
+// Baselines reuse the engine, so they share the pretraining, λ schedule and stopping rules
+export const comparisonConfig = (config: SimulationConfig, method: ComparisonMethod): SimulationConfig => {
+  switch (method) {
+    case ComparisonMethod.LASSO:
+      // Without hidden units both LassoNet operators reduce to soft-thresholding θ
+      return { ...config, hiddenSize: 0, deepLayers: [], proximalMode: ProximalMode.THRESHOLD_CLAMP };
+    case ComparisonMethod.GROUP_LASSO:
+      return { ...config, proximalMode: ProximalMode.GROUP_LASSO };
+    case ComparisonMethod.LASSONET:
+      // Keep the operator picked in the controls unless it is the baseline itself
+      return config.proximalMode === ProximalMode.GROUP_LASSO
+        ? { ...config, proximalMode: ProximalMode.HIER_PROX }
+        : config;
+  }
+};
+
+export const runComparison = (config: SimulationConfig, dataset: Dataset, method: ComparisonMethod): ComparisonRun => {
+  const { state } = runToEnd(createSimulation(comparisonConfig(config, method), dataset));
+  const eliminatedAt = eliminationLambdas(state.events, dataset.featureNames.length);
+  return { method, path: state.path, eliminatedAt };
+};
+
+// Each path runs synchronously, so the loop yields to the browser between methods to keep
+// the page responsive and the progress visible
+export const runAllComparisons = async (
+  config: SimulationConfig,
+  dataset: Dataset,
+  onProgress?: (done: number, total: number) => void
+): Promise<ComparisonRun[]> => {
+  const methods = Object.values(ComparisonMethod);
+  const runs: ComparisonRun[] = [];
+  for (const method of methods) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    runs.push(runComparison(config, dataset, method));
+    onProgress?.(runs.length, methods.length);
+  }
+  return runs;
+};
@@ -0,0 +1,286 @@
+import { Dataset, DatasetSplit, ParsedCsv, SignalType, SyntheticDatasetSpec, TaskType } from "../types";
+import { DUPLICATE_NOISE } from "../constants";
+import { createRng, gaussian } from "./random";
+import { LocalizedError, LocalizedMessage } from "./i18n";
+
+// --- Scaling helpers ---
+
+const center = (values: number[]) => {
+  const mean = values.reduce((s, v) => s + v, 0) / Math.max(1, values.length);
+  return { values: values.map(v => v - mean), mean };
+};
+
+const standardize = (values: number[]): number[] => {
+  const { values: centered } = center(values);
+  const variance = centered.reduce((s, v) => s + v * v, 0) / Math.max(1, centered.length);
+  const std = Math.sqrt(variance);
+  // Constant columns stay at zero instead of blowing up
+  return std > 1e-12 ? centered.map(v => v / std) : centered;
+};
+
+// --- Synthetic generators ---
+
+// Signal strength decays with the column index so features drop out one by one
+const signalCoefficient = (i: number): number => 1.5 * Math.pow(0.55, i);
+
+const signalTerm = (signal: SignalType, x: number[], i: number): number => {
+  const beta = signalCoefficient(i);
+  switch (signal) {
+    case SignalType.LINEAR:
+      return beta * x[i];
+    case SignalType.MIXED:
+      return i % 2 === 0 ? beta * x[i] : beta * Math.tanh(1.5 * x[i]);
+    case SignalType.NONLINEAR:
+      return i % 2 === 0 ? beta * Math.sin(1.5 * x[i]) : beta * (x[i] * x[i] - 1);
+    case SignalType.INTERACTION:
+      // Only even columns contribute, paired with their right neighbour
+      return i % 2 === 0 && i + 1 < x.length ? beta * x[i] * x[i + 1] : 0;
+  }
+};
+
+// Ranges of the generator's inputs; the dataset panel offers the same ones
+export const DATASET_SPEC_BOUNDS: Record<Exclude<keyof SyntheticDatasetSpec, 'signal'>, { min: number, max: number, integer: boolean }> = {
+  numSignal: { min: 1, max: 10, integer: true },
+  numDuplicates: { min: 0, max: 10, integer: true },
+  numNoise: { min: 0, max: 20, integer: true },
+  numSamples: { min: 10, max: 1000, integer: true },
+  noise: { min: 0, max: 2, integer: false },
+  numClasses: { min: 0, max: 10, integer: true },
+  seed: { min: 0, max: 2 ** 32 - 1, integer: true } // The generator's seed is a uint32
+};
+
+// Returns a list of problems as catalog messages; an empty list means the spec can be generated.
+// Specs also come from share links and the CLI, so anything outside the bounds is rejected here.
+export const validateDatasetSpec = (spec: SyntheticDatasetSpec): LocalizedMessage[] => {
+  const errors: LocalizedMessage[] = [];
+  if (!Object.values(SignalType).includes(spec.signal)) {
+    errors.push({ key: 'dataset.signalType' });
+  }
+  (Object.keys(DATASET_SPEC_BOUNDS) as (keyof typeof DATASET_SPEC_BOUNDS)[]).forEach(key => {
+    const { min, max, integer } = DATASET_SPEC_BOUNDS[key];
+    const value = spec[key];
+    if (typeof value !== 'number' || !(value >= min && value <= max) || (integer && !Number.isInteger(value))) {
+      errors.push({ key: integer ? 'dataset.integerRange' : 'dataset.numberRange', params: { field: { key: `dataset.field.${key}` }, min, max } });
+    }
+  });
+  return errors;
+};
+
+// Columns are laid out as [signal..., duplicates..., noise...]
+export const generateSyntheticDataset = (spec: SyntheticDatasetSpec): Dataset => {
+  const rng = createRng(spec.seed);
+  const numSignal = Math.max(1, spec.numSignal);
+  const numDuplicates = Math.min(spec.numDuplicates, numSignal);
+
+  const X: number[][] = [];
+  const y: number[] = [];
+
+  for (let k = 0; k < spec.numSamples; k++) {
+    const signalCols = Array.from({ length: numSignal }, () => gaussian(rng));
+    const duplicateCols = signalCols
+      .slice(0, numDuplicates)
+      .map(v => v + DUPLICATE_NOISE * gaussian(rng));
+    const noiseCols = Array.from({ length: spec.numNoise }, () => gaussian(rng));
+
+    const target = signalCols.reduce((sum, _, i) => sum + signalTerm(spec.signal, signalCols, i), 0);
+    X.push([...signalCols, ...duplicateCols, ...noiseCols]);
+    y.push(target + spec.noise * gaussian(rng));
+  }
+
+  const featureNames = [
+    ...Array.from({ length: numSignal }, (_, i) => `signal_${i + 1}`),
+    ...Array.from({ length: numDuplicates }, (_, i) => `dup_${i + 1}`),
+    ...Array.from({ length: spec.numNoise }, (_, i) => `noise_${i + 1}`)
+  ];
+
+  const name = `${spec.signal.toLowerCase()} (seed ${spec.seed})`;
+  if (spec.numClasses >= 2) {
+    return { name, featureNames, X, ...quantileClasses(y, spec.numClasses), spec };
+  }
+  // Center the target so the network does not need an output bias
+  return { name, featureNames, X, y: center(y).values, spec };
+};
+
+// Cuts a continuous target into classes of (nearly) equal size, lowest values first
+const quantileClasses = (target: number[], numClasses: number): { y: number[], classes: string[] } => {
+  const order = target.map((_, k) => k).sort((a, b) => target[a] - target[b]);
+  const y: number[] = Array(target.length).fill(0);
+  order.forEach((k, rank) => {
+    y[k] = Math.floor((rank * numClasses) / target.length);
+  });
+  return { y, classes: Array.from({ length: numClasses }, (_, c) => `class_${c + 1}`) };
+};
+
+// --- Task ---
+
+export const taskOf = (dataset: Dataset): TaskType => {
+  if (!dataset.classes) return TaskType.REGRESSION;
+  return dataset.classes.length > 2 ? TaskType.MULTICLASS : TaskType.BINARY;
+};
+
+// Binary classification needs a single logit; multi-class has one per class
+export const outputCount = (dataset: Dataset): number =>
+  taskOf(dataset) === TaskType.MULTICLASS ? dataset.classes!.length : 1;
+
+// Labels of the output nodes; a binary logit scores the second class against the first
+export const outputNames = (dataset: Dataset): string[] => {
+  switch (taskOf(dataset)) {
+    case TaskType.REGRESSION:
+      return ['Y'];
+    case TaskType.BINARY:
+      return [dataset.classes![1]];
+    case TaskType.MULTICLASS:
+      return dataset.classes!;
+  }
+};
+
+// --- Train/validation split ---
+
+const subset = (dataset: Dataset, rows: number[]): Dataset => ({
+  ...dataset,
+  X: rows.map(k => dataset.X[k]),
+  y: rows.map(k => dataset.y[k])
+});
+
+// The engine asks for the split on every step, so it is built once per dataset and setting
+const splitCache = new WeakMap<Dataset, Map<string, DatasetSplit>>();
+
+// Seeded shuffle, so a run always holds out the same rows; both parts keep at least one row
+export const splitDataset = (dataset: Dataset, fraction: number, seed: number): DatasetSplit => {
+  const n = dataset.X.length;
+  const numValidation = fraction > 0 && n >= 2 ? Math.min(n - 1, Math.max(1, Math.round(n * fraction))) : 0;
+  if (numValidation === 0) return { train: dataset, validation: null };
+
+  const key = `${numValidation}:${seed}`;
+  const cached = splitCache.get(dataset)?.get(key);
+  if (cached) return cached;
+
+  const rng = createRng(seed + 3);
+  const order = Array.from({ length: n }, (_, k) => k);
+  for (let k = n - 1; k > 0; k--) {
+    const r = Math.floor(rng() * (k + 1));
+    [order[k], order[r]] = [order[r], order[k]];
+  }
+  const split: DatasetSplit = {
+    train: subset(dataset, order.slice(numValidation).sort((a, b) => a - b)),
+    validation: subset(dataset, order.slice(0, numValidation).sort((a, b) => a - b))
+  };
+  if (!splitCache.has(dataset)) splitCache.set(dataset, new Map());
+  splitCache.get(dataset)!.set(key, split);
+  return split;
+};
+
+// Rows drawn with replacement, for stability selection
+export const bootstrapDataset = (dataset: Dataset, seed: number): Dataset => {
+  const rng = createRng(seed);
+  const n = dataset.X.length;
+  const rows = Array.from({ length: n }, () => Math.floor(rng() * n));
+  return { ...subset(dataset, rows), name: `${dataset.name} (bootstrap ${seed})`, spec: undefined };
+};
+
+// --- CSV loading ---
+
+const detectDelimiter = (headerLine: string): string => {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, d) =>
+    headerLine.split(d).length > headerLine.split(best).length ? d : best
+  , ',');
+};
+
+// Splits one CSV line, honouring double-quoted fields and "" escapes
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inQuotes) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+};
+
+export const parseCsv = (text: string): ParsedCsv => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0);
+  if (lines.length < 2) {
+    throw new LocalizedError('error.csvTooShort');
+  }
+
+  const delimiter = detectDelimiter(lines[0]);
+  const headers = splitCsvLine(lines[0], delimiter);
+  const rows = lines.slice(1)
+    .map(l => splitCsvLine(l, delimiter))
+    .filter(r => r.length === headers.length);
+
+  return { headers, rows };
+};
+
+const isNumeric = (cell: string): boolean => cell !== '' && Number.isFinite(Number(cell));
+
+// Columns where every row parses as a number are usable as features or target
+export const numericColumns = (csv: ParsedCsv): number[] =>
+  csv.headers
+    .map((_, c) => c)
+    .filter(c => csv.rows.every(r => isNumeric(r[c])));
+
+// With `classify` the target column holds class labels, which need not be numeric
+export const buildCsvDataset = (
+  csv: ParsedCsv,
+  featureColumns: number[],
+  targetColumn: number,
+  options: { standardize: boolean, name?: string, classify?: boolean }
+): Dataset => {
+  if (featureColumns.length === 0) {
+    throw new LocalizedError('error.noFeatureColumns');
+  }
+  if (featureColumns.includes(targetColumn)) {
+    throw new LocalizedError('error.targetIsFeature');
+  }
+
+  const numericColumnsUsed = options.classify ? featureColumns : [...featureColumns, targetColumn];
+  const rows = csv.rows.filter(r => numericColumnsUsed.every(c => isNumeric(r[c])) && r[targetColumn] !== '');
+  if (rows.length === 0) {
+    throw new LocalizedError('error.noNumericRows');
+  }
+
+  // Work column-wise so each feature can be standardized independently
+  const columns = featureColumns.map(c => rows.map(r => Number(r[c])));
+  const scaledColumns = options.standardize ? columns.map(standardize) : columns;
+  const base = {
+    name: options.name ?? 'CSV',
+    featureNames: featureColumns.map(c => csv.headers[c]),
+    X: rows.map((_, k) => scaledColumns.map(col => col[k]))
+  };
+
+  if (options.classify) {
+    const labels = rows.map(r => r[targetColumn]);
+    // Numeric labels sort by value, text labels alphabetically
+    const classes = [...new Set(labels)].sort((a, b) =>
+      isNumeric(a) && isNumeric(b) ? Number(a) - Number(b) : a.localeCompare(b));
+    if (classes.length < 2) {
+      throw new LocalizedError('error.singleClass');
+    }
+    return { ...base, y: labels.map(label => classes.indexOf(label)), classes };
+  }
+
+  const target = rows.map(r => Number(r[targetColumn]));
+  const y = options.standardize ? standardize(target) : center(target).values;
+  return { ...base, y };
+};
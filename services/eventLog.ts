@@ -0,0 +1,80 @@
+import {
+  SimulationEvent,
+  SimulationEventType,
+  SimulationPhase,
+  SimulationState,
+  OptimizationStep,
+  ProximalMode,
+  PenaltyType,
+  ManualEdit,
+  ManualEditType
+} from "../types";
+import { LocalizedMessage } from "./i18n";
+
+// Engine events as catalog messages, so the log re-renders when the language changes
+
+const featureLabel = (featureId: number, featureNames: string[]): string =>
+  `X${featureId} (${featureNames[featureId - 1] ?? '?'})`;
+
+const editMessage = (edit: ManualEdit, feature: string, step: number): LocalizedMessage => {
+  switch (edit.type) {
+    case ManualEditType.PIN_FEATURE:
+      return { key: edit.pinned ? 'event.pinned' : 'event.unpinned', params: { feature, step } };
+    case ManualEditType.REMOVE_FEATURE:
+      return { key: 'event.removed', params: { feature, step } };
+    case ManualEditType.SET_THETA:
+      return { key: 'event.thetaSet', params: { feature, step, value: edit.value } };
+  }
+};
+
+export const eventMessage = (event: SimulationEvent, featureNames: string[]): LocalizedMessage => {
+  switch (event.type) {
+    case SimulationEventType.INITIALIZED:
+      return {
+        key: event.numValidation ? 'event.initializedSplit' : 'event.initialized',
+        params: { features: event.numFeatures, dataset: event.datasetName, samples: event.numSamples, validation: event.numValidation ?? 0 }
+      };
+    case SimulationEventType.PHASE_CHANGED:
+      return event.phase === SimulationPhase.PRETRAIN
+        ? { key: 'event.pretrain' }
+        : { key: 'event.pathStarted', params: { lambda: event.lambda } };
+    case SimulationEventType.GRADIENT_STEP:
+      return { key: 'event.gradient', params: { loss: event.loss } };
+    case SimulationEventType.PROXIMAL_STEP:
+      return { key: 'event.proximal', params: { lambda: event.lambda } };
+    case SimulationEventType.FEATURE_ELIMINATED:
+      return {
+        key: 'event.eliminated',
+        params: { feature: featureLabel(event.featureId, featureNames), lambda: event.lambda }
+      };
+    case SimulationEventType.LAMBDA_COMPLETED:
+      return {
+        key: 'event.lambdaCompleted',
+        params: { lambda: event.lambda, epochs: event.epochs, reason: { key: `lambdaStop.${event.reason}` } }
+      };
+    case SimulationEventType.LAMBDA_INCREASED:
+      return { key: 'event.lambdaIncreased', params: { lambda: event.lambda } };
+    case SimulationEventType.PATH_FINISHED:
+      return { key: 'event.finished', params: { reason: { key: `pathStop.${event.reason}` } } };
+    case SimulationEventType.MANUAL_EDIT:
+      return editMessage(event.edit, featureLabel(event.edit.featureId, featureNames), event.stepIndex);
+  }
+};
+
+// Explanation of the step that produced this state, for the status box
+export const describeStep = (state: SimulationState): LocalizedMessage => {
+  const details = state.calculationDetails;
+  if (!details) {
+    return { key: state.phase === SimulationPhase.INIT ? 'step.init' : 'step.pretrain' };
+  }
+  if (details.stepType === OptimizationStep.GRADIENT) {
+    return { key: 'step.gradient' };
+  }
+  const key = details.proximalMode === ProximalMode.HIER_PROX ? 'step.hierProx'
+    : details.proximalMode === ProximalMode.GROUP_LASSO ? 'step.groupLasso'
+    : 'step.proximal';
+  return {
+    key,
+    params: { threshold: details.lambda ?? 0, penalty: { key: `penalty.${details.penalty ?? PenaltyType.L1}` } }
+  };
+};
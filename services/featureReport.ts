@@ -0,0 +1,156 @@
+import {
+  Dataset,
+  FeatureReportRow,
+  SimulationConfig,
+  SimulationState,
+  StabilityResampling,
+  StabilityResult
+} from "../types";
+import { createSimulation, runToEnd } from "./simulationEngine";
+import { bootstrapDataset } from "./dataset";
+import { csvEscape, eliminationLambdas } from "./pathTrace";
+import { I18n } from "./i18n";
+
+// --- Report of a single run ---
+
+export const buildFeatureReport = (state: SimulationState): FeatureReportRow[] => {
+  const names = state.dataset.featureNames;
+  const eliminatedAt = eliminationLambdas(state.events, names.length);
+  // Survivors count as dropping out after every recorded λ
+  const survival = eliminatedAt.map(lambda => lambda ?? Infinity);
+  const snapshots: { lambda: number, thetas: number[] }[] = [
+    ...state.path.map(p => ({ lambda: p.lambda, thetas: p.features.map(f => f.theta) })),
+    { lambda: state.lambda, thetas: state.features.map(f => f.theta) }
+  ];
+
+  return names.map((name, i) => {
+    const peak = snapshots.reduce((best, point) =>
+      Math.abs(point.thetas[i]) > Math.abs(best.theta) ? { theta: point.thetas[i], lambda: point.lambda } : best
+    , { theta: 0, lambda: 0 });
+    return {
+      featureId: i + 1,
+      name,
+      eliminatedAt: eliminatedAt[i],
+      rank: 1 + survival.filter(s => s > survival[i]).length,
+      peakTheta: peak.theta,
+      peakLambda: peak.lambda
+    };
+  }).sort((a, b) => a.rank - b.rank || a.featureId - b.featureId);
+};
+
+// --- Stability selection ---
+
+// A feature counts as selected at λ while it has not been eliminated yet
+const isSelected = (eliminatedAt: number | null, lambda: number): boolean =>
+  eliminatedAt === null || lambda < eliminatedAt;
+
+export interface StabilityOptions {
+  resampling: StabilityResampling;
+  runs: number;
+  onProgress?: (done: number) => void;
+}
+
+// Reruns the whole path `runs` times. Each run is synchronous, so the loop yields to the
+// browser in between to keep the page responsive and the progress visible.
+export const runStabilitySelection = async (
+  config: SimulationConfig,
+  dataset: Dataset,
+  { resampling, runs, onProgress }: StabilityOptions
+): Promise<StabilityResult> => {
+  const results: { lambdas: number[], eliminatedAt: (number | null)[] }[] = [];
+  for (let r = 0; r < runs; r++) {
+    const seed = config.seed + r;
+    const runConfig = resampling === StabilityResampling.SEEDS ? { ...config, seed } : config;
+    const runDataset = resampling === StabilityResampling.BOOTSTRAP ? bootstrapDataset(dataset, seed) : dataset;
+    const { state } = runToEnd(createSimulation(runConfig, runDataset));
+    results.push({
+      lambdas: state.path.map(p => p.lambda),
+      eliminatedAt: eliminationLambdas(state.events, dataset.featureNames.length)
+    });
+    onProgress?.(r + 1);
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  // Runs can stop at different λ, so frequencies are taken on the union of their grids
+  const lambdas = [...new Set(results.flatMap(run => run.lambdas))].sort((a, b) => a - b);
+  const frequencies = lambdas.map(lambda =>
+    dataset.featureNames.map((_, i) =>
+      results.filter(run => isSelected(run.eliminatedAt[i], lambda)).length / Math.max(1, runs)
+    )
+  );
+  return { resampling, runs, lambdas, frequencies };
+};
+
+// Mean selection frequency over the λ grid. The textbook score is the maximum over a λ range,
+// but along a full path every feature starts out selected, so the maximum is always 1.
+export const stabilityScore = (stability: StabilityResult, featureIndex: number): number =>
+  stability.frequencies.reduce((sum, row) => sum + row[featureIndex], 0) / Math.max(1, stability.frequencies.length);
+
+// --- Export ---
+
+const formatNumber = (value: number): string => String(+value.toFixed(4));
+
+// One row per feature; stability adds the score and one column per λ of the grid
+export const reportToCsv = (rows: FeatureReportRow[], stability: StabilityResult | null): string => {
+  const header = [
+    'rank', 'featureId', 'feature', 'eliminatedAt', 'peakTheta', 'peakLambda',
+    ...(stability ? ['stabilityScore', ...stability.lambdas.map(l => `freq@${formatNumber(l)}`)] : [])
+  ];
+  const lines = rows.map(row => [
+    row.rank, row.featureId, row.name, row.eliminatedAt ?? '', row.peakTheta, row.peakLambda,
+    ...(stability
+      ? [stabilityScore(stability, row.featureId - 1), ...stability.frequencies.map(f => f[row.featureId - 1])]
+      : [])
+  ].map(csvEscape).join(','));
+  return [header.join(','), ...lines].join('\n') + '\n';
+};
+
+const markdownRow = (cells: string[]): string => `| ${cells.map(c => c.replace(/\|/g, '\\|')).join(' | ')} |`;
+
+const markdownTable = (header: string[], rows: string[][]): string[] => [
+  markdownRow(header),
+  markdownRow(header.map(() => '---')),
+  ...rows.map(markdownRow)
+];
+
+export const reportToMarkdown = (
+  rows: FeatureReportRow[],
+  stability: StabilityResult | null,
+  state: SimulationState,
+  { t }: I18n
+): string => {
+  const lines = [
+    `# ${t('report.title')}`,
+    '',
+    t('report.markdownIntro', { dataset: state.dataset.name, lambda: formatNumber(state.lambda), phase: state.phase }),
+    '',
+    ...markdownTable(
+      [t('report.rank'), t('report.feature'), t('report.eliminatedAt'), t('report.peakTheta'), ...(stability ? [t('report.stabilityScore')] : [])],
+      rows.map(row => [
+        String(row.rank),
+        `X${row.featureId} ${row.name}`,
+        row.eliminatedAt === null ? t('report.survived') : formatNumber(row.eliminatedAt),
+        t('report.peakValue', { theta: formatNumber(row.peakTheta), lambda: formatNumber(row.peakLambda) }),
+        ...(stability ? [formatNumber(stabilityScore(stability, row.featureId - 1))] : [])
+      ])
+    )
+  ];
+
+  if (stability) {
+    lines.push(
+      '',
+      `## ${t('report.stabilityTitle')}`,
+      '',
+      t('report.stabilityIntro', { runs: stability.runs, resampling: { key: `report.resampling.${stability.resampling}` } }),
+      '',
+      ...markdownTable(
+        ['λ', ...rows.map(row => `X${row.featureId}`)],
+        stability.lambdas.map((lambda, k) => [
+          formatNumber(lambda),
+          ...rows.map(row => formatNumber(stability.frequencies[k][row.featureId - 1]))
+        ])
+      )
+    );
+  }
+  return lines.join('\n') + '\n';
+};
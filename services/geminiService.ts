@@ -1,47 +1,39 @@
-
 import { GoogleGenAI } from "@google/genai";
-import { SimulationState, WeightData } from "../types";
-
-// Initialize Gemini Client
-// process.env.API_KEY is assumed to be available and valid per guidelines
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-export const analyzeLassoNetState = async (state: SimulationState): Promise<string> => {
-  if (!process.env.API_KEY) {
-    return "Vui lòng cấu hình process.env.API_KEY để sử dụng AI phân tích.";
-  }
+import { AnalysisProviderId } from "../types";
+import { AnalysisProvider, buildAnalysisPrompt, buildTutorInstructions, recentTurns } from "./analysisProvider";
+import { ANALYSIS_JSON_SCHEMA, toAnalysisPayload } from "./analysisSchema";
+import { LocalizedError } from "./i18n";
 
-  const featureSummary = state.features.map(f => 
-    `Feature ${f.id}: Theta=${f.theta.toFixed(3)}, Max(|W|)=${Math.max(...f.w.map(Math.abs)).toFixed(3)}, Active=${f.isActive}`
-  ).join('\n');
-
-  const prompt = `
-    Bạn là một chuyên gia về Học máy (Machine Learning) và đặc biệt là kiến trúc LassoNet.
-    Hãy phân tích trạng thái huấn luyện hiện tại của mô hình LassoNet đang được hiển thị.
-    
-    Bối cảnh:
-    - Giai đoạn (Phase): ${state.phase}
-    - Lambda hiện tại (Hệ số phạt): ${state.lambda.toFixed(3)}
-    - Epoch: ${state.epoch}
-    - Bước tối ưu (Step Type): ${state.step}
-    
-    Trọng số đặc trưng (Feature Weights):
-    ${featureSummary}
-    
-    Hãy giải thích ngắn gọn bằng TIẾNG VIỆT (tối đa 2 câu):
-    Điều gì đang xảy ra với việc lựa chọn đặc trưng? 
-    Đặc trưng nào đang bị loại bỏ (theta tiến về 0)? 
-    Ràng buộc phân cấp ( |W| <= M*|theta| ) có đang hoạt động không?
-  `;
+// Created on first use so the app loads (and works offline) without an API key
+let client: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  client ??= new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
+export const createGeminiProvider = (model: string): AnalysisProvider => ({
+  id: AnalysisProviderId.GEMINI,
+  cacheKey: `gemini:${model}`,
+  isAvailable: () => Boolean(process.env.API_KEY),
+  analyze: async (state, i18n) => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: buildAnalysisPrompt(state, i18n),
+      config: { responseMimeType: 'application/json', responseJsonSchema: ANALYSIS_JSON_SCHEMA }
     });
-    return response.text || "Không có phân tích nào được tạo.";
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    return "Không thể lấy phân tích từ Gemini lúc này.";
+    if (!response.text) throw new LocalizedError('error.geminiEmpty');
+    return toAnalysisPayload(response.text, state);
+  },
+  chat: async (messages, timeline, i18n) => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: recentTurns(messages).map(m => ({
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: m.text }]
+      })),
+      config: { systemInstruction: buildTutorInstructions(timeline, i18n) }
+    });
+    if (!response.text) throw new LocalizedError('error.geminiEmpty');
+    return response.text;
   }
-};
+});
@@ -0,0 +1,55 @@
+import { SimulationState, SimulationTimeline, TimelineMarker } from "../types";
+import { MAX_HISTORY, MIN_HISTORY, HISTORY_PARAMETER_BUDGET } from "../constants";
+import { parameterCount } from "./simulationLogic";
+
+// How many snapshots of this network fit in the history
+export const historyLimit = (state: SimulationState): number => {
+  const perSnapshot = Math.max(1, parameterCount(state.features, state.output));
+  return Math.max(MIN_HISTORY, Math.min(MAX_HISTORY, Math.floor(HISTORY_PARAMETER_BUDGET / perSnapshot)));
+};
+
+// Drops the oldest snapshots past the limit for this network
+export const trimHistory = (history: SimulationState[]): SimulationState[] => {
+  const overflow = Math.max(0, history.length - historyLimit(history[history.length - 1]));
+  return overflow > 0 ? history.slice(overflow) : history;
+};
+
+// Appends a snapshot after the selected one. Anything after the selection is discarded,
+// so stepping forward from a past point starts a new branch.
+export const appendSnapshot = (timeline: SimulationTimeline, next: SimulationState): SimulationTimeline => {
+  const trimmed = trimHistory([...timeline.history.slice(0, timeline.index + 1), next]);
+  return { history: trimmed, index: trimmed.length - 1 };
+};
+
+// Replaces the selected snapshot (e.g. after a settings change) and drops the now-stale future
+export const replaceSnapshot = (timeline: SimulationTimeline, next: SimulationState): SimulationTimeline => ({
+  history: [...timeline.history.slice(0, timeline.index), next],
+  index: timeline.index
+});
+
+export const seekSnapshot = (timeline: SimulationTimeline, index: number): SimulationTimeline => ({
+  ...timeline,
+  index: Math.max(0, Math.min(timeline.history.length - 1, index))
+});
+
+// Phase changes and λ increments, for the ticks above the timeline slider
+export const buildTimelineMarkers = (history: SimulationState[]): TimelineMarker[] => {
+  const markers: TimelineMarker[] = [];
+  for (let i = 1; i < history.length; i++) {
+    const prev = history[i - 1];
+    const curr = history[i];
+    if (curr.phase !== prev.phase) {
+      markers.push({ index: i, kind: 'phase', phase: curr.phase, lambda: curr.lambda });
+    } else if (curr.lambda !== prev.lambda) {
+      markers.push({ index: i, kind: 'lambda', phase: curr.phase, lambda: curr.lambda });
+    }
+  }
+  return markers;
+};
+
+// First snapshot whose path includes point `pointIndex`, i.e. the model that was recorded there.
+// Returns -1 when that part of the history was trimmed or belongs to another branch.
+export const findPathPointSnapshot = (history: SimulationState[], pointIndex: number): number => {
+  const index = history.findIndex(s => s.path.length > pointIndex);
+  return index !== -1 && history[index].path.length === pointIndex + 1 ? index : -1;
+};
@@ -0,0 +1,116 @@
+import {
+  OptimizationStep,
+  SimulationEventType,
+  SimulationState,
+  SimulationTimeline,
+  StepReference
+} from "../types";
+import { I18n } from "./i18n";
+
+// Compact text summaries of the timeline, used as grounding context for the tutor chat.
+// Numbers are written plainly (not locale-formatted) so the model reads them unambiguously.
+
+const MAX_TRAJECTORY_ROWS = 15;
+const MAX_CLAMP_REFERENCES = 20;
+
+// Either language, since a stored chat may be shown after switching
+const STEP_LINK = /\[(?:bước|step) (\d+)\]/gi;
+
+export const stepLink = (stepIndex: number, i18n: I18n): string => `[${i18n.t('ref.step')} ${stepIndex}]`;
+
+// Splits text into plain parts and step numbers so the UI can turn [bước N] / [step N] into links
+export const splitStepLinks = (text: string): (string | number)[] =>
+  text.split(STEP_LINK).map((part, i) => i % 2 === 1 ? Number(part) : part).filter(part => part !== '');
+
+const isProximal = (state: SimulationState) =>
+  state.calculationDetails?.stepType === OptimizationStep.PROXIMAL;
+
+// Eliminations and changes in which features are held by the hierarchy constraint,
+// up to the snapshot on screen
+export const collectStepReferences = ({ history, index }: SimulationTimeline): StepReference[] => {
+  const references: StepReference[] = [];
+  let lastProximal: SimulationState | null = null;
+
+  for (let i = 1; i <= index; i++) {
+    const prev = history[i - 1];
+    const state = history[i];
+
+    state.events.slice(prev.events.length).forEach(event => {
+      if (event.type === SimulationEventType.FEATURE_ELIMINATED) {
+        references.push({ stepIndex: state.stepIndex, lambda: event.lambda, featureId: event.featureId, kind: 'eliminated' });
+      }
+    });
+
+    // isClamped is only meaningful right after a proximal step
+    if (isProximal(state)) {
+      state.features.forEach((f, j) => {
+        const wasClamped = lastProximal?.features[j].isClamped ?? false;
+        if (f.isActive && f.isClamped !== wasClamped) {
+          references.push({ stepIndex: state.stepIndex, lambda: state.lambda, featureId: f.id, kind: f.isClamped ? 'clamped' : 'released' });
+        }
+      });
+      lastProximal = state;
+    }
+  }
+  return references;
+};
+
+const featureLabel = (state: SimulationState, id: number): string =>
+  `X${id} (${state.dataset.featureNames[id - 1] ?? '?'})`;
+
+const describeReference = (state: SimulationState, ref: StepReference, i18n: I18n): string =>
+  `${stepLink(ref.stepIndex, i18n)} λ=${+ref.lambda.toFixed(4)}: ${featureLabel(state, ref.featureId)} ${i18n.t(`summary.ref.${ref.kind}`)}`;
+
+// θ of every feature at the last snapshot of each λ, thinned to a fixed number of rows
+const thetaTrajectory = ({ history, index }: SimulationTimeline, i18n: I18n): string[] => {
+  const visible = history.slice(0, index + 1);
+  const lastPerLambda = visible.filter((s, i) =>
+    i === visible.length - 1 || visible[i + 1].lambda !== s.lambda || visible[i + 1].phase !== s.phase
+  );
+  const stride = Math.ceil(lastPerLambda.length / MAX_TRAJECTORY_ROWS);
+  const rows = lastPerLambda.filter((_, i) => i % stride === 0 || i === lastPerLambda.length - 1);
+
+  return rows.map(s =>
+    `${stepLink(s.stepIndex, i18n)} λ=${+s.lambda.toFixed(4)} loss=${s.loss.toFixed(4)}: ` +
+    s.features.map(f => `X${f.id}=${f.isActive ? f.theta.toFixed(3) : i18n.t('summary.eliminatedShort')}`).join(' ')
+  );
+};
+
+export const summarizeHistory = (timeline: SimulationTimeline, i18n: I18n): string => {
+  const { t } = i18n;
+  const state = timeline.history[timeline.index];
+  const { config, dataset } = state;
+  const references = collectStepReferences(timeline);
+  const eliminations = references.filter(r => r.kind === 'eliminated');
+  // Clamp changes can be frequent; only the latest ones are kept
+  const clampChanges = references.filter(r => r.kind !== 'eliminated').slice(-MAX_CLAMP_REFERENCES);
+
+  return [
+    t('summary.dataset', {
+      name: dataset.name,
+      samples: String(dataset.X.length),
+      features: dataset.featureNames.map((name, i) => `X${i + 1}=${name}`).join(', ')
+    }),
+    t('summary.config', {
+      m: String(config.mConstant),
+      lr: String(config.learningRate),
+      hidden: [config.hiddenSize, ...config.deepLayers].join('-'),
+      proximal: config.proximalMode,
+      penalty: config.adaptiveWeights ? `adaptive ${config.penalty}` : config.penalty,
+      schedule: config.lambdaSchedule
+    }),
+    t('summary.current', {
+      step: stepLink(state.stepIndex, i18n),
+      phase: state.phase,
+      lambda: String(+state.lambda.toFixed(4)),
+      epoch: String(state.epoch),
+      loss: state.loss.toFixed(4)
+    }),
+    t('summary.trajectory'),
+    ...thetaTrajectory(timeline, i18n),
+    t('summary.eliminations'),
+    ...(eliminations.length > 0 ? eliminations.map(r => describeReference(state, r, i18n)) : [t('summary.none')]),
+    t('summary.clampChanges'),
+    ...(clampChanges.length > 0 ? clampChanges.map(r => describeReference(state, r, i18n)) : [t('summary.none')])
+  ].join('\n');
+};
@@ -0,0 +1,82 @@
+import { Locale } from "../types";
+import { DEFAULT_LOCALE } from "../constants";
+import { vi, MessageKey } from "../locales/vi";
+import { en } from "../locales/en";
+
+export type { MessageKey };
+// Text that is rendered late, in whatever locale is active (e.g. validation results)
+export interface LocalizedMessage {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+// Numbers get the locale's separators (pass a string to keep one verbatim); nested messages are translated too
+export type MessageParams = Record<string, string | number | LocalizedMessage>;
+
+export interface I18n {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  // Number with the locale's separators; fixed decimals when `digits` is given, up to 4 otherwise
+  num: (value: number, digits?: number) => string;
+  message: (message: LocalizedMessage) => string;
+}
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = {
+  [Locale.VI]: vi,
+  [Locale.EN]: en
+};
+
+const LOCALE_STORAGE_KEY = 'lassonet.locale';
+
+const interpolate = (template: string, params: MessageParams | undefined, render: (value: MessageParams[string]) => string): string =>
+  params ? template.replace(/\{(\w+)\}/g, (match, name) => name in params ? render(params[name]) : match) : template;
+
+export const createI18n = (locale: Locale): I18n => {
+  const catalog = CATALOGS[locale] ?? CATALOGS[DEFAULT_LOCALE];
+  const formatters = new Map<number | undefined, Intl.NumberFormat>();
+  const formatter = (digits?: number) => {
+    if (!formatters.has(digits)) {
+      formatters.set(digits, new Intl.NumberFormat(locale, digits === undefined
+        ? { maximumFractionDigits: 4 }
+        : { minimumFractionDigits: digits, maximumFractionDigits: digits }));
+    }
+    return formatters.get(digits)!;
+  };
+
+  const num = (value: number, digits?: number) => formatter(digits).format(value);
+  const t = (key: MessageKey, params?: MessageParams): string => interpolate(catalog[key] ?? vi[key], params, value =>
+    typeof value === 'number' ? num(value) : typeof value === 'string' ? value : t(value.key, value.params));
+  return {
+    locale,
+    t,
+    num,
+    message: ({ key, params }) => t(key, params)
+  };
+};
+
+// Services throw these so the UI can show the error in the active language.
+// `message` is the English text, which is what logs and the CLI print.
+let english: I18n | null = null;
+
+export class LocalizedError extends Error {
+  constructor(public readonly key: MessageKey, public readonly params?: MessageParams) {
+    super((english ??= createI18n(Locale.EN)).t(key, params));
+    this.name = 'LocalizedError';
+  }
+}
+
+export const errorText = (error: unknown, i18n: I18n): string =>
+  error instanceof LocalizedError ? i18n.t(error.key, error.params) : (error as Error).message;
+
+export const loadLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+    return Object.values(Locale).includes(saved as Locale) ? saved as Locale : DEFAULT_LOCALE;
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+};
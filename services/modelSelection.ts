@@ -0,0 +1,15 @@
+import { LambdaSelection, PathPoint } from "../types";
+
+// Picks λ from the validation losses recorded along the path. The one-standard-error rule
+// takes the sparsest model whose loss is within one SE of the best one.
+export const selectLambda = (path: PathPoint[]): LambdaSelection | null => {
+  const scored = path
+    .map((point, index) => ({ index, loss: point.evaluation?.validationLoss, se: point.evaluation?.validationSe }))
+    .filter((p): p is { index: number, loss: number, se: number } => typeof p.loss === 'number' && typeof p.se === 'number');
+  if (scored.length === 0) return null;
+
+  const best = scored.reduce((a, b) => b.loss < a.loss ? b : a);
+  // λ only grows along the path, so the last qualifying point is the most regularized one
+  const withinOneSe = scored.filter(p => p.loss <= best.loss + best.se);
+  return { minIndex: best.index, oneSeIndex: withinOneSe[withinOneSe.length - 1].index };
+};
@@ -0,0 +1,48 @@
+import { AnalysisProviderId } from "../types";
+import { LOCAL_LLM_TIMEOUT_MS } from "../constants";
+import { AnalysisProvider, buildAnalysisPrompt, buildTutorInstructions, recentTurns } from "./analysisProvider";
+import { toAnalysisPayload } from "./analysisSchema";
+import { LocalizedError } from "./i18n";
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+interface OpenAiMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+const complete = async (baseUrl: string, model: string, apiKey: string, messages: OpenAiMessage[]): Promise<string> => {
+  const response = await fetch(`${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+    },
+    body: JSON.stringify({ model: model.trim(), messages, temperature: 0.2 }),
+    signal: AbortSignal.timeout(LOCAL_LLM_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw new LocalizedError('error.localStatus', { status: String(response.status) });
+  }
+  const data = await response.json() as ChatCompletionResponse;
+  const text = data.choices?.[0]?.message?.content?.trim();
+  if (!text) throw new LocalizedError('error.localEmpty');
+  return text;
+};
+
+// Talks to any server implementing POST /chat/completions from the OpenAI API
+export const createOpenAiCompatibleProvider = (baseUrl: string, model: string, apiKey = ''): AnalysisProvider => ({
+  id: AnalysisProviderId.OPENAI_COMPATIBLE,
+  cacheKey: `openai:${baseUrl}:${model}`,
+  isAvailable: () => baseUrl.trim() !== '' && model.trim() !== '',
+  // Not every local server supports response_format, so the JSON shape is only requested in the prompt
+  analyze: async (state, i18n) =>
+    toAnalysisPayload(await complete(baseUrl, model, apiKey, [{ role: 'user', content: buildAnalysisPrompt(state, i18n) }]), state),
+  chat: (messages, timeline, i18n) =>
+    complete(baseUrl, model, apiKey, [
+      { role: 'system', content: buildTutorInstructions(timeline, i18n) },
+      ...recentTurns(messages).map(m => ({ role: m.role, content: m.text }))
+    ])
+});
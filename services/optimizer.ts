@@ -0,0 +1,77 @@
+import { OptimizerSnapshot, OptimizerState, OptimizerType, SimulationConfig } from "../types";
+import { ADAM_EPSILON } from "../constants";
+
+// Update rules for the gradient step. They work on flat vectors so the model code decides
+// the parameter layout; the proximal step then thresholds with the base step η they applied.
+
+export const createOptimizerState = (size: number, numFeatures: number, config: SimulationConfig): OptimizerState => ({
+  iteration: 0,
+  velocity: Array(size).fill(0),
+  firstMoment: Array(size).fill(0),
+  secondMoment: Array(size).fill(0),
+  featureSteps: Array(numFeatures).fill(config.learningRate)
+});
+
+export interface OptimizerUpdate {
+  params: number[];
+  state: OptimizerState;
+  stepSizes: number[]; // Effective step per coordinate
+  rate: number;        // Base step η; Adam scales it per coordinate
+}
+
+// One update; frozen entries (eliminated features) keep their value and buffers.
+// `rate` overrides η, which is how the line search tries smaller steps.
+export const applyOptimizer = (
+  params: number[],
+  grads: number[],
+  frozen: boolean[],
+  state: OptimizerState,
+  config: SimulationConfig,
+  rate: number = config.learningRate
+): OptimizerUpdate => {
+  const iteration = state.iteration + 1;
+  const velocity = [...state.velocity];
+  const firstMoment = [...state.firstMoment];
+  const secondMoment = [...state.secondMoment];
+  const stepSizes = params.map(() => rate);
+
+  const next = params.map((p, k) => {
+    if (frozen[k]) return p;
+    const g = grads[k];
+    switch (config.optimizer) {
+      case OptimizerType.MOMENTUM:
+        velocity[k] = config.momentum * velocity[k] - rate * g;
+        return p + velocity[k];
+      case OptimizerType.ADAM: {
+        firstMoment[k] = config.adamBeta1 * firstMoment[k] + (1 - config.adamBeta1) * g;
+        secondMoment[k] = config.adamBeta2 * secondMoment[k] + (1 - config.adamBeta2) * g * g;
+        const mHat = firstMoment[k] / (1 - config.adamBeta1 ** iteration);
+        const vHat = secondMoment[k] / (1 - config.adamBeta2 ** iteration);
+        stepSizes[k] = rate / (Math.sqrt(vHat) + ADAM_EPSILON);
+        return p - stepSizes[k] * mHat;
+      }
+      default:
+        return p - rate * g;
+    }
+  });
+
+  return {
+    params: next,
+    state: { ...state, iteration, velocity, firstMoment, secondMoment },
+    stepSizes,
+    rate
+  };
+};
+
+// What the math panel shows for coordinate k, depending on the optimizer
+export const optimizerSnapshot = (
+  state: OptimizerState,
+  stepSizes: number[],
+  k: number,
+  type: OptimizerType
+): OptimizerSnapshot => ({
+  stepSize: stepSizes[k],
+  velocity: type === OptimizerType.MOMENTUM ? state.velocity[k] : undefined,
+  firstMoment: type === OptimizerType.ADAM ? state.firstMoment[k] : undefined,
+  secondMoment: type === OptimizerType.ADAM ? state.secondMoment[k] : undefined
+});
@@ -0,0 +1,67 @@
+import {
+  ProximalMode,
+  SimulationConfig,
+  WeightData,
+  LambdaSchedule,
+  InnerLoop,
+  LambdaStopReason,
+  PathStopReason
+} from "../types";
+import { effectivePenalty, penaltyValue } from "./penalty";
+
+// Penalty of one feature at ωλ: p(θ) for LassoNet, ωλ·‖(θ, W)‖₂ for the group lasso
+const featurePenalty = (f: WeightData, lambda: number, config: SimulationConfig): number => {
+  const featureLambda = lambda * f.penaltyWeight;
+  return config.proximalMode === ProximalMode.GROUP_LASSO
+    ? featureLambda * Math.sqrt(f.theta * f.theta + f.w.reduce((sum, w) => sum + w * w, 0))
+    : penaltyValue(f.theta, effectivePenalty(config), featureLambda, config.penaltyGamma);
+};
+
+// Penalized objective that the proximal gradient method decreases at a fixed λ
+export const computeObjective = (loss: number, features: WeightData[], lambda: number, config: SimulationConfig): number =>
+  loss + features.reduce((sum, f) => sum + featurePenalty(f, lambda, config), 0);
+
+export const firstPathLambda = (config: SimulationConfig): number =>
+  config.lambdaSchedule === LambdaSchedule.GEOMETRIC ? config.lambdaStart : config.lambdaStep;
+
+export const nextLambda = (lambda: number, config: SimulationConfig): number => {
+  const raw = config.lambdaSchedule === LambdaSchedule.GEOMETRIC
+    ? lambda * (1 + config.lambdaGrowth)
+    : lambda + config.lambdaStep;
+  return parseFloat(raw.toFixed(6));
+};
+
+// Counts epochs whose relative objective decrease is below the tolerance
+export const updateStallCount = (
+  previous: number | null,
+  current: number,
+  stallCount: number,
+  config: SimulationConfig
+): number => {
+  if (previous === null) return 0;
+  const improvement = (previous - current) / Math.max(Math.abs(previous), 1e-12);
+  return improvement < config.tolerance ? stallCount + 1 : 0;
+};
+
+// Returns why the current λ is finished, or null to keep iterating
+export const lambdaStopReason = (epoch: number, stallCount: number, config: SimulationConfig): LambdaStopReason | null => {
+  if (config.innerLoop === InnerLoop.FIXED_EPOCHS) {
+    return epoch >= config.epochsPerLambda ? LambdaStopReason.FIXED_EPOCHS : null;
+  }
+  if (stallCount >= config.patience) return LambdaStopReason.CONVERGED;
+  if (epoch >= config.maxEpochsPerLambda) return LambdaStopReason.MAX_EPOCHS;
+  return null;
+};
+
+// Returns why the path should end before moving on to `upcomingLambda`, or null to continue
+export const pathStopReason = (
+  upcomingLambda: number,
+  features: WeightData[],
+  config: SimulationConfig
+): PathStopReason | null => {
+  if (config.lambdaSchedule === LambdaSchedule.GEOMETRIC && features.every(f => !f.isActive)) {
+    return PathStopReason.ALL_ELIMINATED;
+  }
+  if (upcomingLambda > config.maxLambda) return PathStopReason.MAX_LAMBDA;
+  return null;
+};
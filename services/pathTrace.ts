@@ -0,0 +1,84 @@
+import {
+  EliminationRecord,
+  OptimizationStep,
+  SimulationEvent,
+  SimulationEventType,
+  SimulationState,
+  TraceRow
+} from "../types";
+
+export const traceRow = (
+  step: number,
+  state: SimulationState,
+  stepType: TraceRow['stepType'],
+  lambda: number
+): TraceRow => ({
+  step,
+  phase: state.phase,
+  stepType,
+  lambda,
+  epoch: state.epoch,
+  loss: state.loss,
+  features: state.features.map((f, i) => ({
+    id: f.id,
+    name: state.dataset.featureNames[i] ?? `X${f.id}`,
+    theta: f.theta,
+    w: f.w,
+    isActive: f.isActive,
+    isClamped: f.isClamped
+  }))
+});
+
+// Which half-step produced these events (the INIT → PRETRAIN transition has none)
+export const stepTypeOf = (events: SimulationEvent[]): OptimizationStep | null => {
+  if (events.some(e => e.type === SimulationEventType.GRADIENT_STEP)) return OptimizationStep.GRADIENT;
+  if (events.some(e => e.type === SimulationEventType.PROXIMAL_STEP)) return OptimizationStep.PROXIMAL;
+  return null;
+};
+
+export const csvEscape = (value: string | number | boolean): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Long format: one line per (step, feature), hidden weights as w_1..w_H columns
+export const traceToCsv = (rows: TraceRow[]): string => {
+  const hiddenSize = rows[0]?.features[0]?.w.length ?? 0;
+  const header = [
+    'step', 'phase', 'stepType', 'lambda', 'epoch', 'loss',
+    'featureId', 'feature', 'theta', 'maxAbsW', 'isActive', 'isClamped',
+    ...Array.from({ length: hiddenSize }, (_, j) => `w_${j + 1}`)
+  ];
+  const lines = rows.flatMap(row => row.features.map(f => [
+    row.step, row.phase, row.stepType, row.lambda, row.epoch, row.loss,
+    f.id, f.name, f.theta, Math.max(0, ...f.w.map(Math.abs)), f.isActive, f.isClamped,
+    ...f.w
+  ].map(csvEscape).join(',')));
+  return [header.join(','), ...lines].join('\n') + '\n';
+};
+
+export const traceToJsonLines = (rows: TraceRow[]): string =>
+  rows.map(row => JSON.stringify(row)).join('\n') + '\n';
+
+export const eliminationOrder = (events: SimulationEvent[], featureNames: string[]): EliminationRecord[] =>
+  events
+    .filter((e): e is Extract<SimulationEvent, { type: SimulationEventType.FEATURE_ELIMINATED }> =>
+      e.type === SimulationEventType.FEATURE_ELIMINATED)
+    .map((e, i) => ({
+      order: i + 1,
+      featureId: e.featureId,
+      name: featureNames[e.featureId - 1] ?? `X${e.featureId}`,
+      lambda: e.lambda
+    }));
+
+// λ at which each feature dropped out, null if it survived. Eliminated features get no
+// gradient updates, so the first elimination is final unless θ is set again by hand.
+export const eliminationLambdas = (events: SimulationEvent[], numFeatures: number): (number | null)[] => {
+  const eliminatedAt: (number | null)[] = Array(numFeatures).fill(null);
+  events.forEach(event => {
+    if (event.type === SimulationEventType.FEATURE_ELIMINATED && eliminatedAt[event.featureId - 1] === null) {
+      eliminatedAt[event.featureId - 1] = event.lambda;
+    }
+  });
+  return eliminatedAt;
+};
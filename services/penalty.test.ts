@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PenaltyType } from '../types';
+import { thresholdTheta } from './penalty';
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} ≠ ${expected}`);
+
+test('L1 soft-thresholds by η·λ', () => {
+  close(thresholdTheta(0.8, PenaltyType.L1, 1, 0.5, 3), 0.3);
+  close(thresholdTheta(-0.8, PenaltyType.L1, 1, 0.5, 3), -0.3);
+  close(thresholdTheta(0.4, PenaltyType.L1, 1, 0.5, 3), 0);
+});
+
+test('MCP undoes the shrinkage up to γλ and leaves larger θ alone', () => {
+  // λ = 1, η = 0.5, γ = 3: S(θ, ηλ) / (1 - η/γ) inside, θ beyond γλ
+  close(thresholdTheta(0.3, PenaltyType.MCP, 1, 0.5, 3), 0);
+  close(thresholdTheta(2, PenaltyType.MCP, 1, 0.5, 3), 1.5 / (1 - 0.5 / 3));
+  close(thresholdTheta(-2, PenaltyType.MCP, 1, 0.5, 3), -1.5 / (1 - 0.5 / 3));
+  close(thresholdTheta(3.5, PenaltyType.MCP, 1, 0.5, 3), 3.5);
+});
+
+test('MCP hard-thresholds at λ·√(γη) when γ ≤ η', () => {
+  // λ = 1, η = 2, γ = 1.5: cutoff √3
+  close(thresholdTheta(1.7, PenaltyType.MCP, 1, 2, 1.5), 0);
+  close(thresholdTheta(1.8, PenaltyType.MCP, 1, 2, 1.5), 1.8);
+});
+
+test('SCAD soft-thresholds near zero, interpolates up to aλ and is flat beyond', () => {
+  // λ = 1, η = 0.5, a = 3.7
+  close(thresholdTheta(1.2, PenaltyType.SCAD, 1, 0.5, 3.7), 0.7);
+  close(thresholdTheta(2.5, PenaltyType.SCAD, 1, 0.5, 3.7), (2.7 * 2.5 - 3.7 * 0.5) / (3.7 - 1 - 0.5));
+  close(thresholdTheta(-2.5, PenaltyType.SCAD, 1, 0.5, 3.7), -(2.7 * 2.5 - 3.7 * 0.5) / (3.7 - 1 - 0.5));
+  close(thresholdTheta(5, PenaltyType.SCAD, 1, 0.5, 3.7), 5);
+});
+
+test('a zero weight leaves θ untouched', () => {
+  for (const penalty of Object.values(PenaltyType)) {
+    close(thresholdTheta(0.2, penalty, 0, 0.5, 3), 0.2);
+  }
+});
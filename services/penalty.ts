@@ -0,0 +1,98 @@
+import { PenaltyType, ProximalMode, SimulationConfig, WeightData } from "../types";
+
+// Proximal maps of η·p_λ(θ) for a single θ. The feature weight ω is folded into λ,
+// so ω = 0 leaves θ untouched.
+
+const softThreshold = (x: number, threshold: number): number => {
+  if (x > threshold) return x - threshold;
+  if (x < -threshold) return x + threshold;
+  return 0;
+};
+
+// MCP: soft-threshold, then undo the bias up to γλ. With γ ≤ η (large adaptive steps)
+// the objective is concave in between and the map becomes hard thresholding at λ·√(γη).
+const mcpThreshold = (x: number, lambda: number, eta: number, gamma: number): number => {
+  if (gamma <= eta) return Math.abs(x) > lambda * Math.sqrt(gamma * eta) ? x : 0;
+  if (Math.abs(x) > gamma * lambda) return x;
+  return softThreshold(x, eta * lambda) / (1 - eta / gamma);
+};
+
+// SCAD: soft-threshold near zero, linear interpolation up to aλ (needs a > 1 + η)
+const scadThreshold = (x: number, lambda: number, eta: number, a: number): number => {
+  if (a <= 1 + eta) return scadByCandidates(x, lambda, eta, a);
+  const abs = Math.abs(x);
+  if (abs <= lambda * (1 + eta)) return softThreshold(x, eta * lambda);
+  if (abs <= a * lambda) return ((a - 1) * x - Math.sign(x) * a * eta * lambda) / (a - 1 - eta);
+  return x;
+};
+
+// For a ≤ 1 + η the middle piece is concave, so the minimum is at a breakpoint or a stationary point
+const scadByCandidates = (x: number, lambda: number, eta: number, a: number): number => {
+  const s = Math.sign(x);
+  const candidates = [0, softThreshold(x, eta * lambda), s * lambda, s * a * lambda, x];
+  const objective = (c: number) => 0.5 * (c - x) ** 2 + eta * penaltyValue(c, PenaltyType.SCAD, lambda, a);
+  return candidates.reduce((best, c) => objective(c) < objective(best) ? c : best);
+};
+
+export const thresholdTheta = (
+  theta: number,
+  penalty: PenaltyType,
+  lambda: number,
+  eta: number,
+  gamma: number
+): number => {
+  switch (penalty) {
+    case PenaltyType.MCP:
+      return mcpThreshold(theta, lambda, eta, gamma);
+    case PenaltyType.SCAD:
+      return scadThreshold(theta, lambda, eta, gamma);
+    default:
+      return softThreshold(theta, eta * lambda);
+  }
+};
+
+// p_λ(θ) itself, for the penalized objective
+export const penaltyValue = (theta: number, penalty: PenaltyType, lambda: number, gamma: number): number => {
+  const abs = Math.abs(theta);
+  switch (penalty) {
+    case PenaltyType.MCP:
+      return abs <= gamma * lambda ? lambda * abs - (abs * abs) / (2 * gamma) : (gamma * lambda * lambda) / 2;
+    case PenaltyType.SCAD:
+      if (abs <= lambda) return lambda * abs;
+      if (abs <= gamma * lambda) return (2 * gamma * lambda * abs - abs * abs - lambda * lambda) / (2 * (gamma - 1));
+      return (lambda * lambda * (gamma + 1)) / 2;
+    default:
+      return lambda * abs;
+  }
+};
+
+// Hier-Prox and the group lasso have no closed form for the nonconvex penalties
+export const effectivePenalty = (config: SimulationConfig): PenaltyType =>
+  config.proximalMode === ProximalMode.THRESHOLD_CLAMP ? config.penalty : PenaltyType.L1;
+
+export const initialPenaltyWeight = (featureId: number, config: SimulationConfig): number =>
+  config.unpenalizedFeatures.includes(featureId) ? 0 : 1;
+
+// Adaptive lasso weights ω = 1/|θ̂| from the pretrained θ, rescaled to mean 1 over the
+// penalized features so the λ schedule keeps its meaning
+export const adaptivePenaltyWeights = (features: WeightData[], config: SimulationConfig): WeightData[] => {
+  if (!config.adaptiveWeights) return features;
+  const raw = features.map(f => f.penaltyWeight === 0 ? 0 : 1 / Math.max(Math.abs(f.theta), 1e-3));
+  const penalized = raw.filter(w => w > 0);
+  const mean = penalized.reduce((sum, w) => sum + w, 0) / Math.max(1, penalized.length);
+  return features.map((f, i) => ({ ...f, penaltyWeight: mean > 0 ? raw[i] / mean : f.penaltyWeight }));
+};
+
+// Sampled θ ↦ prox(θ) on [-range, range], for the MathPanel plot
+export const thresholdCurve = (
+  penalty: PenaltyType,
+  lambda: number,
+  eta: number,
+  gamma: number,
+  range: number,
+  samples: number = 121
+): { x: number, y: number }[] =>
+  Array.from({ length: samples }, (_, k) => {
+    const x = -range + (2 * range * k) / (samples - 1);
+    return { x, y: thresholdTheta(x, penalty, lambda, eta, gamma) };
+  });
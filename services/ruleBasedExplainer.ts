@@ -0,0 +1,192 @@
+import {
+  AnalysisProviderId,
+  ChatMessage,
+  FeatureVerdict,
+  OptimizationStep,
+  SimulationEventType,
+  SimulationPhase,
+  SimulationState,
+  SimulationTimeline,
+  StructuredAnalysis,
+  WeightData
+} from "../types";
+import { AnalysisProvider } from "./analysisProvider";
+import { collectStepReferences, stepLink } from "./historySummary";
+import { I18n } from "./i18n";
+
+// Offline explainer: reads phase, eliminations and the hierarchy constraint straight from the state
+
+const CLAMP_TOLERANCE = 1e-6;
+
+const featureLabel = (state: SimulationState, id: number): string =>
+  `X${id} (${state.dataset.featureNames[id - 1] ?? '?'})`;
+
+const maxAbsW = (f: WeightData): number => Math.max(0, ...f.w.map(Math.abs));
+
+// The constraint binds when max|W| has reached M·|θ|
+const isConstrained = (f: WeightData, mConstant: number): boolean => {
+  const bound = mConstant * Math.abs(f.theta);
+  return f.isActive && bound > 0 && maxAbsW(f) >= bound * (1 - CLAMP_TOLERANCE);
+};
+
+const constrainedFeatures = (state: SimulationState): WeightData[] =>
+  state.features.filter(f => isConstrained(f, state.config.mConstant));
+
+const describePhase = (state: SimulationState, { t, num }: I18n): string => {
+  const loss = num(state.loss, 4);
+  switch (state.phase) {
+    case SimulationPhase.INIT:
+      return t('rules.init');
+    case SimulationPhase.PRETRAIN:
+      return t('rules.pretrain', { epoch: state.epoch, loss });
+    case SimulationPhase.PATH_LOOP:
+      return t('rules.path', { lambda: num(state.lambda, 3), epoch: state.epoch, loss });
+    case SimulationPhase.FINISHED:
+      return t('rules.finished', { lambda: num(state.lambda, 3), loss });
+  }
+};
+
+const describeEliminations = (state: SimulationState, { t }: I18n): string | null => {
+  const eliminated = state.events.flatMap(e =>
+    e.type === SimulationEventType.FEATURE_ELIMINATED ? [e] : []
+  );
+  if (eliminated.length > 0) {
+    const list = eliminated
+      .map(e => t('rules.eliminatedAt', { feature: featureLabel(state, e.featureId), lambda: e.lambda }))
+      .join(', ');
+    return t('rules.eliminated', { count: eliminated.length, list });
+  }
+  return state.phase === SimulationPhase.PATH_LOOP || state.phase === SimulationPhase.FINISHED
+    ? t('rules.noneEliminated')
+    : null;
+};
+
+// Predicted next elimination: the active feature with the smallest |θ| while the path is running
+const weakestActive = (state: SimulationState): WeightData | null => {
+  if (state.phase !== SimulationPhase.PATH_LOOP) return null;
+  const active = state.features.filter(f => f.isActive);
+  if (active.length === 0) return null;
+  return active.reduce((a, b) => Math.abs(b.theta) < Math.abs(a.theta) ? b : a);
+};
+
+const describeNextElimination = (state: SimulationState, { t, num }: I18n): string | null => {
+  const weakest = weakestActive(state);
+  if (!weakest) return null;
+  return t('rules.nextElimination', { feature: featureLabel(state, weakest.id), theta: num(Math.abs(weakest.theta), 3) });
+};
+
+const describeConstraint = (state: SimulationState, { t }: I18n): string | null => {
+  if (state.phase === SimulationPhase.INIT || state.phase === SimulationPhase.PRETRAIN) return null;
+  if (!state.features.some(f => f.isActive)) return null;
+  if (state.calculationDetails?.stepType === OptimizationStep.GRADIENT) {
+    return t('rules.gradientNoConstraint');
+  }
+  const constrained = constrainedFeatures(state);
+  return constrained.length > 0
+    ? t('rules.constraintActive', {
+      m: state.config.mConstant,
+      features: constrained.map(f => featureLabel(state, f.id)).join(', ')
+    })
+    : t('rules.constraintInactive');
+};
+
+export const explainState = (state: SimulationState, i18n: I18n): string =>
+  [
+    describePhase(state, i18n),
+    describeEliminations(state, i18n),
+    describeNextElimination(state, i18n),
+    describeConstraint(state, i18n)
+  ].filter(Boolean).join(' ');
+
+// A feature is shrinking when |θ| dropped between the last two λ values of the path
+const assessFeature = (state: SimulationState, f: WeightData): FeatureVerdict => {
+  if (!f.isActive) return FeatureVerdict.ELIMINATED;
+  const previous = state.path[state.path.length - 2];
+  if (!previous) return FeatureVerdict.KEPT;
+  const thetaBefore = previous.features.find(p => p.id === f.id)?.theta ?? 0;
+  return Math.abs(f.theta) < Math.abs(thetaBefore) ? FeatureVerdict.SHRINKING : FeatureVerdict.KEPT;
+};
+
+export const assessState = (state: SimulationState): StructuredAnalysis => ({
+  stepIndex: state.stepIndex,
+  features: state.features.map(f => ({ featureId: f.id, verdict: assessFeature(state, f) })),
+  constraintActive: state.calculationDetails?.stepType === OptimizationStep.PROXIMAL && constrainedFeatures(state).length > 0,
+  nextElimination: weakestActive(state)?.id ?? null
+});
+
+// --- Tutor chat ---
+
+// Features named in the question, either as X<n> or by column name
+const mentionedFeatures = (question: string, state: SimulationState): number[] => {
+  const lower = question.toLowerCase();
+  return state.features
+    .filter(f => {
+      const name = state.dataset.featureNames[f.id - 1]?.toLowerCase();
+      return new RegExp(`\\bx${f.id}\\b`).test(lower) || (name !== undefined && lower.includes(name));
+    })
+    .map(f => f.id);
+};
+
+// θ when the penalty starts, i.e. at the end of pretraining
+const thetaAtPathStart = (timeline: SimulationTimeline, featureId: number): number | null => {
+  const visible = timeline.history.slice(0, timeline.index + 1);
+  const first = visible.findIndex(s => s.phase === SimulationPhase.PATH_LOOP);
+  if (first === -1) return null;
+  const feature = visible[Math.max(0, first - 1)].features.find(f => f.id === featureId);
+  return feature ? Math.abs(feature.theta) : null;
+};
+
+const describeFeatureHistory = (timeline: SimulationTimeline, featureId: number, i18n: I18n): string => {
+  const { t, num } = i18n;
+  const state = timeline.history[timeline.index];
+  const elimination = collectStepReferences(timeline)
+    .find(r => r.kind === 'eliminated' && r.featureId === featureId);
+  const startTheta = thetaAtPathStart(timeline, featureId);
+  const start = startTheta !== null ? t('rules.pathStartTheta', { theta: num(startTheta, 3) }) : '';
+  if (elimination) {
+    return t('rules.featureEliminated', {
+      feature: featureLabel(state, featureId),
+      step: stepLink(elimination.stepIndex, i18n),
+      lambda: elimination.lambda,
+      start
+    });
+  }
+  const current = state.features.find(f => f.id === featureId)!;
+  return t('rules.featureActive', { feature: featureLabel(state, featureId), theta: num(Math.abs(current.theta), 3), start });
+};
+
+// Deterministic answers: per-feature histories for named features, otherwise a summary of the state
+export const answerQuestion = (messages: ChatMessage[], timeline: SimulationTimeline, i18n: I18n): string => {
+  const { t } = i18n;
+  const state = timeline.history[timeline.index];
+  const question = [...messages].reverse().find(m => m.role === 'user')?.text ?? '';
+  const features = mentionedFeatures(question, state);
+
+  if (features.length === 0) {
+    const eliminations = collectStepReferences(timeline)
+      .filter(r => r.kind === 'eliminated')
+      .map(r => t('rules.eliminationAtStep', { feature: featureLabel(state, r.featureId), step: stepLink(r.stepIndex, i18n) }));
+    return [
+      explainState(state, i18n),
+      eliminations.length > 0 ? t('rules.eliminationList', { list: eliminations.join(', ') }) : null,
+      t('rules.askAboutFeature')
+    ].filter(Boolean).join(' ');
+  }
+
+  const sentences = features.map(id => describeFeatureHistory(timeline, id, i18n));
+  const eliminated = collectStepReferences(timeline)
+    .filter(r => r.kind === 'eliminated' && features.includes(r.featureId));
+  if (features.length >= 2 && eliminated.length >= 1) {
+    const [first] = eliminated;
+    sentences.push(t('rules.firstEliminated', { feature: featureLabel(state, first.featureId) }), t('rules.whyOrder'));
+  }
+  return sentences.join(' ');
+};
+
+export const ruleBasedProvider: AnalysisProvider = {
+  id: AnalysisProviderId.RULE_BASED,
+  cacheKey: 'rules',
+  isAvailable: () => true,
+  analyze: async (state, i18n) => ({ text: explainState(state, i18n), structured: assessState(state) }),
+  chat: async (messages, timeline, i18n) => answerQuestion(messages, timeline, i18n)
+};
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_CONFIG } from '../constants';
+import { SimulationState } from '../types';
+import { createSimulation, step } from './simulationEngine';
+import { SESSION_VERSION, exportSession, importSession } from './session';
+import { LocalizedError } from './i18n';
+
+const playedRun = (): SimulationState[] => {
+  const history = [createSimulation(DEFAULT_CONFIG)];
+  for (let i = 0; i < 20; i++) history.push(step(history[history.length - 1]).state);
+  return history;
+};
+
+// A current file rewritten into the shape an older version saved
+const savedAs = (history: SimulationState[], version: number): string => {
+  const file = JSON.parse(exportSession({ history, index: history.length - 1 }, []));
+  file.version = version;
+  for (const snapshot of file.history) {
+    if (version < 3) delete snapshot.output.deepLayers;
+    if (version < 2) {
+      snapshot.features = snapshot.features.map(({ thetas: _thetas, gradTheta, ...f }: { thetas: number[], gradTheta: number[] }) =>
+        ({ ...f, gradTheta: gradTheta[0] }));
+      snapshot.output = { v: snapshot.output.v[0], gradV: snapshot.output.gradV[0] };
+    }
+  }
+  return JSON.stringify(file);
+};
+
+test('a current session file loads back unchanged', () => {
+  const history = playedRun();
+  const loaded = importSession(exportSession({ history, index: history.length - 1 }, [])).timeline.history;
+  assert.deepEqual(loaded.map(s => s.features), history.map(s => s.features));
+  assert.deepEqual(loaded.map(s => s.output), history.map(s => s.output));
+});
+
+test('version 2 files gain an empty list of deeper layers', () => {
+  const history = playedRun();
+  const loaded = importSession(savedAs(history, 2)).timeline.history;
+  assert.deepEqual(loaded.map(s => s.output), history.map(s => s.output));
+});
+
+test('version 1 files get θ vectors and a row of output weights per output', () => {
+  const history = playedRun();
+  const loaded = importSession(savedAs(history, 1)).timeline.history;
+  assert.deepEqual(loaded.map(s => s.features.map(f => f.thetas)), history.map(s => s.features.map(f => f.thetas)));
+  assert.deepEqual(loaded.map(s => s.features.map(f => f.gradTheta)), history.map(s => s.features.map(f => f.gradTheta)));
+  assert.deepEqual(loaded.map(s => s.output), history.map(s => s.output));
+});
+
+test('files from a newer version are rejected', () => {
+  assert.throws(() => importSession(savedAs(playedRun(), SESSION_VERSION + 1)), LocalizedError);
+});
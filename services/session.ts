@@ -0,0 +1,250 @@
+import {
+  ChatMessage,
+  Dataset,
+  ManualEditType,
+  OutputLayer,
+  RecordedEdit,
+  SessionFile,
+  SharedSessionLink,
+  SimulationConfig,
+  SimulationState,
+  SimulationTimeline,
+  SyntheticDatasetSpec,
+  WeightData
+} from "../types";
+import { DEFAULT_CONFIG, DEFAULT_DATASET_SPEC, MAX_HISTORY } from "../constants";
+import { validateConfig } from "./simulationConfig";
+import { generateSyntheticDataset, validateDatasetSpec } from "./dataset";
+import { createSimulation, manualEdits, replay } from "./simulationEngine";
+import { validateStructuredAnalysis } from "./analysisSchema";
+import { createOptimizerState } from "./optimizer";
+import { parameterCount } from "./simulationLogic";
+import { historyLimit } from "./history";
+import { LocalizedError } from "./i18n";
+
+// 1: the first format; 2: a θ vector per feature and v per output (classification);
+// 3: hidden layers after the first
+export const SESSION_VERSION = 3;
+const LINK_VERSION = 3;
+// Defaults that changed since older links were made; those links replay with the old values
+const LEGACY_LINK_DEFAULTS: Record<number, Partial<SimulationConfig>> = {
+  1: { validationFraction: 0 }
+};
+const HASH_PREFIX = '#s=';
+
+export interface LoadedSession {
+  dataset: Dataset;
+  timeline: SimulationTimeline;
+  chat: ChatMessage[];
+}
+
+// --- Session files ---
+
+export const exportSession = (timeline: SimulationTimeline, chat: ChatMessage[]): string => {
+  const current = timeline.history[timeline.index];
+  const lastAnswer = [...chat].reverse().find(m => m.role === 'assistant');
+  const file: SessionFile = {
+    version: SESSION_VERSION,
+    savedAt: new Date().toISOString(),
+    dataset: current.dataset,
+    // Every snapshot shares the same dataset, so it is stored only once
+    history: timeline.history.map(({ dataset: _dataset, ...snapshot }) => snapshot),
+    historyIndex: timeline.index,
+    aiAnalysis: lastAnswer?.text ?? null,
+    chat
+  };
+  return JSON.stringify(file);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumberMatrix = (value: unknown): value is number[][] =>
+  Array.isArray(value) && value.every(row => Array.isArray(row) && row.every(v => typeof v === 'number'));
+
+// --- Migrations ---
+// Each step turns a snapshot of one file version into the next; older files run every
+// step from their own version on
+
+type Snapshot = Omit<SimulationState, 'dataset'>;
+
+// Version 1: scalar θ and its gradient, a single row of output weights
+type SnapshotV1 = Omit<Snapshot, 'features' | 'output'> & {
+  features: (Omit<WeightData, 'thetas' | 'gradTheta'> & { gradTheta: number })[];
+  output: { v: number[], gradV: number[] };
+};
+
+// Version 2: no hidden layers after the first
+type SnapshotV2 = Omit<Snapshot, 'output'> & { output: Omit<OutputLayer, 'deepLayers'> };
+
+const migrateV1 = (snapshot: SnapshotV1): SnapshotV2 => ({
+  ...snapshot,
+  features: snapshot.features.map(({ gradTheta, ...f }) => ({ ...f, thetas: [f.theta], gradTheta: [gradTheta ?? 0] })),
+  output: { v: [snapshot.output.v], gradV: [snapshot.output.gradV] }
+});
+
+const migrateV2 = (snapshot: SnapshotV2): Snapshot => ({
+  ...snapshot,
+  output: { ...snapshot.output, deepLayers: [] }
+});
+
+const migrateSnapshot = (snapshot: unknown, version: number): Snapshot => {
+  let migrated = snapshot;
+  if (version < 2) migrated = migrateV1(migrated as SnapshotV1);
+  if (version < 3) migrated = migrateV2(migrated as SnapshotV2);
+  return migrated as Snapshot;
+};
+
+export const importSession = (text: string): LoadedSession => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new LocalizedError('error.sessionNotJson');
+  }
+
+  if (!isObject(raw) || typeof raw.version !== 'number') {
+    throw new LocalizedError('error.notSession');
+  }
+  if (raw.version > SESSION_VERSION) {
+    throw new LocalizedError('error.sessionTooNew', { version: raw.version });
+  }
+
+  const { dataset, history, historyIndex, aiAnalysis, chat } = raw;
+  if (!isObject(dataset) || !isNumberMatrix(dataset.X) || !Array.isArray(dataset.y) || !Array.isArray(dataset.featureNames)) {
+    throw new LocalizedError('error.sessionNoDataset');
+  }
+  if (!Array.isArray(history) || history.length === 0 || !history.every(s => isObject(s) && isObject(s.config) && Array.isArray(s.features))) {
+    throw new LocalizedError('error.sessionNoHistory');
+  }
+  const index = typeof historyIndex === 'number' ? historyIndex : history.length - 1;
+  if (!Number.isInteger(index) || index < 0 || index >= history.length) {
+    throw new LocalizedError('error.sessionBadIndex');
+  }
+
+  const restoredDataset = dataset as unknown as Dataset;
+  return {
+    dataset: restoredDataset,
+    timeline: {
+      history: history.map(saved => {
+        const snapshot = migrateSnapshot(saved, raw.version as number);
+        // Older files may predate fields added later; defaults keep them loadable
+        // Runs saved before the validation split trained on every row
+        const config = { ...DEFAULT_CONFIG, validationFraction: 0, ...snapshot.config };
+        if (validateConfig(config).length > 0) throw new LocalizedError('error.sessionBadConfig');
+        const features = snapshot.features.map(f => ({ penaltyWeight: 1, ...f }));
+        return {
+          ...snapshot,
+          config,
+          features,
+          // Step details used to cover a single feature; older ones keep only the step-level fields
+          calculationDetails: snapshot.calculationDetails && {
+            ...snapshot.calculationDetails,
+            features: snapshot.calculationDetails.features ?? []
+          },
+          // Plain SGD keeps no buffers, so a fresh state continues those runs exactly
+          evaluation: snapshot.evaluation ?? { trainLoss: snapshot.loss, validationLoss: null, validationSe: null },
+          optimizer: snapshot.optimizer ?? createOptimizerState(parameterCount(features, snapshot.output), features.length, config),
+          dataset: restoredDataset
+        };
+      }),
+      index
+    },
+    chat: Array.isArray(chat)
+      ? (chat as ChatMessage[])
+          .filter(m => isObject(m) && typeof m.text === 'string')
+          .map(m => ({
+            ...m,
+            // Verdicts drive the graph highlights, so they are re-checked like a fresh model answer
+            structured: validateStructuredAnalysis(m.structured, restoredDataset.featureNames.length, m.stepIndex) ?? undefined
+          }))
+      // Files from before the tutor chat only kept a single answer
+      : typeof aiAnalysis === 'string' ? [{ role: 'assistant', text: aiAnalysis, stepIndex: history[index].stepIndex }] : []
+  };
+};
+
+// --- Share links ---
+
+// Keeps only the fields that differ from the defaults, to keep links short
+const diff = <T extends object>(value: T, defaults: T): Partial<T> =>
+  Object.fromEntries(
+    Object.entries(value).filter(([key, v]) => defaults[key as keyof T] !== v)
+  ) as Partial<T>;
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  const binary = Array.from(bytes, b => String.fromCharCode(b)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+const isRecordedEdit = (value: unknown): value is RecordedEdit => {
+  if (!isObject(value) || !Number.isInteger(value.stepIndex) || !isObject(value.edit)) return false;
+  const { edit } = value;
+  if (!Number.isInteger(edit.featureId)) return false;
+  switch (edit.type) {
+    case ManualEditType.PIN_FEATURE: return typeof edit.pinned === 'boolean';
+    case ManualEditType.REMOVE_FEATURE: return true;
+    case ManualEditType.SET_THETA: return typeof edit.value === 'number' && Number.isFinite(edit.value);
+    default: return false;
+  }
+};
+
+// Only generated datasets can be shared: a CSV upload is too large for a URL
+export const canShare = (state: SimulationState): boolean => state.dataset.spec !== undefined;
+
+export const encodeShareHash = (state: SimulationState): string => {
+  if (!state.dataset.spec) {
+    throw new LocalizedError('error.shareNeedsSynthetic');
+  }
+  const link: SharedSessionLink = {
+    v: LINK_VERSION,
+    c: diff(state.config, DEFAULT_CONFIG),
+    d: diff(state.dataset.spec, DEFAULT_DATASET_SPEC),
+    s: state.stepIndex
+  };
+  const edits = manualEdits(state);
+  if (edits.length > 0) link.e = edits;
+  return HASH_PREFIX + toBase64Url(JSON.stringify(link));
+};
+
+// Rebuilds the session by replaying the engine; runs are deterministic for a given seed
+export const decodeShareHash = (hash: string): LoadedSession | null => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+
+  let link: SharedSessionLink;
+  try {
+    link = JSON.parse(fromBase64Url(hash.slice(HASH_PREFIX.length)));
+  } catch {
+    throw new LocalizedError('error.linkCorrupt');
+  }
+  if (!isObject(link) || !Number.isInteger(link.v) || link.v < 1 || link.v > LINK_VERSION || typeof link.s !== 'number') {
+    throw new LocalizedError('error.linkUnsupported');
+  }
+  // A link can point at most as far as the app keeps history
+  if (!Number.isInteger(link.s) || link.s < 0 || link.s > MAX_HISTORY) {
+    throw new LocalizedError('error.linkBadStep', { max: MAX_HISTORY });
+  }
+  const edits = link.e ?? [];
+  if (!Array.isArray(edits) || !edits.every(isRecordedEdit)) throw new LocalizedError('error.linkCorrupt');
+
+  const config: SimulationConfig = { ...DEFAULT_CONFIG, ...LEGACY_LINK_DEFAULTS[link.v], ...link.c };
+  if (validateConfig(config).length > 0) throw new LocalizedError('error.linkBadConfig');
+  const spec: SyntheticDatasetSpec = { ...DEFAULT_DATASET_SPEC, ...link.d };
+  if (validateDatasetSpec(spec).length > 0) throw new LocalizedError('error.linkBadDataset');
+  const dataset = generateSyntheticDataset(spec);
+
+  // The replayed history is trimmed like a played one
+  const initial = createSimulation(config, dataset);
+  const history = replay(initial, edits, link.s, historyLimit(initial));
+
+  return {
+    dataset,
+    timeline: { history, index: history.length - 1 },
+    chat: []
+  };
+};
@@ -0,0 +1,92 @@
+import { SimulationConfig, LambdaSchedule, InnerLoop, OptimizerType, PenaltyType } from "../types";
+import { LocalizedMessage } from "./i18n";
+
+const MAX_PATH_LENGTH = 500;
+const MAX_DEEP_LAYERS = 3;
+const MAX_LAYER_WIDTH = 64;
+// Caps on every epoch count, so no config (e.g. from a share link) can run unboundedly long
+const MAX_EPOCHS = 1000;
+
+const isInteger = (v: number) => Number.isInteger(v);
+
+// Returns a list of problems as catalog messages; an empty list means the config can be applied
+export const validateConfig = (config: SimulationConfig): LocalizedMessage[] => {
+  const errors: LocalizedMessage[] = [];
+
+  if (!isInteger(config.hiddenSize) || config.hiddenSize < 1 || config.hiddenSize > MAX_LAYER_WIDTH) {
+    errors.push({ key: 'config.hiddenSize', params: { max: MAX_LAYER_WIDTH } });
+  }
+  if (!Array.isArray(config.deepLayers) || config.deepLayers.length > MAX_DEEP_LAYERS
+    || !config.deepLayers.every(width => isInteger(width) && width >= 1 && width <= MAX_LAYER_WIDTH)) {
+    errors.push({ key: 'config.deepLayers', params: { max: MAX_DEEP_LAYERS, width: MAX_LAYER_WIDTH } });
+  }
+  if (!(config.mConstant > 0)) {
+    errors.push({ key: 'config.mConstant' });
+  }
+  if (!(config.learningRate > 0) || config.learningRate > 1) {
+    errors.push({ key: 'config.learningRate' });
+  }
+  if (!isInteger(config.pretrainEpochs) || config.pretrainEpochs < 0 || config.pretrainEpochs > MAX_EPOCHS) {
+    errors.push({ key: 'config.pretrainEpochs', params: { max: MAX_EPOCHS } });
+  }
+  if (!isInteger(config.epochsPerLambda) || config.epochsPerLambda < 1 || config.epochsPerLambda > MAX_EPOCHS) {
+    errors.push({ key: 'config.epochsPerLambda', params: { max: MAX_EPOCHS } });
+  }
+  if (!(config.lambdaStep > 0)) {
+    errors.push({ key: 'config.lambdaStep' });
+  } else if (!(config.maxLambda >= config.lambdaStep)) {
+    errors.push({ key: 'config.maxLambda' });
+  } else if (config.lambdaSchedule !== LambdaSchedule.GEOMETRIC && config.maxLambda / config.lambdaStep > MAX_PATH_LENGTH) {
+    // Geometric paths ignore the step; their length is checked below
+    errors.push({ key: 'config.pathTooLong', params: { max: MAX_PATH_LENGTH } });
+  }
+  if (config.lambdaSchedule === LambdaSchedule.GEOMETRIC) {
+    if (!(config.lambdaStart > 0)) {
+      errors.push({ key: 'config.lambdaStart' });
+    }
+    if (!(config.lambdaGrowth > 0)) {
+      errors.push({ key: 'config.lambdaGrowth' });
+    } else if (config.lambdaStart > 0 && Math.log(config.maxLambda / config.lambdaStart) / Math.log(1 + config.lambdaGrowth) > MAX_PATH_LENGTH) {
+      errors.push({ key: 'config.pathTooLong', params: { max: MAX_PATH_LENGTH } });
+    }
+  }
+  if (config.innerLoop === InnerLoop.CONVERGENCE) {
+    if (!(config.tolerance > 0)) {
+      errors.push({ key: 'config.tolerance' });
+    }
+    if (!isInteger(config.patience) || config.patience < 1 || config.patience > MAX_EPOCHS) {
+      errors.push({ key: 'config.patience', params: { max: MAX_EPOCHS } });
+    }
+    if (!isInteger(config.maxEpochsPerLambda) || config.maxEpochsPerLambda < 1 || config.maxEpochsPerLambda > MAX_EPOCHS) {
+      errors.push({ key: 'config.maxEpochsPerLambda', params: { max: MAX_EPOCHS } });
+    }
+  }
+  if (!(config.validationFraction >= 0 && config.validationFraction <= 0.5)) {
+    errors.push({ key: 'config.validationFraction' });
+  }
+  const isFraction = (v: number) => v >= 0 && v < 1;
+  if (config.optimizer === OptimizerType.MOMENTUM && !isFraction(config.momentum)) {
+    errors.push({ key: 'config.momentum' });
+  }
+  if (config.optimizer === OptimizerType.ADAM && !(isFraction(config.adamBeta1) && isFraction(config.adamBeta2))) {
+    errors.push({ key: 'config.adamBeta' });
+  }
+  if (config.optimizer === OptimizerType.LINE_SEARCH && !(config.lineSearchShrink > 0 && config.lineSearchShrink < 1)) {
+    errors.push({ key: 'config.lineSearchShrink' });
+  }
+  // MCP needs γ > 1 and SCAD a > 2; with η ≤ 1 that also keeps their proximal maps well defined
+  if (config.penalty !== PenaltyType.L1) {
+    const min = config.penalty === PenaltyType.MCP ? 1 : 2;
+    if (!(config.penaltyGamma > min)) {
+      errors.push({ key: 'config.penaltyGamma', params: { penalty: config.penalty, min } });
+    }
+  }
+  if (!Array.isArray(config.unpenalizedFeatures) || !config.unpenalizedFeatures.every(id => isInteger(id) && id >= 1)) {
+    errors.push({ key: 'config.unpenalizedFeatures' });
+  }
+  if (!isInteger(config.seed) || config.seed < 0) {
+    errors.push({ key: 'config.seed' });
+  }
+
+  return errors;
+};
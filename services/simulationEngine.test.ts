@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_CONFIG } from '../constants';
+import { ManualEditType, OptimizerType, SimulationEventType, SimulationPhase, SimulationState } from '../types';
+import { createSimulation, editSimulation, isFinished, replay, runToEnd, step } from './simulationEngine';
+import { eliminationOrder } from './pathTrace';
+
+const eliminatedIds = (optimizer: OptimizerType): number[] => {
+  const { events } = runToEnd(createSimulation({ ...DEFAULT_CONFIG, optimizer }));
+  return eliminationOrder(events, []).map(e => e.featureId);
+};
+
+test('step walks through INIT, PRETRAIN, PATH_LOOP and FINISHED in order', () => {
+  let state = createSimulation(DEFAULT_CONFIG);
+  const phases = [state.phase];
+  while (!isFinished(state)) {
+    state = step(state).state;
+    if (state.phase !== phases[phases.length - 1]) phases.push(state.phase);
+  }
+  assert.deepEqual(phases, [SimulationPhase.INIT, SimulationPhase.PRETRAIN, SimulationPhase.PATH_LOOP, SimulationPhase.FINISHED]);
+  assert.equal(step(state).state, state, 'a finished run stays put');
+});
+
+test('runToEnd reaches the same state as stepping one by one', () => {
+  const initial = createSimulation(DEFAULT_CONFIG);
+  let stepped = initial;
+  while (!isFinished(stepped)) stepped = step(stepped).state;
+
+  const { state, events } = runToEnd(initial);
+  assert.equal(state.stepIndex, stepped.stepIndex);
+  assert.deepEqual(state.features, stepped.features);
+  const phaseChanges = events.filter(e => e.type === SimulationEventType.PHASE_CHANGED).map(e => e.phase);
+  assert.deepEqual(phaseChanges, [SimulationPhase.PRETRAIN, SimulationPhase.PATH_LOOP]);
+  assert.equal(events[events.length - 1].type, SimulationEventType.PATH_FINISHED);
+});
+
+test('runToEnd stops after maxSteps', () => {
+  const { state } = runToEnd(createSimulation(DEFAULT_CONFIG), 5);
+  assert.equal(state.stepIndex, 5);
+  assert.equal(isFinished(state), false);
+});
+
+test('replay stops at untilStep and keeps only the last snapshots', () => {
+  const initial = createSimulation(DEFAULT_CONFIG);
+  const full = replay(initial, [], 10);
+  assert.deepEqual(full.map(s => s.stepIndex), [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+
+  const kept = replay(initial, [], 10, 4);
+  assert.deepEqual(kept.map(s => s.stepIndex), [7, 8, 9, 10]);
+  assert.deepEqual(kept[3].features, full[10].features);
+});
+
+test('replay makes each edit again at the step it was recorded after', () => {
+  const initial = createSimulation(DEFAULT_CONFIG);
+  const edit = { type: ManualEditType.PIN_FEATURE, featureId: 3, pinned: true } as const;
+  let played: SimulationState = initial;
+  while (played.stepIndex < 5) played = step(played).state;
+  played = editSimulation(played, edit).state;
+  while (played.stepIndex < 10) played = step(played).state;
+
+  const history = replay(initial, [{ stepIndex: 5, edit }], 10);
+  // The edit adds a snapshot without advancing the step index
+  assert.deepEqual(history.map(s => s.stepIndex), [0, 1, 2, 3, 4, 5, 5, 6, 7, 8, 9, 10]);
+  assert.deepEqual(history[history.length - 1].features, played.features);
+});
+
+test('Adam eliminates the features in the same order as SGD', () => {
+  const sgd = eliminatedIds(OptimizerType.SGD);
+  assert.deepEqual(sgd, [3, 2, 1]);
+  assert.deepEqual(eliminatedIds(OptimizerType.ADAM), sgd);
+});
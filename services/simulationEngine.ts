@@ -0,0 +1,272 @@
+import {
+  Dataset,
+  DatasetSplit,
+  LossEvaluation,
+  ManualEdit,
+  OutputLayer,
+  RecordedEdit,
+  WeightData,
+  OptimizationStep,
+  SimulationConfig,
+  SimulationEvent,
+  SimulationEventType,
+  SimulationPhase,
+  SimulationState
+} from "../types";
+import { DEFAULT_DATASET_SPEC } from "../constants";
+import { generateSyntheticDataset, outputCount, splitDataset } from "./dataset";
+import {
+  initializeWeights,
+  initializeOutputLayer,
+  computeLoss,
+  evaluateLoss,
+  performGradientStep,
+  performProximalStep,
+  recordPathPoint,
+  parameterCount,
+  applyManualEdit
+} from "./simulationLogic";
+import {
+  computeObjective,
+  firstPathLambda,
+  nextLambda,
+  updateStallCount,
+  lambdaStopReason,
+  pathStopReason
+} from "./pathStrategy";
+import { adaptivePenaltyWeights } from "./penalty";
+import { createOptimizerState } from "./optimizer";
+
+// Framework-free owner of the INIT → PRETRAIN → PATH_LOOP → FINISHED machine.
+// Every function is pure: it returns new state and never touches the input.
+
+export interface StepResult {
+  state: SimulationState;
+  events: SimulationEvent[];
+}
+
+// Per-step events are returned by step() but not accumulated in state.events
+const isLogged = (event: SimulationEvent): boolean =>
+  event.type !== SimulationEventType.GRADIENT_STEP && event.type !== SimulationEventType.PROXIMAL_STEP;
+
+// Training loss on the rows the model learns from, validation loss on the held-out rows
+const evaluate = (features: WeightData[], output: OutputLayer, split: DatasetSplit): LossEvaluation => {
+  const validation = split.validation && evaluateLoss(features, output, split.validation);
+  return {
+    trainLoss: computeLoss(features, output, split.train),
+    validationLoss: validation ? validation.loss : null,
+    validationSe: validation ? validation.standardError : null
+  };
+};
+
+const splitFor = (state: Pick<SimulationState, 'dataset' | 'config'>): DatasetSplit =>
+  splitDataset(state.dataset, state.config.validationFraction, state.config.seed);
+
+export const createSimulation = (
+  config: SimulationConfig,
+  dataset: Dataset = generateSyntheticDataset(DEFAULT_DATASET_SPEC)
+): SimulationState => {
+  const features = initializeWeights(dataset.featureNames.length, outputCount(dataset), config);
+  const output = initializeOutputLayer(config, outputCount(dataset));
+  const split = splitFor({ dataset, config });
+  const evaluation = evaluate(features, output, split);
+  return {
+    config,
+    phase: SimulationPhase.INIT,
+    step: OptimizationStep.GRADIENT,
+    stepIndex: 0,
+    lambda: 0,
+    epoch: 0,
+    features,
+    output,
+    dataset,
+    loss: evaluation.trainLoss,
+    evaluation,
+    objective: null,
+    stallCount: 0,
+    path: [],
+    events: [{
+      type: SimulationEventType.INITIALIZED,
+      numFeatures: features.length,
+      datasetName: dataset.name,
+      numSamples: dataset.X.length,
+      numValidation: split.validation?.X.length ?? 0
+    }],
+    calculationDetails: null,
+    optimizer: createOptimizerState(parameterCount(features, output), features.length, config)
+  };
+};
+
+export const isFinished = (state: SimulationState): boolean => state.phase === SimulationPhase.FINISHED;
+
+export const step = (prev: SimulationState): StepResult => {
+  if (isFinished(prev)) return { state: prev, events: [] };
+
+  const { config } = prev;
+  const next: SimulationState = { ...prev, stepIndex: prev.stepIndex + 1 };
+  const events: SimulationEvent[] = [];
+
+  if (prev.phase === SimulationPhase.INIT) {
+    next.phase = SimulationPhase.PRETRAIN;
+    events.push({ type: SimulationEventType.PHASE_CHANGED, phase: SimulationPhase.PRETRAIN, lambda: 0 });
+    return { state: { ...next, events: [...prev.events, ...events] }, events };
+  }
+
+  const split = splitFor(prev);
+
+  if (prev.step === OptimizationStep.GRADIENT) {
+    const result = performGradientStep(prev.features, prev.output, split.train, config, prev.optimizer, prev.lambda);
+    next.features = result.features;
+    next.output = result.output;
+    next.optimizer = result.optimizer;
+    next.loss = result.loss;
+    next.calculationDetails = result.details;
+    next.step = OptimizationStep.PROXIMAL;
+    events.push({ type: SimulationEventType.GRADIENT_STEP, loss: result.loss });
+  } else {
+    const result = performProximalStep(prev.features, prev.lambda, config, prev.optimizer.featureSteps);
+    next.features = result.features;
+    next.calculationDetails = result.details;
+    next.step = OptimizationStep.GRADIENT;
+    next.epoch += 1;
+    events.push({ type: SimulationEventType.PROXIMAL_STEP, lambda: prev.lambda, mode: config.proximalMode });
+
+    // Track the penalized objective so the inner loop can detect convergence
+    next.evaluation = evaluate(next.features, next.output, split);
+    const objective = computeObjective(next.evaluation.trainLoss, next.features, prev.lambda, config);
+    next.stallCount = updateStallCount(prev.objective, objective, prev.stallCount, config);
+    next.objective = objective;
+
+    prev.features.forEach((f, i) => {
+      if (f.isActive && !next.features[i].isActive) {
+        events.push({ type: SimulationEventType.FEATURE_ELIMINATED, featureId: f.id, lambda: prev.lambda });
+      }
+    });
+  }
+
+  if (prev.phase === SimulationPhase.PRETRAIN) {
+    if (next.epoch >= config.pretrainEpochs) {
+      next.phase = SimulationPhase.PATH_LOOP;
+      next.features = adaptivePenaltyWeights(next.features, config);
+      next.epoch = 0;
+      next.objective = null;
+      next.stallCount = 0;
+      // Pretraining can end on a gradient step when it has no epochs at all
+      next.evaluation = evaluate(next.features, next.output, split);
+      next.path = [recordPathPoint(next.features, 0, next.evaluation)];
+      next.lambda = firstPathLambda(config);
+      events.push({ type: SimulationEventType.PHASE_CHANGED, phase: SimulationPhase.PATH_LOOP, lambda: next.lambda });
+    }
+  } else if (prev.phase === SimulationPhase.PATH_LOOP && prev.step === OptimizationStep.PROXIMAL) {
+    const lambdaStop = lambdaStopReason(next.epoch, next.stallCount, config);
+    if (lambdaStop) {
+      events.push({
+        type: SimulationEventType.LAMBDA_COMPLETED,
+        lambda: prev.lambda,
+        epochs: next.epoch,
+        reason: lambdaStop
+      });
+      next.epoch = 0;
+      next.objective = null;
+      next.stallCount = 0;
+      next.path = [...prev.path, recordPathPoint(next.features, prev.lambda, next.evaluation)];
+      next.lambda = nextLambda(prev.lambda, config);
+
+      const pathStop = pathStopReason(next.lambda, next.features, config);
+      if (pathStop) {
+        next.phase = SimulationPhase.FINISHED;
+        events.push({ type: SimulationEventType.PATH_FINISHED, reason: pathStop });
+      } else {
+        // Weights carry over unchanged: each λ warm-starts from the previous solution
+        events.push({ type: SimulationEventType.LAMBDA_INCREASED, lambda: next.lambda });
+      }
+    }
+  }
+
+  const logged = events.filter(isLogged);
+  return {
+    state: logged.length > 0 ? { ...next, events: [...prev.events, ...logged] } : next,
+    events
+  };
+};
+
+// Steps until FINISHED; maxSteps guards against configs that never terminate
+export const runToEnd = (initial: SimulationState, maxSteps: number = 1_000_000): StepResult => {
+  let state = initial;
+  const events: SimulationEvent[] = [];
+  for (let i = 0; i < maxSteps && !isFinished(state); i++) {
+    const result = step(state);
+    state = result.state;
+    events.push(...result.events);
+  }
+  return { state, events };
+};
+
+// A manual edit is not an engine step: stepIndex stays, and the event records where it
+// happened so a replay can apply it at the same point. Convergence tracking starts over.
+export const editSimulation = (prev: SimulationState, edit: ManualEdit): StepResult => {
+  const features = applyManualEdit(prev.features, edit, prev.config);
+  const evaluation = evaluate(features, prev.output, splitFor(prev));
+  const events: SimulationEvent[] = [{ type: SimulationEventType.MANUAL_EDIT, stepIndex: prev.stepIndex, edit }];
+  // A removed feature counts as eliminated at the current λ, like one the proximal step dropped
+  prev.features.forEach((f, i) => {
+    if (f.isActive && !features[i].isActive) {
+      events.push({ type: SimulationEventType.FEATURE_ELIMINATED, featureId: f.id, lambda: prev.lambda });
+    }
+  });
+  return {
+    state: {
+      ...prev,
+      features,
+      evaluation,
+      loss: evaluation.trainLoss,
+      objective: null,
+      stallCount: 0,
+      events: [...prev.events, ...events]
+    },
+    events
+  };
+};
+
+// Manual edits made so far on this run, in order
+export const manualEdits = (state: SimulationState): RecordedEdit[] =>
+  state.events.flatMap(event =>
+    event.type === SimulationEventType.MANUAL_EDIT ? [{ stepIndex: event.stepIndex, edit: event.edit }] : []
+  );
+
+// Every snapshot from `initial` up to step `untilStep` (or FINISHED), one at a time, with
+// each edit applied once the run reaches the step it was made after
+export function* replaySteps(
+  initial: SimulationState,
+  edits: RecordedEdit[],
+  untilStep: number = Infinity
+): Generator<SimulationState> {
+  let last = initial;
+  yield last;
+  const pending = edits.filter(e => e.stepIndex >= initial.stepIndex);
+  for (;;) {
+    while (pending.length > 0 && pending[0].stepIndex <= last.stepIndex) {
+      last = editSimulation(last, pending.shift()!.edit).state;
+      yield last;
+    }
+    if (last.stepIndex >= untilStep || isFinished(last)) return;
+    last = step(last).state;
+    yield last;
+  }
+}
+
+// The snapshots of `replaySteps` as a history. Only the last `keep` are returned, and no
+// more than twice that are held while replaying.
+export const replay = (
+  initial: SimulationState,
+  edits: RecordedEdit[],
+  untilStep: number = Infinity,
+  keep: number = Infinity
+): SimulationState[] => {
+  let history: SimulationState[] = [];
+  for (const state of replaySteps(initial, edits, untilStep)) {
+    history.push(state);
+    if (history.length > 2 * keep) history = history.slice(-keep);
+  }
+  return history.length > keep ? history.slice(-keep) : history;
+};
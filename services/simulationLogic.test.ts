@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_CONFIG } from '../constants';
+import { ManualEditType, SimulationPhase } from '../types';
+import { applyManualEdit, hierProx } from './simulationLogic';
+import { createSimulation, editSimulation, step } from './simulationEngine';
+
+test('unpinning restores the adaptive weight from before the pin', () => {
+  let state = createSimulation({ ...DEFAULT_CONFIG, adaptiveWeights: true });
+  while (state.phase !== SimulationPhase.PATH_LOOP) state = step(state).state;
+  const feature = state.features.find(f => f.penaltyWeight !== 1)!;
+  assert.ok(feature, 'adaptive weights differ from 1 after pretraining');
+
+  const pinned = editSimulation(state, { type: ManualEditType.PIN_FEATURE, featureId: feature.id, pinned: true }).state;
+  assert.equal(pinned.features.find(f => f.id === feature.id)!.penaltyWeight, 0);
+
+  const unpinned = editSimulation(pinned, { type: ManualEditType.PIN_FEATURE, featureId: feature.id, pinned: false }).state;
+  assert.equal(unpinned.features.find(f => f.id === feature.id)!.penaltyWeight, feature.penaltyWeight);
+});
+
+test('pinning twice keeps the weight from before the first pin', () => {
+  const { features } = createSimulation(DEFAULT_CONFIG);
+  const weighted = features.map(f => ({ ...f, penaltyWeight: 0.4 }));
+  const pin = { type: ManualEditType.PIN_FEATURE, featureId: weighted[0].id, pinned: true } as const;
+  const twice = applyManualEdit(applyManualEdit(weighted, pin, DEFAULT_CONFIG), pin, DEFAULT_CONFIG);
+  const unpinned = applyManualEdit(twice, { ...pin, pinned: false }, DEFAULT_CONFIG);
+  assert.equal(unpinned[0].penaltyWeight, 0.4);
+});
+
+test('unpinning a feature pinned by an older link falls back to the configured weight', () => {
+  const { features } = createSimulation(DEFAULT_CONFIG);
+  const pinned = features.map(f => ({ ...f, penaltyWeight: 0 }));
+  const unpinned = applyManualEdit(pinned, { type: ManualEditType.PIN_FEATURE, featureId: pinned[0].id, pinned: false }, DEFAULT_CONFIG);
+  assert.equal(unpinned[0].penaltyWeight, 1);
+});
+
+test('hierProx picks the level consistent with the sorted |W|', () => {
+  // θ = 1, W = (2, -0.5), λ = 0.5, M = 1: w_0 = 0.5 < |W|_(1), w_1 = (1 + 2 - 0.5)/2 = 1.25 fits between 2 and 0.5
+  const result = hierProx([1], [2, -0.5], 0.5, 1);
+  assert.deepEqual(result.candidateLevels, [0.5, 1.25, 1]);
+  assert.equal(result.chosenIndex, 1);
+  assert.deepEqual(result.thetas, [1.25]);
+  assert.deepEqual(result.w, [1.25, -0.5]);
+  assert.equal(result.isClamped, true);
+});
+
+test('hierProx zeroes θ and W together once λ outweighs the group', () => {
+  const result = hierProx([0.1], [0.1, -0.05], 1, 1);
+  assert.deepEqual(result.thetas, [0]);
+  assert.deepEqual(result.w.map(Math.abs), [0, 0]);
+});
+
+test('hierProx keeps a feature whose W already fits under M·|θ|', () => {
+  // |W| ≤ M·(|θ| - λ), so only θ is soft-thresholded
+  const result = hierProx([2], [0.5, 0.25], 0.5, 1);
+  assert.deepEqual(result.thetas, [1.5]);
+  assert.deepEqual(result.w, [0.5, 0.25]);
+  assert.equal(result.isClamped, false);
+});
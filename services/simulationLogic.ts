@@ -1,71 +1,261 @@
 
-import { WeightData, StepCalculationDetails, OptimizationStep } from "../types";
-import { NUM_FEATURES, HIDDEN_SIZE, M_CONSTANT, LEARNING_RATE } from "../constants";
+import { WeightData, StepCalculationDetails, FeatureStepDetails, OptimizationStep, OptimizerState, OptimizerType, OutputLayer, Dataset, LossEvaluation, ProximalMode, SimulationConfig, PathPoint, TaskType, ManualEdit, ManualEditType } from "../types";
+import { MAX_BACKTRACKS } from "../constants";
+import { createRng } from "./random";
+import { applyOptimizer, optimizerSnapshot } from "./optimizer";
+import { effectivePenalty, initialPenaltyWeight, thresholdTheta } from "./penalty";
+import { taskOf } from "./dataset";
 
-export const initializeWeights = (): WeightData[] => {
-  return Array.from({ length: NUM_FEATURES }, (_, i) => {
-    const startTheta = 1.0 - (i * 0.4); 
-    const startW = Array.from({ length: HIDDEN_SIZE }, () => startTheta * 0.5);
+// ‖θ‖₂; with one output this is exactly |θ|, so the scalar path is unchanged
+export const vectorNorm = (values: number[]): number =>
+  values.length === 1 ? Math.abs(values[0]) : Math.sqrt(values.reduce((sum, v) => sum + v * v, 0));
+
+// WeightData.theta for a θ vector
+export const thetaSummary = (thetas: number[]): number => thetas.length === 1 ? thetas[0] : vectorNorm(thetas);
+
+// One WeightData per dataset column
+export const initializeWeights = (numFeatures: number, numOutputs: number, config: SimulationConfig): WeightData[] => {
+  const rng = createRng(config.seed + 1);
+  return Array.from({ length: numFeatures }, (_, i) => {
+    const startTheta = 0.2 + 0.8 * rng();
+    // Random W within the hierarchy box so hidden units are not symmetric
+    const startW = Array.from({ length: config.hiddenSize }, () => (rng() - 0.5) * startTheta);
+    // Further outputs get their own sign so the classes start apart
+    const thetas = [startTheta, ...Array.from({ length: numOutputs - 1 }, () => (2 * rng() - 1) * startTheta)];
+    const theta = thetaSummary(thetas);
     
     return {
       id: i + 1,
-      theta: startTheta, 
+      theta,
+      thetas,
       w: startW,
       isActive: true,
       isClamped: false,
-      prevTheta: startTheta,
+      penaltyWeight: initialPenaltyWeight(i + 1, config),
+      prevTheta: theta,
       prevW: startW,
-      gradTheta: 0,
-      gradW: Array(HIDDEN_SIZE).fill(0)
+      gradTheta: thetas.map(() => 0),
+      gradW: Array(config.hiddenSize).fill(0)
     };
   });
 };
 
-const softThreshold = (x: number, lambda: number): number => {
-  if (x > lambda) return x - lambda;
-  if (x < -lambda) return x + lambda;
-  return 0;
+export const initializeOutputLayer = (config: SimulationConfig, numOutputs: number): OutputLayer => {
+  // Without a first hidden layer (the plain lasso baseline) there is nothing to stack on
+  const widths = config.hiddenSize > 0 ? [config.hiddenSize, ...config.deepLayers] : [0];
+  const rng = createRng(config.seed + 2);
+  const v = Array.from({ length: numOutputs }, () => Array.from({ length: widths[widths.length - 1] }, () => rng() - 0.5));
+  // Own stream, so adding layers leaves v exactly as in the one-layer network
+  const deepRng = createRng(config.seed + 4);
+  const deepLayers = widths.slice(1).map((width, l) => {
+    const u = Array.from({ length: width }, () => Array.from({ length: widths[l] }, () => deepRng() - 0.5));
+    return { u, gradU: u.map(row => row.map(() => 0)) };
+  });
+  return { v, gradV: v.map(row => row.map(() => 0)), deepLayers };
 };
 
-// Returns [NewFeatures, CalculationDetails]
-export const performGradientStep = (features: WeightData[]): { features: WeightData[], details: StepCalculationDetails } => {
-  // Focus detail on Feature 1 for demonstration, or the first active feature
-  let detailObj: StepCalculationDetails = {
-    stepType: OptimizationStep.GRADIENT,
-    featureId: 1,
-  };
+// Hidden activation and its derivative
+const activation = Math.tanh;
+const activationGrad = (z: number): number => 1 - Math.tanh(z) ** 2;
 
-  const newFeatures = features.map(f => {
-    if (!f.isActive) return f;
+// Forward pass for one sample: skip path θ_c·x plus hidden path v_c·h, where h runs x through
+// σ(Wᵀx) and then every deeper layer. z and h hold the pre-activations and activations per layer.
+const forwardSample = (features: WeightData[], output: OutputLayer, x: number[]) => {
+  const first = (features[0]?.w ?? []).map((_, j) => features.reduce((sum, f, i) => sum + f.w[j] * x[i], 0));
+  const z = [first];
+  const h = [first.map(activation)];
+  output.deepLayers.forEach(layer => {
+    const below = h[h.length - 1];
+    const next = layer.u.map(row => row.reduce((sum, u, k) => sum + u * below[k], 0));
+    z.push(next);
+    h.push(next.map(activation));
+  });
+  const top = h[h.length - 1];
+  const yHat = output.v.map((v, c) => {
+    const skip = features.reduce((sum, f, i) => sum + f.thetas[c] * x[i], 0);
+    return skip + top.reduce((sum, hj, j) => sum + v[j] * hj, 0);
+  });
+  return { z, h, yHat };
+};
 
-    // 1. Calculate Simulated Gradients
-    // Target values to simulate convergence towards
-    let targetTheta = 0;
-    if (f.id === 1) targetTheta = 1.8;      // Feature 1 stays strong
-    else if (f.id === 2) targetTheta = 0.6; // Feature 2 gets weaker
-    else targetTheta = 0.05;                // Feature 3 (noise) goes to 0
-
-    const targetW = targetTheta * 0.5;
-
-    // Gradient = (Current - Target) * NoiseFactor
-    const gradTheta = (f.theta - targetTheta); 
-    const gradW = f.w.map(w => (w - targetW));
-
-    // 2. Apply Gradient Descent
-    const newTheta = f.theta - LEARNING_RATE * gradTheta;
-    const newW = f.w.map((w, i) => w - LEARNING_RATE * gradW[i]);
-
-    // Capture details for Feature 1 (or 2 if 1 is dead) for the UI
-    if (f.id === 1 || (f.id === 2 && detailObj.featureId !== 1)) {
-      detailObj = {
-        stepType: OptimizationStep.GRADIENT,
-        featureId: f.id,
-        oldVal: f.theta,
-        grad: gradTheta,
-        learningRate: LEARNING_RATE,
-        newVal: newTheta
+// Loss of one sample and its derivative with respect to each output
+const sampleLoss = (yHat: number[], y: number, task: TaskType): { loss: number, residual: number[] } => {
+  switch (task) {
+    case TaskType.BINARY: {
+      // log(1 + e^ŷ) - y·ŷ, written so large |ŷ| cannot overflow
+      const softplus = Math.max(yHat[0], 0) + Math.log1p(Math.exp(-Math.abs(yHat[0])));
+      return { loss: softplus - y * yHat[0], residual: [1 / (1 + Math.exp(-yHat[0])) - y] };
+    }
+    case TaskType.MULTICLASS: {
+      const max = Math.max(...yHat);
+      const exps = yHat.map(v => Math.exp(v - max));
+      const total = exps.reduce((sum, e) => sum + e, 0);
+      return {
+        loss: max + Math.log(total) - yHat[y],
+        residual: exps.map((e, c) => e / total - (c === y ? 1 : 0))
       };
     }
+    default: {
+      const r = yHat[0] - y;
+      return { loss: r * r / 2, residual: [r] };
+    }
+  }
+};
+
+export const computeLoss = (features: WeightData[], output: OutputLayer, dataset: Dataset): number => {
+  const n = dataset.X.length;
+  if (n === 0) return 0;
+  const task = taskOf(dataset);
+  const total = dataset.X.reduce((sum, x, k) => sum + sampleLoss(forwardSample(features, output, x).yHat, dataset.y[k], task).loss, 0);
+  return total / n;
+};
+
+// Mean loss and its standard error over the rows, e.g. of the validation set
+export const evaluateLoss = (features: WeightData[], output: OutputLayer, dataset: Dataset): { loss: number, standardError: number } => {
+  const n = dataset.X.length;
+  if (n === 0) return { loss: 0, standardError: 0 };
+  const task = taskOf(dataset);
+  const losses = dataset.X.map((x, k) => sampleLoss(forwardSample(features, output, x).yHat, dataset.y[k], task).loss);
+  const loss = losses.reduce((sum, l) => sum + l, 0) / n;
+  const variance = losses.reduce((sum, l) => sum + (l - loss) ** 2, 0) / Math.max(1, n - 1);
+  return { loss, standardError: Math.sqrt(variance / n) };
+};
+
+// Full-batch backpropagation of the mean loss: squared error, or cross-entropy on the logits
+const computeGradients = (features: WeightData[], output: OutputLayer, dataset: Dataset) => {
+  const n = Math.max(1, dataset.X.length);
+  const task = taskOf(dataset);
+  const gradTheta = features.map(f => f.thetas.map(() => 0));
+  const gradW = features.map(f => f.w.map(() => 0));
+  const gradV = output.v.map(row => row.map(() => 0));
+  const gradU = output.deepLayers.map(layer => layer.u.map(row => row.map(() => 0)));
+  let total = 0;
+
+  dataset.X.forEach((x, k) => {
+    const { z, h, yHat } = forwardSample(features, output, x);
+    const { loss, residual } = sampleLoss(yHat, dataset.y[k], task);
+    total += loss;
+    // Error reaching each unit of the last hidden layer through every output
+    const top = h.length - 1;
+    let hiddenError = h[top].map((_, j) => residual.reduce((sum, r, c) => sum + r * output.v[c][j], 0) * activationGrad(z[top][j]));
+    // Then down through the deeper layers to the first one
+    for (let l = top; l > 0; l--) {
+      const layer = output.deepLayers[l - 1];
+      const error = hiddenError;
+      layer.u.forEach((row, j) => row.forEach((_, m) => {
+        gradU[l - 1][j][m] += error[j] * h[l - 1][m];
+      }));
+      hiddenError = h[l - 1].map((_, m) => layer.u.reduce((sum, row, j) => sum + row[m] * error[j], 0) * activationGrad(z[l - 1][m]));
+    }
+
+    features.forEach((f, i) => {
+      residual.forEach((r, c) => {
+        gradTheta[i][c] += r * x[i];
+      });
+      f.w.forEach((_, j) => {
+        gradW[i][j] += hiddenError[j] * x[i];
+      });
+    });
+    residual.forEach((r, c) => {
+      h[top].forEach((hj, j) => {
+        gradV[c][j] += r * hj;
+      });
+    });
+  });
+
+  return {
+    loss: total / n,
+    gradTheta: gradTheta.map(row => row.map(g => g / n)),
+    gradW: gradW.map(row => row.map(g => g / n)),
+    gradV: gradV.map(row => row.map(g => g / n)),
+    gradU: gradU.map(layer => layer.map(row => row.map(g => g / n)))
+  };
+};
+
+// Flat parameter layout shared with the optimizer buffers: every θ vector, then each W row,
+// then each row of v, then the deeper layers
+const packParameters = (features: WeightData[], output: OutputLayer): number[] => [
+  ...features.flatMap(f => f.thetas),
+  ...features.flatMap(f => f.w),
+  ...output.v.flat(),
+  ...output.deepLayers.flatMap(layer => layer.u.flat())
+];
+
+export const parameterCount = (features: WeightData[], output: OutputLayer): number =>
+  packParameters(features, output).length;
+
+const unpackParameters = (params: number[], features: WeightData[], output: OutputLayer) => {
+  const n = features.length;
+  const C = output.v.length;
+  const K = features[0]?.w.length ?? 0;
+  let offset = n * C + n * K;
+  const take = (rows: number[][]) => rows.map(row => row.map(() => params[offset++]));
+  const v = take(output.v);
+  const deepLayers = output.deepLayers.map(layer => ({ ...layer, u: take(layer.u) }));
+  return {
+    features: features.map((f, i) => {
+      const thetas = f.thetas.map((_, c) => params[i * C + c]);
+      return { ...f, theta: thetaSummary(thetas), thetas, w: f.w.map((_, j) => params[n * C + i * K + j]) };
+    }),
+    output: { ...output, v, deepLayers }
+  };
+};
+
+// Returns [NewFeatures, NewOutputLayer, Loss, CalculationDetails, OptimizerState]
+export const performGradientStep = (
+  features: WeightData[],
+  output: OutputLayer,
+  dataset: Dataset,
+  config: SimulationConfig,
+  optimizer: OptimizerState,
+  lambda: number
+): { features: WeightData[], output: OutputLayer, loss: number, details: StepCalculationDetails, optimizer: OptimizerState } => {
+  // 1. Backpropagate the loss through both paths
+  const grads = computeGradients(features, output, dataset);
+  const n = features.length;
+  const C = output.v.length;
+  const K = features[0]?.w.length ?? 0;
+
+  // 2. Let the optimizer move every parameter of the active features and the output layer
+  const params = packParameters(features, output);
+  const flatGrads = [...grads.gradTheta.flat(), ...grads.gradW.flat(), ...grads.gradV.flat(), ...grads.gradU.flat(2)];
+  const frozen = [
+    ...features.flatMap(f => f.thetas.map(() => !f.isActive)),
+    ...features.flatMap(f => f.w.map(() => !f.isActive)),
+    ...output.v.flat().map(() => false),
+    ...output.deepLayers.flatMap(layer => layer.u.flat()).map(() => false)
+  ];
+  const lineSearch = config.optimizer === OptimizerType.LINE_SEARCH
+    ? backtrack(features, output, dataset, config, flatGrads, frozen, grads.loss, lambda)
+    : undefined;
+  const update = applyOptimizer(params, flatGrads, frozen, optimizer, config, lineSearch?.acceptedStep);
+  const moved = unpackParameters(update.params, features, output);
+  const snapshot = (k: number) => optimizerSnapshot(update.state, update.stepSizes, k, config.optimizer);
+
+  const featureDetails: FeatureStepDetails[] = [];
+  const newFeatures = features.map((f, i) => {
+    const gradTheta = grads.gradTheta[i];
+    const gradW = grads.gradW[i];
+    const optimizerDetails = {
+      thetaOptimizer: snapshot(i * C),
+      wOptimizer: f.w.map((_, j) => snapshot(n * C + i * K + j))
+    };
+    const moves = f.isActive ? moved.features[i] : f;
+    const vectorDetails = C > 1 ? { oldThetas: f.thetas, gradThetas: gradTheta, newThetas: moves.thetas } : {};
+    featureDetails.push({
+      featureId: f.id,
+      wasActive: f.isActive,
+      oldVal: f.theta,
+      grad: thetaSummary(gradTheta),
+      newVal: moves.theta,
+      oldW: f.w,
+      gradW,
+      newW: moves.w,
+      ...optimizerDetails,
+      ...vectorDetails
+    });
+
+    if (!f.isActive) return f;
 
     return {
       ...f,
@@ -73,72 +263,292 @@ export const performGradientStep = (features: WeightData[]): { features: WeightD
       prevW: f.w,
       gradTheta,
       gradW,
-      theta: newTheta,
-      w: newW,
+      theta: moves.theta,
+      thetas: moves.thetas,
+      w: moves.w,
       isClamped: false 
     };
   });
 
-  return { features: newFeatures, details: detailObj };
+  // The deeper layers and v are not penalized, they only follow the optimizer
+  const newOutput: OutputLayer = {
+    v: moved.output.v,
+    gradV: grads.gradV,
+    deepLayers: moved.output.deepLayers.map((layer, l) => ({ u: layer.u, gradU: grads.gradU[l] }))
+  };
+
+  const details: StepCalculationDetails = {
+    stepType: OptimizationStep.GRADIENT,
+    learningRate: config.learningRate,
+    optimizer: config.optimizer,
+    lineSearch,
+    features: featureDetails
+  };
+  return {
+    features: newFeatures,
+    output: newOutput,
+    loss: grads.loss,
+    details,
+    // Adam's per-coordinate steps would rank features by their gradient history rather than
+    // by relevance, so every feature is thresholded with the base step
+    optimizer: { ...update.state, featureSteps: features.map(() => update.rate) }
+  };
+};
+
+interface ProxResult {
+  thetas: number[];
+  w: number[];
+  isClamped: boolean;
+  limit?: number; // Bound on |W|; the group lasso has none
+  sortedW?: number[];
+  candidateLevels?: number[];
+  chosenIndex?: number;
+  groupNorm?: number;
+  groupScale?: number;
+}
+
+// Rescales θ to a new length along its own direction; with one output this keeps the sign
+const rescale = (thetas: number[], length: number): number[] => {
+  const norm = vectorNorm(thetas);
+  return thetas.map(t => norm > 0 ? (t / norm) * length : 0);
+};
+
+// Approximation: threshold θ with the selected penalty, then clamp each W entry to M·‖θ‖ on its own
+const thresholdThenClamp = (w: number[], newThetas: number[], M: number): ProxResult => {
+  const limit = M * vectorNorm(newThetas);
+
+  let isClamped = false;
+  const newW = w.map(wVal => {
+    if (Math.abs(wVal) > limit) {
+      isClamped = true;
+      return Math.sign(wVal) * limit;
+    }
+    return wVal;
+  });
+
+  return { thetas: newThetas, w: newW, isClamped, limit };
 };
 
-export const performProximalStep = (features: WeightData[], lambda: number): { features: WeightData[], details: StepCalculationDetails } => {
-  let detailObj: StepCalculationDetails = {
-    stepType: OptimizationStep.PROXIMAL,
-    featureId: 1,
+// Hier-Prox (LassoNet paper, Algorithm 2): solves for θ and W jointly.
+// With several outputs |θ| becomes ‖θ‖₂ and θ keeps its direction (the paper's multi-output case).
+export const hierProx = (thetas: number[], w: number[], threshold: number, M: number): ProxResult => {
+  // 1. Sort |W| in decreasing order
+  const sortedW = w.map(Math.abs).sort((a, b) => b - a);
+  const K = sortedW.length;
+
+  // 2. Candidate levels w_m = M / (1 + m·M²) · S_λ(|θ| + M · Σ_{i≤m} |W|_(i))
+  const candidateLevels: number[] = [];
+  let partialSum = 0;
+  for (let m = 0; m <= K; m++) {
+    if (m > 0) partialSum += sortedW[m - 1];
+    candidateLevels.push((M / (1 + m * M * M)) * Math.max(0, vectorNorm(thetas) + M * partialSum - threshold));
+  }
+
+  // 3. Pick the first m with |W|_(m+1) ≤ w_m ≤ |W|_(m)
+  let chosenIndex = candidateLevels.findIndex((level, m) => {
+    const upper = m === 0 ? Infinity : sortedW[m - 1];
+    const lower = m === K ? 0 : sortedW[m];
+    return lower <= level && level <= upper;
+  });
+  if (chosenIndex === -1) chosenIndex = K; // Only reachable through rounding
+
+  // 4. Rescale θ and W together with the common bound w_m̃
+  const shrinkage = candidateLevels[chosenIndex];
+  const newW = w.map(wVal => Math.sign(wVal) * Math.min(shrinkage, Math.abs(wVal)));
+
+  return {
+    thetas: rescale(thetas, shrinkage / M),
+    w: newW,
+    isClamped: w.some(wVal => Math.abs(wVal) > shrinkage),
+    limit: shrinkage,
+    sortedW,
+    candidateLevels,
+    chosenIndex
   };
+};
+
+// Group soft-thresholding of (θ, W): the whole row survives or goes to zero together.
+// There is no hierarchy bound, so W can stay large while θ is small.
+export const groupProx = (thetas: number[], w: number[], threshold: number): ProxResult => {
+  const groupNorm = Math.sqrt([...thetas, ...w].reduce((sum, v) => sum + v * v, 0));
+  const groupScale = groupNorm > threshold ? 1 - threshold / groupNorm : 0;
+  return {
+    thetas: thetas.map(t => t * groupScale),
+    w: w.map(wVal => wVal * groupScale),
+    isClamped: false,
+    groupNorm,
+    groupScale
+  };
+};
 
-  const newFeatures = features.map(f => {
+// `lambda` is already scaled by the feature's weight ω; `stepSize` is the step of the preceding gradient step
+const proximalOperator = (f: WeightData, lambda: number, stepSize: number, config: SimulationConfig): ProxResult => {
+  const threshold = lambda * stepSize;
+  switch (config.proximalMode) {
+    case ProximalMode.HIER_PROX:
+      return hierProx(f.thetas, f.w, threshold, config.mConstant);
+    case ProximalMode.GROUP_LASSO:
+      return groupProx(f.thetas, f.w, threshold);
+    default: {
+      // The penalty acts on ‖θ‖₂, so several outputs get the vector (group) soft-threshold
+      const newNorm = thresholdTheta(vectorNorm(f.thetas), config.penalty, lambda, stepSize, config.penaltyGamma);
+      return thresholdThenClamp(f.w, rescale(f.thetas, newNorm), config.mConstant);
+    }
+  }
+};
+
+const dot = (a: number[], b: number[]): number => a.reduce((sum, x, k) => sum + x * b[k], 0);
+
+// Proximal-gradient backtracking (Beck & Teboulle): shrink t until z = prox_t(x - t·∇L) satisfies
+// L(z) ≤ L(x) + ∇Lᵀ(z - x) + ‖z - x‖²/(2t). The proximal step that follows reproduces z.
+const backtrack = (
+  features: WeightData[],
+  output: OutputLayer,
+  dataset: Dataset,
+  config: SimulationConfig,
+  grads: number[],
+  frozen: boolean[],
+  loss: number,
+  lambda: number
+): { acceptedStep: number, backtracks: number } => {
+  const params = packParameters(features, output);
+  let step = config.learningRate;
+  for (let backtracks = 0; ; backtracks++) {
+    const candidate = unpackParameters(params.map((p, k) => frozen[k] ? p : p - step * grads[k]), features, output);
+    const proxed = candidate.features.map(f => {
+      const result = proximalOperator(f, lambda * f.penaltyWeight, step, config);
+      return { ...f, thetas: result.thetas, w: result.w };
+    });
+    const diff = packParameters(proxed, candidate.output).map((z, k) => z - params[k]);
+    const bound = loss + dot(grads, diff) + dot(diff, diff) / (2 * step);
+    if (computeLoss(proxed, candidate.output, dataset) <= bound + 1e-12 || backtracks >= MAX_BACKTRACKS) {
+      return { acceptedStep: step, backtracks };
+    }
+    step *= config.lineSearchShrink;
+  }
+};
+
+export const performProximalStep = (
+  features: WeightData[],
+  lambda: number,
+  config: SimulationConfig,
+  featureSteps: number[]
+): { features: WeightData[], details: StepCalculationDetails } => {
+  const mode = config.proximalMode;
+  // Nominal threshold λ·η; each feature actually uses the step its θ took in the gradient step
+  const threshold = lambda * config.learningRate;
+  const featureDetails: FeatureStepDetails[] = [];
+
+  const newFeatures = features.map((f, i) => {
     const prevTheta = f.theta;
     const prevW = f.w;
+    const stepSize = featureSteps[i] ?? config.learningRate;
 
-    // 1. Soft thresholding on Theta
-    // Effective lambda is lambda * learning_rate in PGD
-    const threshold = lambda * LEARNING_RATE; 
-    let newTheta = softThreshold(f.theta, threshold);
+    const result = proximalOperator(f, lambda * f.penaltyWeight, stepSize, config);
 
-    const isActive = Math.abs(newTheta) > 1e-4;
-    if (!isActive) newTheta = 0;
+    // The group lasso drops a feature only when its whole (θ, W) group is zeroed; a small θ
+    // with a surviving W row is still in the model. LassoNet modes drop it with θ.
+    const isActive = mode === ProximalMode.GROUP_LASSO
+      ? (result.groupScale ?? 0) > 0
+      : vectorNorm(result.thetas) > 1e-4;
+    const newThetas = isActive ? result.thetas : result.thetas.map(() => 0);
+    const newTheta = thetaSummary(newThetas);
+    const newW = isActive ? result.w : result.w.map(() => 0);
+    const vectorDetails = newThetas.length > 1 ? {
+      inputThetas: f.thetas,
+      thresholdedThetas: newThetas,
+      thetaScale: f.theta > 0 ? newTheta / f.theta : 0
+    } : {};
 
-    // 2. Hierarchical Projection for W
-    const limit = M_CONSTANT * Math.abs(newTheta);
-    
-    let isClamped = false;
-    const newW = f.w.map(wVal => {
-      const absW = Math.abs(wVal);
-      if (absW > limit) {
-        isClamped = true;
-        return Math.sign(wVal) * limit;
-      }
-      return wVal;
+    featureDetails.push({
+      featureId: f.id,
+      wasActive: f.isActive,
+      penaltyWeight: f.penaltyWeight,
+      stepSize,
+      inputTheta: f.theta,
+      thresholdedTheta: newTheta,
+      inputW: f.w,
+      limit: result.limit,
+      clampedW: newW,
+      clampedMask: result.limit === undefined ? undefined : f.w.map(wVal => Math.abs(wVal) > result.limit),
+      sortedW: result.sortedW,
+      candidateLevels: result.candidateLevels,
+      chosenIndex: result.chosenIndex,
+      shrinkage: mode === ProximalMode.HIER_PROX ? result.limit : undefined,
+      groupNorm: result.groupNorm,
+      groupScale: result.groupScale,
+      ...vectorDetails
     });
 
-    // Capture details for visualization
-    if (f.id === 1 || (f.id === 2 && detailObj.featureId !== 1)) {
-      detailObj = {
-        stepType: OptimizationStep.PROXIMAL,
-        featureId: f.id,
-        inputTheta: f.theta,
-        lambda: threshold,
-        thresholdedTheta: newTheta,
-        inputW: f.w[0], // Just show first W weight for example
-        limit: limit,
-        clampedW: newW[0]
-      };
-    }
-
     return {
       ...f,
       prevTheta,
       prevW,
       theta: newTheta,
+      thetas: newThetas,
       w: newW,
       isActive,
-      isClamped,
-      gradTheta: 0, // Reset gradients for display
+      isClamped: result.isClamped,
+      gradTheta: f.thetas.map(() => 0), // Reset gradients for display
       gradW: f.w.map(() => 0)
     };
   });
 
-  return { features: newFeatures, details: detailObj };
+  const details: StepCalculationDetails = {
+    stepType: OptimizationStep.PROXIMAL,
+    learningRate: config.learningRate,
+    lambda: threshold,
+    proximalMode: mode,
+    penalty: effectivePenalty(config),
+    penaltyGamma: config.penaltyGamma,
+    features: featureDetails
+  };
+  return { features: newFeatures, details };
 };
+
+// Snapshot of θ and max|W| per feature for the regularization path chart
+export const recordPathPoint = (features: WeightData[], lambda: number, evaluation: LossEvaluation): PathPoint => ({
+  lambda,
+  evaluation,
+  features: features.map(f => ({
+    id: f.id,
+    theta: f.theta,
+    maxW: Math.max(0, ...f.w.map(Math.abs)),
+    isActive: f.isActive
+  }))
+});
+
+// Applies a change made by hand on the graph. W is left as it is: the next proximal step
+// brings it back under M·|θ|, which is the reaction the edit is meant to show.
+export const applyManualEdit = (features: WeightData[], edit: ManualEdit, config: SimulationConfig): WeightData[] =>
+  features.map(f => {
+    if (f.id !== edit.featureId) return f;
+    switch (edit.type) {
+      case ManualEditType.PIN_FEATURE:
+        if (edit.pinned) {
+          return f.penaltyWeight === 0 ? f : { ...f, penaltyWeight: 0, pinnedPenaltyWeight: f.penaltyWeight };
+        }
+        // Unpinning restores the ω from before the pin, so adaptive weights survive it
+        return { ...f, penaltyWeight: f.pinnedPenaltyWeight ?? initialPenaltyWeight(f.id, config), pinnedPenaltyWeight: undefined };
+      case ManualEditType.REMOVE_FEATURE:
+        return { ...f, prevTheta: f.theta, prevW: f.w, theta: 0, thetas: f.thetas.map(() => 0), w: f.w.map(() => 0), isActive: false, isClamped: false };
+      case ManualEditType.SET_THETA: {
+        const norm = vectorNorm(f.thetas);
+        const thetas = f.thetas.length === 1 ? [edit.value]
+          // Keep the direction of the θ vector; a zero vector gets equal components
+          : norm > 0 ? f.thetas.map(t => t * Math.abs(edit.value) / norm)
+          : f.thetas.map(() => Math.abs(edit.value) / Math.sqrt(f.thetas.length));
+        // Same cutoff as the proximal step, so a θ dragged to 0 eliminates the feature
+        const isActive = vectorNorm(thetas) > 1e-4;
+        return {
+          ...f,
+          prevTheta: f.theta,
+          prevW: f.w,
+          theta: isActive ? thetaSummary(thetas) : 0,
+          thetas: isActive ? thetas : thetas.map(() => 0),
+          w: isActive ? f.w : f.w.map(() => 0),
+          isActive
+        };
+      }
+    }
+  });
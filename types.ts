@@ -11,48 +11,488 @@ export enum OptimizationStep {
   PROXIMAL = 'PROXIMAL'
 }
 
+export enum ProximalMode {
+  THRESHOLD_CLAMP = 'THRESHOLD_CLAMP', // Soft-threshold θ, then clamp each W entry independently
+  HIER_PROX = 'HIER_PROX',             // Exact joint solution from the LassoNet paper
+  GROUP_LASSO = 'GROUP_LASSO'          // Baseline: shrinks each feature's (θ, W row) group by its Euclidean norm
+}
+
+// Update rule of the gradient step
+export enum OptimizerType {
+  SGD = 'SGD',                 // Fixed step η
+  MOMENTUM = 'MOMENTUM',       // Heavy ball: v ← μ·v - η·∇L
+  ADAM = 'ADAM',               // Per-coordinate steps α/(√v̂ + ε)
+  LINE_SEARCH = 'LINE_SEARCH'  // Backtracking from η until the proximal-gradient sufficient decrease holds
+}
+
+// Flat optimizer buffers, one entry per parameter: each feature's θ vector, then each W row,
+// then each row of output weights v, then the weights u of each deeper hidden layer
+export interface OptimizerState {
+  iteration: number;       // Gradient steps taken (Adam's bias correction)
+  velocity: number[];      // Heavy-ball velocity
+  firstMoment: number[];   // Adam m
+  secondMoment: number[];  // Adam v
+  featureSteps: number[];  // Base step η of the last gradient step (the accepted one under line search); the proximal threshold is ω·λ·step
+}
+
+// Optimizer state of one parameter after a gradient step, for the math panel
+export interface OptimizerSnapshot {
+  stepSize: number;        // Effective step on this coordinate
+  velocity?: number;
+  firstMoment?: number;
+  secondMoment?: number;
+}
+
+// Penalty on θ; the nonconvex ones stop shrinking large coefficients
+export enum PenaltyType {
+  L1 = 'L1',     // Soft thresholding
+  MCP = 'MCP',   // Minimax concave penalty, flat beyond γλ
+  SCAD = 'SCAD'  // Smoothly clipped absolute deviation, flat beyond aλ
+}
+
 export interface WeightData {
   id: number;
-  theta: number; // Skip connection weight
+  // Skip connection weight: θ itself with one output, ‖θ‖₂ of `thetas` with several.
+  // Everything that only needs |θ| (charts, the hierarchy bound, the penalty) reads this.
+  theta: number;
+  thetas: number[]; // One skip weight per output
   w: number[];   // Weights to hidden layer
   isActive: boolean;
   isClamped: boolean; // To visualize when W is limited by M*|theta|
+  penaltyWeight: number; // ω in ω·λ·p(θ); 0 means the feature is never penalized
+  pinnedPenaltyWeight?: number; // ω before the feature was pinned, restored on unpin
   prevTheta: number; 
   prevW: number[];
   // Gradients (simulated for visualization)
-  gradTheta: number;
+  gradTheta: number[]; // One per output
   gradW: number[];
 }
 
+// Hidden layer after the first one; trained normally, without the hierarchy bound
+export interface DenseLayer {
+  u: number[][];     // [unit][unit of the previous layer]
+  gradU: number[][];
+}
+
+// Everything between the first hidden layer and the prediction
+export interface OutputLayer {
+  v: number[][];     // [output][unit of the last hidden layer]
+  gradV: number[][];
+  deepLayers: DenseLayer[];
+}
+
+// What the output layer predicts; classification datasets carry class labels
+export enum TaskType {
+  REGRESSION = 'REGRESSION', // One output, squared error
+  BINARY = 'BINARY',         // One logit, sigmoid cross-entropy
+  MULTICLASS = 'MULTICLASS'  // One logit per class, softmax cross-entropy
+}
+
+export interface Dataset {
+  name: string;
+  featureNames: string[];
+  X: number[][]; // One row per sample, one column per feature
+  y: number[];
+  spec?: SyntheticDatasetSpec; // Set for generated data, so it can be rebuilt from a share link
+  classes?: string[]; // Class labels for classification; y then holds indices into this list
+}
+
+export enum SignalType {
+  LINEAR = 'LINEAR',           // y = Σ β·x
+  MIXED = 'MIXED',             // Alternating linear and tanh terms
+  NONLINEAR = 'NONLINEAR',     // sin / quadratic terms, invisible to the skip path
+  INTERACTION = 'INTERACTION'  // Pairwise products only, no marginal effect
+}
+
+export interface SyntheticDatasetSpec {
+  signal: SignalType;
+  numSignal: number;     // Columns that drive y
+  numDuplicates: number; // Noisy copies of the first signal columns
+  numNoise: number;      // Pure-noise columns
+  numSamples: number;
+  noise: number;         // Std of the target noise
+  numClasses: number;    // 0 for a regression target, otherwise the target is cut into this many equal-size classes
+  seed: number;
+}
+
+export interface DatasetSplit {
+  train: Dataset;
+  validation: Dataset | null; // null when the validation fraction is 0
+}
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
 // New interface to store the specific numbers used in the calculation display
-export interface StepCalculationDetails {
-  stepType: OptimizationStep;
+// What one optimization step did to a single feature (θ and its whole W row)
+export interface FeatureStepDetails {
   featureId: number;
+  wasActive: boolean;      // Eliminated features are not updated by gradient steps
   // For Gradient
   oldVal?: number;
   grad?: number;
-  learningRate?: number;
   newVal?: number;
+  oldW?: number[];
+  gradW?: number[];
+  newW?: number[];
+  thetaOptimizer?: OptimizerSnapshot;
+  wOptimizer?: OptimizerSnapshot[];
+  // With several outputs the scalar fields hold norms and these hold the θ vectors
+  oldThetas?: number[];
+  gradThetas?: number[];
+  newThetas?: number[];
   // For Proximal
+  stepSize?: number;       // Step of the preceding gradient step; replaces η in the threshold
+  penaltyWeight?: number;  // ω; the feature's threshold is ω·λη
   inputTheta?: number;
-  lambda?: number;
   thresholdedTheta?: number;
-  inputW?: number;
+  inputW?: number[];
   limit?: number; // M * |theta|
-  clampedW?: number;
+  clampedW?: number[];
+  clampedMask?: boolean[]; // Entries of W that the hierarchy bound cut back
+  // Vector θ (several outputs): θ is rescaled as a whole by thetaScale = ‖θ̃‖₂/‖θ‖₂
+  inputThetas?: number[];
+  thresholdedThetas?: number[];
+  thetaScale?: number;
+  // For Hier-Prox
+  sortedW?: number[];      // |W| sorted in decreasing order
+  candidateLevels?: number[]; // w_m for m = 0..K
+  chosenIndex?: number;    // m̃, the level consistent with the sorted |W|
+  shrinkage?: number;      // w_m̃, the common bound on |W| (= M·|θ̃|)
+  // For Group Lasso
+  groupNorm?: number;      // ‖(θ, W)‖₂ before the step
+  groupScale?: number;     // max(0, 1 - λη/‖(θ, W)‖₂), applied to θ and W alike
+}
+
+export interface StepCalculationDetails {
+  stepType: OptimizationStep;
+  learningRate?: number;   // Configured η, also needed to redraw the proximal thresholding curve
+  optimizer?: OptimizerType;
+  lineSearch?: { acceptedStep: number, backtracks: number };
+  lambda?: number;         // For Proximal: the nominal threshold λ·η
+  proximalMode?: ProximalMode;
+  penalty?: PenaltyType;
+  penaltyGamma?: number;
+  features: FeatureStepDetails[];
+}
+
+// Feature and hidden unit shown in the math inspector
+export interface InspectorSelection {
+  featureId: number;
+  hiddenIndex: number;
+}
+
+export enum LambdaSchedule {
+  LINEAR = 'LINEAR',       // λ ← λ + Δλ up to λ_max
+  GEOMETRIC = 'GEOMETRIC'  // λ ← (1 + ε)·λ until every feature is gone
 }
 
+export enum InnerLoop {
+  FIXED_EPOCHS = 'FIXED_EPOCHS', // Exactly epochsPerLambda epochs per λ
+  CONVERGENCE = 'CONVERGENCE'    // Until the objective stalls (warm start for the next λ)
+}
+
+// Why the inner loop left a λ
+export enum LambdaStopReason {
+  FIXED_EPOCHS = 'FIXED_EPOCHS',
+  CONVERGED = 'CONVERGED',
+  MAX_EPOCHS = 'MAX_EPOCHS'
+}
+
+// Why the whole path ended
+export enum PathStopReason {
+  MAX_LAMBDA = 'MAX_LAMBDA',
+  ALL_ELIMINATED = 'ALL_ELIMINATED'
+}
+
+// Losses of the current model, evaluated at the end of every epoch
+export interface LossEvaluation {
+  trainLoss: number;
+  validationLoss: number | null; // null without a validation split
+  validationSe: number | null;   // Standard error of the validation loss, for the one-SE rule
+}
+
+// One point of the regularization path, recorded at the end of each λ
+export interface PathPoint {
+  lambda: number;
+  features: {
+    id: number;
+    theta: number;
+    maxW: number; // max |W| over the hidden units
+    isActive: boolean;
+  }[];
+  evaluation?: LossEvaluation; // Missing in sessions saved before the validation split
+}
+
+// Best λ on the path by validation loss
+export interface LambdaSelection {
+  minIndex: number;   // Path point with the lowest validation loss
+  oneSeIndex: number; // Largest λ within one standard error of that minimum
+}
+
+// Methods run side by side in comparison mode, on the same data and λ schedule
+export enum ComparisonMethod {
+  LASSONET = 'LASSONET',       // θ and W with the hierarchy constraint
+  LASSO = 'LASSO',             // Linear model: θ only, no hidden layer
+  GROUP_LASSO = 'GROUP_LASSO'  // Same network, group penalty on each feature's (θ, W row)
+}
+
+export interface ComparisonRun {
+  method: ComparisonMethod;
+  path: PathPoint[];
+  eliminatedAt: (number | null)[]; // λ at which each feature dropped out, null if it survived
+}
+
+// --- Elimination report ---
+
+export enum PathView {
+  PATH = 'PATH',
+  COMPARISON = 'COMPARISON',
+  REPORT = 'REPORT'
+}
+
+export interface FeatureReportRow {
+  featureId: number;
+  name: string;
+  eliminatedAt: number | null; // null if the feature survived the path
+  rank: number; // 1 = survived longest; features dropped at the same λ share a rank
+  peakTheta: number; // Signed θ where |θ| was largest along the path
+  peakLambda: number;
+}
+
+export enum StabilityResampling {
+  SEEDS = 'SEEDS',         // Same rows, different initial weights and validation split
+  BOOTSTRAP = 'BOOTSTRAP'  // Rows drawn with replacement
+}
+
+export interface StabilityResult {
+  resampling: StabilityResampling;
+  runs: number;
+  lambdas: number[];
+  frequencies: number[][]; // [λ index][feature index] share of runs in which the feature was selected
+}
+
+// Everything that used to be a compile-time constant in constants.ts
+export interface SimulationConfig {
+  hiddenSize: number;      // Units of the first hidden layer, the one under the hierarchy bound
+  deepLayers: number[];    // Widths of further hidden layers, empty for the one-layer network
+  mConstant: number;       // Hierarchy coefficient M in |W| ≤ M·|θ|
+  learningRate: number;
+  pretrainEpochs: number;  // Epochs at λ = 0 before the path starts
+  maxLambda: number;
+  lambdaStep: number;
+  epochsPerLambda: number;
+  lambdaSchedule: LambdaSchedule;
+  lambdaStart: number;      // First λ of a geometric path
+  lambdaGrowth: number;     // ε in λ ← (1 + ε)·λ
+  innerLoop: InnerLoop;
+  tolerance: number;        // Relative objective decrease that counts as progress
+  patience: number;         // Epochs without progress before a λ is considered converged
+  maxEpochsPerLambda: number;
+  proximalMode: ProximalMode;
+  optimizer: OptimizerType;
+  momentum: number;         // μ of the heavy ball
+  adamBeta1: number;
+  adamBeta2: number;
+  lineSearchShrink: number; // Backtracking factor β in t ← β·t
+  validationFraction: number; // Share of the rows held out for validation (0 trains on everything)
+  penalty: PenaltyType;     // Only threshold-then-clamp thresholds θ on its own; Hier-Prox and the group lasso use the weighted L1
+  penaltyGamma: number;     // γ of MCP (> 1) or a of SCAD (> 2)
+  adaptiveWeights: boolean; // Adaptive lasso: ω = 1/|θ| from the pretrained model, scaled to mean 1
+  unpenalizedFeatures: number[]; // Feature ids with ω = 0
+  seed: number;            // Seed for the initial weights
+}
+
+export enum SimulationEventType {
+  INITIALIZED = 'INITIALIZED',
+  PHASE_CHANGED = 'PHASE_CHANGED',
+  GRADIENT_STEP = 'GRADIENT_STEP',
+  PROXIMAL_STEP = 'PROXIMAL_STEP',
+  FEATURE_ELIMINATED = 'FEATURE_ELIMINATED',
+  LAMBDA_COMPLETED = 'LAMBDA_COMPLETED',
+  LAMBDA_INCREASED = 'LAMBDA_INCREASED',
+  PATH_FINISHED = 'PATH_FINISHED',
+  MANUAL_EDIT = 'MANUAL_EDIT'
+}
+
+// Changes made by hand on the graph, between two engine steps
+export enum ManualEditType {
+  PIN_FEATURE = 'PIN_FEATURE',       // ω = 0, or back to the configured ω when unpinned
+  REMOVE_FEATURE = 'REMOVE_FEATURE', // θ and W set to 0; the feature stays eliminated
+  SET_THETA = 'SET_THETA'            // θ set to a value; with several outputs the θ vector is rescaled to that norm
+}
+
+export type ManualEdit =
+  | { type: ManualEditType.PIN_FEATURE, featureId: number, pinned: boolean }
+  | { type: ManualEditType.REMOVE_FEATURE, featureId: number }
+  | { type: ManualEditType.SET_THETA, featureId: number, value: number };
+
+// An edit and the engine step it was made after, which is all a replay needs
+export interface RecordedEdit {
+  stepIndex: number;
+  edit: ManualEdit;
+}
+
+// Typed output of the engine; the UI turns these into log lines
+export type SimulationEvent =
+  | { type: SimulationEventType.INITIALIZED, numFeatures: number, datasetName: string, numSamples: number, numValidation?: number }
+  | { type: SimulationEventType.PHASE_CHANGED, phase: SimulationPhase, lambda: number }
+  | { type: SimulationEventType.GRADIENT_STEP, loss: number }
+  | { type: SimulationEventType.PROXIMAL_STEP, lambda: number, mode: ProximalMode }
+  | { type: SimulationEventType.FEATURE_ELIMINATED, featureId: number, lambda: number }
+  | { type: SimulationEventType.LAMBDA_COMPLETED, lambda: number, epochs: number, reason: LambdaStopReason }
+  | { type: SimulationEventType.LAMBDA_INCREASED, lambda: number }
+  | { type: SimulationEventType.PATH_FINISHED, reason: PathStopReason }
+  | ({ type: SimulationEventType.MANUAL_EDIT } & RecordedEdit);
+
 export interface SimulationState {
+  config: SimulationConfig;
   phase: SimulationPhase;
   step: OptimizationStep;
+  stepIndex: number; // Engine steps since createSimulation
   lambda: number;
   epoch: number;
   features: WeightData[];
-  logs: string[];
-  detailedLog: string | null;
+  output: OutputLayer;
+  dataset: Dataset;
+  loss: number; // Training MSE at the point where the last gradient was taken
+  evaluation: LossEvaluation; // After the last completed epoch
+  objective: number | null; // Loss + λ·Σ|θ| after the last proximal step at this λ
+  stallCount: number;       // Consecutive epochs without progress at this λ
+  path: PathPoint[];
+  events: SimulationEvent[]; // Log-worthy events so far (per-step events are not kept)
   calculationDetails: StepCalculationDetails | null;
+  optimizer: OptimizerState;
 }
 
 export interface GeminiAnalysisResponse {
   analysis: string;
 }
+
+// Buffer of every SimulationState seen so far; index points at the snapshot on screen
+export interface SimulationTimeline {
+  history: SimulationState[];
+  index: number;
+}
+
+export interface TimelineMarker {
+  index: number;
+  kind: 'phase' | 'lambda';
+  phase: SimulationPhase;
+  lambda: number;
+}
+
+// One row of a per-step trace, as written by the path runner CLI
+export interface TraceRow {
+  step: number;
+  phase: SimulationPhase;
+  stepType: OptimizationStep | 'INIT';
+  lambda: number; // λ the step ran with
+  epoch: number;
+  loss: number;
+  features: {
+    id: number;
+    name: string;
+    theta: number;
+    w: number[];
+    isActive: boolean;
+    isClamped: boolean;
+  }[];
+}
+
+export interface EliminationRecord {
+  order: number;
+  featureId: number;
+  name: string;
+  lambda: number;
+}
+
+// Saved session file; the dataset is stored once instead of in every snapshot
+export interface SessionFile {
+  version: number;
+  savedAt: string;
+  dataset: Dataset;
+  history: Omit<SimulationState, 'dataset'>[];
+  historyIndex: number;
+  aiAnalysis: string | null; // Latest assistant answer, kept for files read by older versions
+  chat?: ChatMessage[];      // Absent in files saved before the tutor chat
+}
+
+// Compact payload of a share link: config and dataset spec as diffs from the defaults
+export interface SharedSessionLink {
+  v: number;
+  c: Partial<SimulationConfig>;
+  d: Partial<SyntheticDatasetSpec>;
+  s: number; // stepIndex to replay to
+  e?: RecordedEdit[]; // Manual edits, applied when the replay reaches their step
+}
+
+// --- AI analysis ---
+
+export enum AnalysisProviderId {
+  GEMINI = 'GEMINI',
+  OPENAI_COMPATIBLE = 'OPENAI_COMPATIBLE', // Any local server speaking the OpenAI chat API (Ollama, LM Studio, llama.cpp...)
+  RULE_BASED = 'RULE_BASED'                // Deterministic, offline
+}
+
+export interface AnalysisSettings {
+  provider: AnalysisProviderId;
+  geminiModel: string;
+  localBaseUrl: string;
+  localModel: string;
+  localApiKey: string;
+}
+
+export enum FeatureVerdict {
+  KEPT = 'KEPT',
+  SHRINKING = 'SHRINKING',
+  ELIMINATED = 'ELIMINATED'
+}
+
+export interface FeatureAssessment {
+  featureId: number;
+  verdict: FeatureVerdict;
+}
+
+// Machine-readable part of an analysis, used to highlight the graph and math panel
+export interface StructuredAnalysis {
+  stepIndex: number; // Step the analysis describes
+  features: FeatureAssessment[];
+  constraintActive: boolean;
+  nextElimination: number | null; // Feature id
+}
+
+export interface AnalysisResult {
+  text: string;
+  structured?: StructuredAnalysis; // Missing when the model's answer failed validation
+  provider: AnalysisProviderId;
+  // Set when the selected provider failed and the rule-based explainer answered instead
+  fallbackReason?: string;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  // Step the conversation was at when the message was sent
+  stepIndex: number;
+  structured?: StructuredAnalysis;
+  provider?: AnalysisProviderId;
+  fallbackReason?: string;
+}
+
+// A notable moment in the run, referenced as [bước N] in tutor answers
+export interface StepReference {
+  stepIndex: number;
+  lambda: number;
+  featureId: number;
+  kind: 'eliminated' | 'clamped' | 'released';
+}
+
+// --- Localization ---
+
+export enum Locale {
+  VI = 'vi',
+  EN = 'en'
+}